@@ -13,6 +13,7 @@ import Equipment from "./pages/Equipment";
 import Calendar from "./pages/Calendar";
 import Community from "./pages/Community";
 import Profile from "./pages/Profile";
+import Band from "./pages/Band";
 import Settings from "./pages/Settings";
 import TestNotifications from "./pages/TestNotifications";
 import Notifications from "./pages/Notifications";
@@ -37,6 +38,7 @@ const AppContent = () => {
         <Route path="/community" element={<Community />} />
         <Route path="/profile" element={<Profile />} />
         <Route path="/profile/:userId" element={<Profile />} />
+        <Route path="/band/:bandId" element={<Band />} />
         <Route path="/notifications" element={<Notifications />} />
         <Route path="/settings" element={<Settings />} />
         <Route path="/test-notifications" element={<TestNotifications />} />
@@ -0,0 +1,107 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Award } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  position: number;
+}
+
+interface AchievementBadgesProps {
+  userId: string;
+  isOwnProfile: boolean;
+}
+
+const AchievementBadges = ({ userId, isOwnProfile }: AchievementBadgesProps) => {
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [awardedAt, setAwardedAt] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (userId) fetchAchievements();
+  }, [userId]);
+
+  const fetchAchievements = async () => {
+    try {
+      const [{ data: catalog, error: catalogError }, { data: awards, error: awardsError }] = await Promise.all([
+        supabase.from('achievements').select('id, name, description, icon, position').order('position'),
+        supabase.from('user_achievements').select('achievement_id, awarded_at').eq('user_id', userId)
+      ]);
+
+      if (catalogError) throw catalogError;
+      if (awardsError) throw awardsError;
+
+      setAchievements(catalog || []);
+      setAwardedAt(Object.fromEntries((awards || []).map(award => [award.achievement_id, award.awarded_at])));
+    } catch (error) {
+      console.error('Error fetching achievements:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load badges",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground text-center py-4">Loading badges...</p>;
+  }
+
+  // Other people only see what has been earned
+  const visible = isOwnProfile ? achievements : achievements.filter(achievement => awardedAt[achievement.id]);
+  const earnedCount = achievements.filter(achievement => awardedAt[achievement.id]).length;
+
+  if (visible.length === 0) {
+    return (
+      <Card className="glass-card">
+        <CardContent className="p-8 text-center">
+          <p className="text-muted-foreground">No badges earned yet</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="bg-card/50 backdrop-blur-sm rounded-2xl p-6 border border-border/50">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Award className="w-5 h-5 text-accent" />
+          <h3 className="text-foreground text-lg font-semibold">Badges</h3>
+        </div>
+        <span className="text-sm text-muted-foreground">{earnedCount}/{achievements.length} earned</span>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {visible.map((achievement) => {
+          const earnedOn = awardedAt[achievement.id];
+
+          return (
+            <div
+              key={achievement.id}
+              className={`p-3 rounded-lg border text-center ${
+                earnedOn ? 'bg-accent/10 border-accent/40' : 'bg-muted/30 border-border/50 opacity-50 grayscale'
+              }`}
+            >
+              <div className="text-3xl mb-1">{achievement.icon}</div>
+              <p className="font-medium text-sm">{achievement.name}</p>
+              <p className="text-xs text-muted-foreground">{achievement.description}</p>
+              {earnedOn && (
+                <p className="text-xs text-accent mt-1">{format(new Date(earnedOn), 'MMM dd, yyyy')}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AchievementBadges;
@@ -0,0 +1,151 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { ClipboardList, Check, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { format, isPast } from "date-fns";
+
+interface AssignedEquipment {
+  id: string;
+  name: string;
+  type: string;
+  next_cleaning_due?: string;
+}
+
+interface DelegationRequest {
+  id: string;
+  owner_id: string;
+  equipment: { name: string; type: string } | null;
+}
+
+interface AssignedCleaningsProps {
+  userId: string;
+}
+
+const AssignedCleanings = ({ userId }: AssignedCleaningsProps) => {
+  const navigate = useNavigate();
+  const [assigned, setAssigned] = useState<AssignedEquipment[]>([]);
+  const [requests, setRequests] = useState<DelegationRequest[]>([]);
+  const [ownerNames, setOwnerNames] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (userId) fetchAssignments();
+  }, [userId]);
+
+  const fetchAssignments = async () => {
+    try {
+      const { data: assignedData, error: assignedError } = await supabase
+        .from('equipment')
+        .select('id, name, type, next_cleaning_due')
+        .eq('assigned_to', userId)
+        .order('next_cleaning_due', { ascending: true, nullsFirst: false });
+
+      if (assignedError) throw assignedError;
+      setAssigned(assignedData || []);
+
+      const { data: requestData, error: requestError } = await supabase
+        .from('equipment_delegates')
+        .select('id, owner_id, equipment:equipment_id (name, type)')
+        .eq('delegate_id', userId)
+        .eq('status', 'pending')
+        .order('created_at');
+
+      if (requestError) throw requestError;
+      setRequests(requestData || []);
+
+      if (requestData && requestData.length > 0) {
+        const { data: profiles } = await supabase
+          .rpc('get_public_profiles', { profile_user_ids: [...new Set(requestData.map(request => request.owner_id))] });
+
+        setOwnerNames(Object.fromEntries(
+          (profiles || []).map(profile => [profile.user_id, profile.display_name || profile.username])
+        ));
+      }
+    } catch (error) {
+      console.error('Error fetching assigned cleanings:', error);
+    }
+  };
+
+  const handleAnswer = async (request: DelegationRequest, status: 'accepted' | 'declined') => {
+    try {
+      const { error } = await supabase
+        .from('equipment_delegates')
+        .update({ status })
+        .eq('id', request.id);
+
+      if (error) throw error;
+      toast({
+        title: status === 'accepted' ? "Request Accepted" : "Request Declined",
+        description: status === 'accepted'
+          ? `${request.equipment?.name} now shows up on your Equipment page`
+          : `You won't be asked to clean ${request.equipment?.name}`
+      });
+      fetchAssignments();
+    } catch (error) {
+      console.error('Error answering delegation request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to answer request",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (assigned.length === 0 && requests.length === 0) return null;
+
+  return (
+    <Card className="glass-card mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ClipboardList className="w-5 h-5 text-primary" />
+          Assigned to Me
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {requests.map((request) => (
+          <div key={request.id} className="flex items-center gap-3 p-2 rounded-lg bg-primary/10">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-semibold truncate">{request.equipment?.name}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {ownerNames[request.owner_id] || 'Someone'} asked you to help clean this
+              </p>
+            </div>
+            <Button size="sm" className="h-7 w-7 p-0" onClick={() => handleAnswer(request, 'accepted')}>
+              <Check className="w-4 h-4" />
+            </Button>
+            <Button size="sm" variant="outline" className="h-7 w-7 p-0" onClick={() => handleAnswer(request, 'declined')}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+
+        {assigned.map((item) => {
+          const isOverdue = item.next_cleaning_due && isPast(new Date(item.next_cleaning_due));
+          return (
+            <div
+              key={item.id}
+              className="flex items-center gap-3 p-2 rounded-lg bg-accent/5 hover:bg-accent/10 cursor-pointer transition-colors"
+              onClick={() => navigate('/equipment')}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold truncate">{item.name}</p>
+                <p className="text-xs text-muted-foreground capitalize">{item.type}</p>
+              </div>
+              {item.next_cleaning_due && (
+                <Badge variant={isOverdue ? "destructive" : "outline"} className="text-xs">
+                  {isOverdue ? 'Overdue' : `Due ${format(new Date(item.next_cleaning_due), 'MMM d')}`}
+                </Badge>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AssignedCleanings;
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import CreatePost from "@/components/CreatePost";
+
+interface BeforeAfterViewerProps {
+  beforePhotos: string[];
+  afterPhotos: string[];
+  caption: string;
+  onShared?: () => void;
+}
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  // The bucket is public; anonymous CORS keeps the canvas exportable
+  image.crossOrigin = "anonymous";
+  image.onload = () => resolve(image);
+  image.onerror = reject;
+  image.src = url;
+});
+
+// Draws both photos side by side at a common height with small labels
+const composeSideBySide = async (beforeUrl: string, afterUrl: string): Promise<File> => {
+  const [before, after] = await Promise.all([loadImage(beforeUrl), loadImage(afterUrl)]);
+  const height = Math.min(before.naturalHeight, after.naturalHeight, 1080);
+  const beforeWidth = Math.round(before.naturalWidth * height / before.naturalHeight);
+  const afterWidth = Math.round(after.naturalWidth * height / after.naturalHeight);
+  const gap = 8;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = beforeWidth + gap + afterWidth;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas not supported");
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(before, 0, 0, beforeWidth, height);
+  context.drawImage(after, beforeWidth + gap, 0, afterWidth, height);
+
+  const fontSize = Math.max(16, Math.round(height / 20));
+  context.font = `bold ${fontSize}px sans-serif`;
+  const padding = fontSize / 2;
+  const drawLabel = (label: string, x: number) => {
+    context.fillStyle = "rgba(0, 0, 0, 0.6)";
+    context.fillRect(x + padding, padding, context.measureText(label).width + padding * 2, fontSize + padding);
+    context.fillStyle = "#ffffff";
+    context.fillText(label, x + padding * 2, padding + fontSize);
+  };
+  drawLabel("Before", 0);
+  drawLabel("After", beforeWidth + gap);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/jpeg", 0.9));
+  if (!blob) throw new Error("Failed to export comparison");
+  return new File([blob], `before-after-${Date.now()}.jpg`, { type: "image/jpeg" });
+};
+
+const BeforeAfterViewer = ({ beforePhotos, afterPhotos, caption, onShared }: BeforeAfterViewerProps) => {
+  const [beforeIndex, setBeforeIndex] = useState(0);
+  const [afterIndex, setAfterIndex] = useState(Math.max(afterPhotos.length - 1, 0));
+  const [shareImage, setShareImage] = useState<File | null>(null);
+  const [composing, setComposing] = useState(false);
+  const { toast } = useToast();
+
+  const handleShare = async () => {
+    setComposing(true);
+    try {
+      setShareImage(await composeSideBySide(beforePhotos[beforeIndex], afterPhotos[afterIndex]));
+    } catch (error) {
+      console.error('Error creating comparison image:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create comparison image",
+        variant: "destructive"
+      });
+    } finally {
+      setComposing(false);
+    }
+  };
+
+  if (shareImage) {
+    return (
+      <div className="space-y-2">
+        <CreatePost
+          initialContent={caption}
+          initialImageFile={shareImage}
+          onPostCreated={() => {
+            setShareImage(null);
+            onShared?.();
+          }}
+        />
+        <Button type="button" variant="outline" className="w-full" onClick={() => setShareImage(null)}>
+          Back to Comparison
+        </Button>
+      </div>
+    );
+  }
+
+  const renderSide = (label: string, photos: string[], selectedIndex: number, onSelect: (index: number) => void) => (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-center">{label}</p>
+      <img
+        src={photos[selectedIndex]}
+        alt={label}
+        className="w-full aspect-square rounded-lg object-cover border border-border/50"
+      />
+      {photos.length > 1 && (
+        <div className="flex flex-wrap gap-1 justify-center">
+          {photos.map((url, index) => (
+            <button key={url} type="button" onClick={() => onSelect(index)}>
+              <img
+                src={url}
+                alt={`${label} ${index + 1}`}
+                className={`w-10 h-10 rounded object-cover border-2 ${index === selectedIndex ? 'border-primary' : 'border-transparent'}`}
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        {renderSide("Before", beforePhotos, beforeIndex, setBeforeIndex)}
+        {renderSide("After", afterPhotos, afterIndex, setAfterIndex)}
+      </div>
+      <Button type="button" className="w-full" disabled={composing} onClick={handleShare}>
+        <Share2 className="w-4 h-4 mr-2" />
+        {composing ? "Preparing..." : "Share as Post"}
+      </Button>
+    </div>
+  );
+};
+
+export default BeforeAfterViewer;
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { Plus, Copy, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useEquipmentTypes } from "@/hooks/useEquipmentTypes";
+
+interface BulkRow {
+  key: number;
+  name: string;
+  type: string;
+  cleaning_frequency_days: number;
+}
+
+interface BulkAddEquipmentProps {
+  onAdded: () => void;
+}
+
+const STARTING_ROWS = 3;
+
+let nextRowKey = 0;
+const emptyRow = (): BulkRow => ({ key: nextRowKey++, name: "", type: "other", cleaning_frequency_days: 30 });
+
+const BulkAddEquipment = ({ onAdded }: BulkAddEquipmentProps) => {
+  const [rows, setRows] = useState<BulkRow[]>(() => Array.from({ length: STARTING_ROWS }, emptyRow));
+  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
+  const [showOnProfile, setShowOnProfile] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { equipmentTypes, getEquipmentType } = useEquipmentTypes();
+
+  const updateRow = (key: number, updates: Partial<BulkRow>) => {
+    setRows(rows.map(row => row.key === key ? { ...row, ...updates } : row));
+  };
+
+  // A new type brings its default frequency along, like the single add form
+  const changeRowType = (key: number, type: string) => {
+    updateRow(key, {
+      type,
+      cleaning_frequency_days: getEquipmentType(type)?.default_frequency_days || 30
+    });
+  };
+
+  const duplicateRow = (row: BulkRow) => {
+    const index = rows.findIndex(item => item.key === row.key);
+    const copy = { ...row, key: nextRowKey++ };
+    setRows([...rows.slice(0, index + 1), copy, ...rows.slice(index + 1)]);
+  };
+
+  const removeRow = (key: number) => {
+    const remaining = rows.filter(row => row.key !== key);
+    setRows(remaining.length > 0 ? remaining : [emptyRow()]);
+  };
+
+  const filledRows = rows.filter(row => row.name.trim());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (filledRows.length === 0) return;
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      // Each item gets its type's default checklist from the database
+      const { error } = await supabase
+        .from('equipment')
+        .insert(filledRows.map(row => ({
+          user_id: user.id,
+          name: row.name.trim(),
+          type: row.type,
+          icon: row.type,
+          cleaning_frequency_days: row.cleaning_frequency_days > 0 ? row.cleaning_frequency_days : 30,
+          notifications_enabled: notificationsEnabled,
+          show_on_profile: showOnProfile
+        })));
+
+      if (error) throw error;
+      toast({
+        title: "Success",
+        description: `Added ${filledRows.length} item${filledRows.length === 1 ? '' : 's'}`
+      });
+      setRows(Array.from({ length: STARTING_ROWS }, emptyRow));
+      onAdded();
+    } catch (error) {
+      console.error('Error bulk adding equipment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add equipment",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 p-1">
+      <div className="grid grid-cols-[1fr_8rem_4.5rem_4rem] gap-2 text-xs text-muted-foreground">
+        <span>Name</span>
+        <span>Type</span>
+        <span>Every (days)</span>
+        <span />
+      </div>
+      {rows.map((row, index) => (
+        <div key={row.key} className="grid grid-cols-[1fr_8rem_4.5rem_4rem] gap-2 items-center">
+          <Input
+            aria-label={`Name ${index + 1}`}
+            value={row.name}
+            onChange={(e) => updateRow(row.key, { name: e.target.value })}
+            placeholder={index === 0 ? "e.g. Studio SM58" : ""}
+          />
+          <Select value={row.type} onValueChange={(value) => changeRowType(row.key, value)}>
+            <SelectTrigger aria-label={`Type ${index + 1}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {equipmentTypes.map((equipmentType) => (
+                <SelectItem key={equipmentType.id} value={equipmentType.id}>
+                  {equipmentType.icon} {equipmentType.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            aria-label={`Frequency ${index + 1}`}
+            type="number"
+            min="1"
+            value={row.cleaning_frequency_days}
+            onChange={(e) => updateRow(row.key, { cleaning_frequency_days: parseInt(e.target.value) })}
+          />
+          <div className="flex">
+            <Button type="button" variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => duplicateRow(row)}>
+              <Copy className="w-3 h-3" />
+            </Button>
+            <Button type="button" variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => removeRow(row.key)}>
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => setRows([...rows, emptyRow()])}>
+        <Plus className="w-4 h-4 mr-1" />
+        Add Row
+      </Button>
+      <div className="flex items-center space-x-2">
+        <Switch id="bulk-notifications" checked={notificationsEnabled} onCheckedChange={setNotificationsEnabled} />
+        <Label htmlFor="bulk-notifications">Enable notifications</Label>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Switch id="bulk-profile" checked={showOnProfile} onCheckedChange={setShowOnProfile} />
+        <Label htmlFor="bulk-profile">Show on profile</Label>
+      </div>
+      <Button type="submit" className="w-full" disabled={saving || filledRows.length === 0}>
+        {saving ? "Adding..." : `Add ${filledRows.length} Item${filledRows.length === 1 ? '' : 's'}`}
+      </Button>
+    </form>
+  );
+};
+
+export default BulkAddEquipment;
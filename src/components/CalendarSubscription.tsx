@@ -0,0 +1,164 @@
+import { useState, useEffect } from "react";
+import { Copy, RefreshCw, Rss, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { calendarFeedUrl, calendarFeedWebcalUrl } from "@/lib/ical";
+
+// Anyone with the feed URL can read the calendar, so it can be replaced
+// (old subscriptions stop updating) or turned off entirely
+const CalendarSubscription = () => {
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchFeed();
+  }, []);
+
+  const fetchFeed = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('calendar_feeds')
+        .select('token')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setToken(data?.token || null);
+    } catch (error) {
+      console.error('Error fetching calendar feed:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('reset_calendar_feed_token');
+      if (error) throw error;
+
+      if (token) {
+        toast({
+          title: "Feed URL Replaced",
+          description: "Calendars subscribed to the old URL will stop updating",
+        });
+      }
+      setToken(data);
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create calendar feed",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from('calendar_feeds')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      setToken(null);
+    } catch (error) {
+      console.error('Error turning off calendar feed:', error);
+      toast({
+        title: "Error",
+        description: "Failed to turn off calendar feed",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!token) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl(token));
+      toast({
+        title: "Success",
+        description: "Feed URL copied to clipboard",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to copy feed URL",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return <div className="text-sm text-muted-foreground">Loading...</div>;
+  }
+
+  if (!token) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Subscribe from Google Calendar, Apple Calendar or Outlook to see your events and
+          cleaning due dates there. The calendar app checks for changes every few hours.
+        </p>
+        <Button onClick={handleReset} disabled={saving} className="w-full">
+          <Rss className="w-4 h-4 mr-2" />
+          Create Feed URL
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="calendar-feed-url">Feed URL</Label>
+        <div className="flex gap-2">
+          <Input id="calendar-feed-url" value={calendarFeedUrl(token)} readOnly onFocus={(e) => e.target.select()} />
+          <Button variant="outline" size="icon" onClick={handleCopy} className="shrink-0">
+            <Copy className="w-4 h-4" />
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Keep this URL private: anyone who has it can see your calendar.
+        </p>
+      </div>
+
+      <Button asChild className="w-full">
+        <a href={calendarFeedWebcalUrl(token)}>
+          <Rss className="w-4 h-4 mr-2" />
+          Open in Calendar App
+        </a>
+      </Button>
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={handleReset} disabled={saving} className="flex-1">
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Replace URL
+        </Button>
+        <Button variant="outline" onClick={handleDisable} disabled={saving} className="flex-1">
+          <Trash2 className="w-4 h-4 mr-2" />
+          Turn Off
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarSubscription;
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { Plus, Trash2, ChevronUp, ChevronDown, ListChecks } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export interface CleaningStep {
+  id: string;
+  equipment_id: string;
+  title: string;
+  position: number;
+}
+
+interface CleaningChecklistEditorProps {
+  equipmentId: string;
+  steps: CleaningStep[];
+  onStepsChange: (steps: CleaningStep[]) => void;
+}
+
+const CleaningChecklistEditor = ({ equipmentId, steps, onStepsChange }: CleaningChecklistEditorProps) => {
+  const [newStepTitle, setNewStepTitle] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const orderedSteps = [...steps].sort((a, b) => a.position - b.position);
+
+  const handleAddStep = async () => {
+    const title = newStepTitle.trim();
+    if (!title) return;
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const nextPosition = orderedSteps.length > 0
+        ? orderedSteps[orderedSteps.length - 1].position + 1
+        : 0;
+
+      const { data, error } = await supabase
+        .from('equipment_cleaning_steps')
+        .insert({
+          equipment_id: equipmentId,
+          user_id: user.id,
+          title,
+          position: nextPosition
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      onStepsChange([...steps, data]);
+      setNewStepTitle("");
+    } catch (error) {
+      console.error('Error adding cleaning step:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add checklist step",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteStep = async (stepId: string) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('equipment_cleaning_steps')
+        .delete()
+        .eq('id', stepId);
+
+      if (error) throw error;
+
+      onStepsChange(steps.filter(step => step.id !== stepId));
+    } catch (error) {
+      console.error('Error deleting cleaning step:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete checklist step",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMoveStep = async (index: number, direction: 'up' | 'down') => {
+    const otherIndex = direction === 'up' ? index - 1 : index + 1;
+    if (otherIndex < 0 || otherIndex >= orderedSteps.length) return;
+
+    const reordered = [...orderedSteps];
+    [reordered[index], reordered[otherIndex]] = [reordered[otherIndex], reordered[index]];
+
+    setSaving(true);
+    try {
+      // Renumber the whole list so gaps left by deleted steps don't matter
+      const changed = reordered.filter((step, position) => step.position !== position);
+      const results = await Promise.all(
+        changed.map(step =>
+          supabase
+            .from('equipment_cleaning_steps')
+            .update({ position: reordered.indexOf(step) })
+            .eq('id', step.id)
+        )
+      );
+
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+
+      onStepsChange(reordered.map((step, position) => ({ ...step, position })));
+    } catch (error) {
+      console.error('Error reordering cleaning steps:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reorder checklist",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {orderedSteps.length === 0 ? (
+        <div className="text-center py-4">
+          <ListChecks className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+          <p className="text-sm text-muted-foreground">No checklist steps yet</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {orderedSteps.map((step, index) => (
+            <div key={step.id} className="flex items-center gap-2 p-2 bg-muted/50 rounded-lg">
+              <span className="text-xs text-muted-foreground w-5 text-right">{index + 1}.</span>
+              <span className="flex-1 text-sm">{step.title}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={saving || index === 0}
+                onClick={() => handleMoveStep(index, 'up')}
+              >
+                <ChevronUp className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={saving || index === orderedSteps.length - 1}
+                onClick={() => handleMoveStep(index, 'down')}
+              >
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={saving}
+                onClick={() => handleDeleteStep(step.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={newStepTitle}
+          onChange={(e) => setNewStepTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAddStep();
+            }
+          }}
+          placeholder="e.g. Oil fretboard"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          disabled={saving || !newStepTitle.trim()}
+          onClick={handleAddStep}
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CleaningChecklistEditor;
@@ -0,0 +1,227 @@
+import { useState, useEffect } from "react";
+import { UserPlus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface Delegate {
+  id: string;
+  delegate_id: string;
+  status: string;
+}
+
+interface CleaningDelegatesProps {
+  equipment: {
+    id: string;
+    user_id: string;
+    assigned_to?: string;
+    auto_rotate_assignment?: boolean;
+  };
+  onChange: () => void;
+}
+
+const statusStyles = {
+  pending: "border-yellow-500 text-yellow-600",
+  accepted: "border-green-500 text-green-600",
+  declined: "border-red-500 text-red-600"
+};
+
+const CleaningDelegates = ({ equipment, onChange }: CleaningDelegatesProps) => {
+  const [delegates, setDelegates] = useState<Delegate[]>([]);
+  const [following, setFollowing] = useState<string[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [inviteId, setInviteId] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchDelegates();
+  }, [equipment.id]);
+
+  const fetchDelegates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('equipment_delegates')
+        .select('id, delegate_id, status')
+        .eq('equipment_id', equipment.id)
+        .order('created_at');
+
+      if (error) throw error;
+      setDelegates(data || []);
+
+      // Only people the owner follows can be asked
+      const { data: follows, error: followsError } = await supabase
+        .from('followers')
+        .select('following_id')
+        .eq('follower_id', equipment.user_id);
+
+      if (followsError) throw followsError;
+      const followingIds = (follows || []).map(follow => follow.following_id);
+      setFollowing(followingIds);
+
+      const userIds = [...new Set([...followingIds, ...(data || []).map(delegate => delegate.delegate_id)])];
+      if (userIds.length > 0) {
+        const { data: profiles } = await supabase
+          .rpc('get_public_profiles', { profile_user_ids: userIds });
+
+        setNames(Object.fromEntries(
+          (profiles || []).map(profile => [profile.user_id, profile.display_name || profile.username])
+        ));
+      }
+    } catch (error) {
+      console.error('Error fetching cleaning delegates:', error);
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!inviteId) return;
+
+    try {
+      const { error } = await supabase
+        .from('equipment_delegates')
+        .insert({
+          equipment_id: equipment.id,
+          owner_id: equipment.user_id,
+          delegate_id: inviteId
+        });
+
+      if (error) throw error;
+      setInviteId("");
+      fetchDelegates();
+      toast({
+        title: "Request Sent",
+        description: `${names[inviteId] || 'They'} will be asked to accept`
+      });
+    } catch (error) {
+      console.error('Error inviting delegate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send request",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRemove = async (delegate: Delegate) => {
+    try {
+      // Clearing an assignment to them is handled by the database
+      const { error } = await supabase
+        .from('equipment_delegates')
+        .delete()
+        .eq('id', delegate.id);
+
+      if (error) throw error;
+      fetchDelegates();
+      onChange();
+    } catch (error) {
+      console.error('Error removing delegate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove delegate",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateAssignment = async (updates: { assigned_to?: string | null; auto_rotate_assignment?: boolean }) => {
+    try {
+      const { error } = await supabase
+        .from('equipment')
+        .update(updates)
+        .eq('id', equipment.id);
+
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      console.error('Error updating cleaning assignment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update assignment",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const acceptedDelegates = delegates.filter(delegate => delegate.status === 'accepted');
+  const invitable = following.filter(userId => !delegates.some(delegate => delegate.delegate_id === userId));
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {delegates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Ask someone you follow, like your tech, to take over cleaning this item.
+          </p>
+        ) : (
+          delegates.map((delegate) => (
+            <div key={delegate.id} className="flex items-center gap-2 p-2 rounded bg-muted/50">
+              <span className="text-sm flex-1 truncate">{names[delegate.delegate_id] || 'User'}</span>
+              <Badge variant="outline" className={`text-xs capitalize ${statusStyles[delegate.status as keyof typeof statusStyles] || ''}`}>
+                {delegate.status}
+              </Badge>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleRemove(delegate)}>
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+
+      {invitable.length > 0 && (
+        <div className="flex gap-2">
+          <Select value={inviteId} onValueChange={setInviteId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose someone you follow" />
+            </SelectTrigger>
+            <SelectContent>
+              {invitable.map((userId) => (
+                <SelectItem key={userId} value={userId}>{names[userId] || 'User'}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" disabled={!inviteId} onClick={handleInvite}>
+            <UserPlus className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      {acceptedDelegates.length > 0 && (
+        <>
+          <div>
+            <Label htmlFor={`assignee-${equipment.id}`}>Next Cleaning</Label>
+            <Select
+              value={equipment.assigned_to || "owner"}
+              onValueChange={(value) => updateAssignment({ assigned_to: value === "owner" ? null : value })}
+            >
+              <SelectTrigger id={`assignee-${equipment.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="owner">Me</SelectItem>
+                {acceptedDelegates.map((delegate) => (
+                  <SelectItem key={delegate.delegate_id} value={delegate.delegate_id}>
+                    {names[delegate.delegate_id] || 'User'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">Reminders go to whoever is assigned</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id={`rotate-${equipment.id}`}
+              checked={!!equipment.auto_rotate_assignment}
+              onCheckedChange={(checked) => updateAssignment({ auto_rotate_assignment: checked })}
+            />
+            <Label htmlFor={`rotate-${equipment.id}`}>Rotate between delegates after each cleaning</Label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CleaningDelegates;
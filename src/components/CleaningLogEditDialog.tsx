@@ -0,0 +1,240 @@
+import { useState, useEffect, useMemo } from "react";
+import { format } from "date-fns";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { getEquipmentPhotoPath, uploadEquipmentPhoto } from "@/lib/storage";
+
+interface EditableCleaningLog {
+  id: string;
+  cleaned_at: string;
+  notes?: string;
+  equipment?: { name: string };
+}
+
+interface LogPhoto {
+  id: string;
+  photo_url: string;
+  kind: string;
+  position: number;
+}
+
+interface CleaningLogEditDialogProps {
+  log: EditableCleaningLog | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const CleaningLogEditDialog = ({ log, onOpenChange, onSaved }: CleaningLogEditDialogProps) => {
+  const [cleanedAt, setCleanedAt] = useState("");
+  const [notes, setNotes] = useState("");
+  const [photos, setPhotos] = useState<LogPhoto[]>([]);
+  const [removedPhotoIds, setRemovedPhotoIds] = useState<string[]>([]);
+  const [newPhotos, setNewPhotos] = useState<{ before: File[]; after: File[] }>({ before: [], after: [] });
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Previews for the picked files, released when the selection changes
+  const newPhotosPreviews = useMemo(() => ({
+    before: newPhotos.before.map(file => URL.createObjectURL(file)),
+    after: newPhotos.after.map(file => URL.createObjectURL(file)),
+  }), [newPhotos]);
+
+  useEffect(() => () => {
+    [...newPhotosPreviews.before, ...newPhotosPreviews.after].forEach(url => URL.revokeObjectURL(url));
+  }, [newPhotosPreviews]);
+
+  useEffect(() => {
+    if (!log) return;
+    setCleanedAt(format(new Date(log.cleaned_at), "yyyy-MM-dd'T'HH:mm"));
+    setNotes(log.notes || "");
+    setRemovedPhotoIds([]);
+    setNewPhotos({ before: [], after: [] });
+    fetchPhotos(log.id);
+  }, [log]);
+
+  const fetchPhotos = async (cleaningLogId: string) => {
+    const { data, error } = await supabase
+      .from('cleaning_log_photos')
+      .select('id, photo_url, kind, position')
+      .eq('cleaning_log_id', cleaningLogId)
+      .order('position');
+
+    if (error) {
+      console.error('Error fetching cleaning photos:', error);
+      return;
+    }
+    setPhotos(data || []);
+  };
+
+  const handleSave = async () => {
+    if (!log) return;
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const removedPhotos = photos.filter(photo => removedPhotoIds.includes(photo.id));
+      if (removedPhotos.length > 0) {
+        const { error: removeError } = await supabase
+          .from('cleaning_log_photos')
+          .delete()
+          .in('id', removedPhotoIds);
+
+        if (removeError) throw removeError;
+
+        await supabase.storage
+          .from('equipment-photos')
+          .remove(removedPhotos.map(photo => getEquipmentPhotoPath(photo.photo_url)));
+      }
+
+      const keptPhotos = photos.filter(photo => !removedPhotoIds.includes(photo.id));
+      const nextPosition = (kind: string) => keptPhotos
+        .filter(photo => photo.kind === kind)
+        .reduce((max, photo) => Math.max(max, photo.position + 1), 0);
+
+      const photosToUpload = (['before', 'after'] as const).flatMap(kind =>
+        newPhotos[kind].map((file, index) => ({ file, kind, position: nextPosition(kind) + index }))
+      );
+      const addedPhotos = await Promise.all(photosToUpload.map(async ({ file, kind, position }) => ({
+        cleaning_log_id: log.id,
+        user_id: user.id,
+        photo_url: await uploadEquipmentPhoto(file, `${user.id}/cleanings/${log.id}-${kind}`),
+        kind,
+        position,
+      })));
+
+      if (addedPhotos.length > 0) {
+        const { error: photosError } = await supabase
+          .from('cleaning_log_photos')
+          .insert(addedPhotos);
+
+        if (photosError) throw photosError;
+      }
+
+      // Streak and due dates are recomputed by the database when the date changes
+      const allPhotos = [...keptPhotos, ...addedPhotos];
+      const coverPhoto = allPhotos.find(photo => photo.kind === 'after') || allPhotos[0];
+      const { error } = await supabase
+        .from('cleaning_logs')
+        .update({
+          cleaned_at: new Date(cleanedAt).toISOString(),
+          notes: notes.trim() || null,
+          photo_url: coverPhoto?.photo_url || null
+        })
+        .eq('id', log.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Cleaning updated"
+      });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error updating cleaning log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update cleaning",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!log} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Cleaning - {log?.equipment?.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="edit-cleaned-at">Cleaned At</Label>
+            <Input
+              id="edit-cleaned-at"
+              type="datetime-local"
+              value={cleanedAt}
+              onChange={(e) => setCleanedAt(e.target.value)}
+              max={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+              required
+            />
+          </div>
+          {(['before', 'after'] as const).map((kind) => {
+            const existing = photos.filter(photo => photo.kind === kind && !removedPhotoIds.includes(photo.id));
+
+            return (
+              <div key={kind}>
+                <Label htmlFor={`edit-${kind}-photos`}>{kind === 'before' ? 'Before Photos' : 'After Photos'}</Label>
+                {(existing.length > 0 || newPhotos[kind].length > 0) && (
+                  <div className="flex flex-wrap gap-2 my-2">
+                    {existing.map((photo) => (
+                      <div key={photo.id} className="relative">
+                        <img src={photo.photo_url} alt={kind} className="w-16 h-16 rounded object-cover border border-border/50" />
+                        <button
+                          type="button"
+                          className="absolute -top-1 -right-1 bg-background border rounded-full p-0.5"
+                          onClick={() => setRemovedPhotoIds([...removedPhotoIds, photo.id])}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                    {newPhotos[kind].map((file, index) => (
+                      <div key={`${file.name}-${index}`} className="relative">
+                        <img src={newPhotosPreviews[kind][index]} alt={kind} className="w-16 h-16 rounded object-cover border border-primary/50" />
+                        <button
+                          type="button"
+                          className="absolute -top-1 -right-1 bg-background border rounded-full p-0.5"
+                          onClick={() => setNewPhotos(current => ({
+                            ...current,
+                            [kind]: current[kind].filter((_, fileIndex) => fileIndex !== index)
+                          }))}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <Input
+                  id={`edit-${kind}-photos`}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={(e) => {
+                    const files = Array.from(e.target.files || []);
+                    setNewPhotos(current => ({ ...current, [kind]: [...current[kind], ...files] }));
+                    e.target.value = "";
+                  }}
+                />
+              </div>
+            );
+          })}
+          <div>
+            <Label htmlFor="edit-cleaning-notes">Notes (optional)</Label>
+            <Textarea
+              id="edit-cleaning-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Add any notes about the cleaning..."
+            />
+          </div>
+          <Button type="button" className="w-full" disabled={saving || !cleanedAt} onClick={handleSave}>
+            {saving ? "Saving..." : "Save Changes"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CleaningLogEditDialog;
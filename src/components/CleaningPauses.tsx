@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Plane, Snowflake, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export interface CleaningPause {
+  id: string;
+  equipment_id?: string;
+  kind: string;
+  starts_on: string;
+  ends_on: string;
+  reason?: string;
+}
+
+interface CleaningPausesProps {
+  pauses: CleaningPause[];
+  equipment: { id: string; name: string }[];
+  onChange: () => void;
+}
+
+const emptyForm = () => ({
+  equipment_id: "all",
+  starts_on: format(new Date(), 'yyyy-MM-dd'),
+  ends_on: "",
+  reason: ""
+});
+
+const CleaningPauses = ({ pauses, equipment, onChange }: CleaningPausesProps) => {
+  const [formData, setFormData] = useState(emptyForm());
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const getEquipmentName = (equipmentId?: string) => {
+    if (!equipmentId) return "All equipment";
+    return equipment.find(item => item.id === equipmentId)?.name || "Removed equipment";
+  };
+
+  const handleAdd = async () => {
+    if (!formData.starts_on || !formData.ends_on) return;
+    if (formData.ends_on < formData.starts_on) {
+      toast({
+        title: "Error",
+        description: "The pause has to end on or after its start date",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      // Due dates and streaks are adjusted by the database
+      const { error } = await supabase
+        .from('cleaning_pauses')
+        .insert({
+          user_id: user.id,
+          equipment_id: formData.equipment_id === "all" ? null : formData.equipment_id,
+          kind: 'vacation',
+          starts_on: formData.starts_on,
+          ends_on: formData.ends_on,
+          reason: formData.reason.trim() || null
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Vacation mode scheduled. Due dates are pushed back and reminders are paused."
+      });
+      setFormData(emptyForm());
+      onChange();
+    } catch (error) {
+      console.error('Error creating pause:', error);
+      toast({
+        title: "Error",
+        description: "Failed to schedule vacation mode",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (pauseId: string) => {
+    try {
+      const { error } = await supabase
+        .from('cleaning_pauses')
+        .delete()
+        .eq('id', pauseId);
+
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      console.error('Error deleting pause:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove pause",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Away from your gear? While paused, due dates move back by the paused days, streaks are frozen and cleaning reminders stop.
+      </p>
+
+      <div className="space-y-3 p-3 border rounded-lg">
+        <div>
+          <Label htmlFor="pause-equipment">Pause</Label>
+          <Select value={formData.equipment_id} onValueChange={(value) => setFormData({ ...formData, equipment_id: value })}>
+            <SelectTrigger id="pause-equipment">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All equipment</SelectItem>
+              {equipment.map((item) => (
+                <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="pause-starts-on">From</Label>
+            <Input
+              id="pause-starts-on"
+              type="date"
+              value={formData.starts_on}
+              onChange={(e) => setFormData({ ...formData, starts_on: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="pause-ends-on">Until</Label>
+            <Input
+              id="pause-ends-on"
+              type="date"
+              min={formData.starts_on}
+              value={formData.ends_on}
+              onChange={(e) => setFormData({ ...formData, ends_on: e.target.value })}
+            />
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="pause-reason">Reason (optional)</Label>
+          <Input
+            id="pause-reason"
+            value={formData.reason}
+            onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+            placeholder="e.g. European tour"
+          />
+        </div>
+        <Button
+          type="button"
+          className="w-full"
+          disabled={saving || !formData.starts_on || !formData.ends_on}
+          onClick={handleAdd}
+        >
+          <Plane className="w-4 h-4 mr-2" />
+          {saving ? "Saving..." : "Schedule Pause"}
+        </Button>
+      </div>
+
+      {pauses.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium text-sm text-muted-foreground">Current & Upcoming</h4>
+          {pauses.map((pause) => {
+            const PauseIcon = pause.kind === 'freeze' ? Snowflake : Plane;
+
+            return (
+              <div key={pause.id} className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg">
+                <PauseIcon className="w-5 h-5 text-primary flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {getEquipmentName(pause.equipment_id)}
+                    {pause.kind === 'freeze' && <span className="text-xs text-muted-foreground ml-2">Streak freeze</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(parseISO(pause.starts_on), 'MMM dd')} - {format(parseISO(pause.ends_on), 'MMM dd, yyyy')}
+                    {pause.reason && ` · ${pause.reason}`}
+                  </p>
+                </div>
+                {pause.kind === 'vacation' && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => handleDelete(pause.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CleaningPauses;
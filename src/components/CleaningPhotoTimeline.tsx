@@ -0,0 +1,122 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Columns2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import BeforeAfterViewer from "@/components/BeforeAfterViewer";
+
+interface CleaningPhotos {
+  cleaningLogId: string;
+  cleanedAt: string;
+  before: string[];
+  after: string[];
+}
+
+interface CleaningPhotoTimelineProps {
+  equipmentId: string;
+  equipmentName: string;
+}
+
+const CleaningPhotoTimeline = ({ equipmentId, equipmentName }: CleaningPhotoTimelineProps) => {
+  const [cleanings, setCleanings] = useState<CleaningPhotos[]>([]);
+  const [comparing, setComparing] = useState<CleaningPhotos | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchPhotos();
+  }, [equipmentId]);
+
+  const fetchPhotos = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('cleaning_log_photos')
+        .select('cleaning_log_id, photo_url, kind, position, cleaning_log:cleaning_log_id!inner (cleaned_at, equipment_id)')
+        .eq('cleaning_log.equipment_id', equipmentId)
+        .order('position');
+
+      if (error) throw error;
+
+      const byLog = new Map<string, CleaningPhotos>();
+      (data || []).forEach((photo) => {
+        const entry = byLog.get(photo.cleaning_log_id) || {
+          cleaningLogId: photo.cleaning_log_id,
+          cleanedAt: photo.cleaning_log.cleaned_at,
+          before: [],
+          after: []
+        };
+        (photo.kind === 'before' ? entry.before : entry.after).push(photo.photo_url);
+        byLog.set(photo.cleaning_log_id, entry);
+      });
+
+      setCleanings([...byLog.values()].sort((a, b) => b.cleanedAt.localeCompare(a.cleanedAt)));
+    } catch (error) {
+      console.error('Error fetching cleaning photos:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch cleaning photos",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (cleanings.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">Add before/after photos when logging a cleaning to see them here</p>;
+  }
+
+  const renderThumbnails = (label: string, photos: string[]) => photos.length > 0 && (
+    <div>
+      <p className="text-xs text-muted-foreground mb-1">{label}</p>
+      <div className="flex flex-wrap gap-2">
+        {photos.map((url) => (
+          <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+            <img src={url} alt={label} className="w-16 h-16 rounded object-cover border border-border/50" />
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {cleanings.map((cleaning) => (
+        <div key={cleaning.cleaningLogId} className="p-3 bg-muted/50 rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="font-medium text-sm">{format(new Date(cleaning.cleanedAt), 'MMM dd, yyyy')}</p>
+            {cleaning.before.length > 0 && cleaning.after.length > 0 && (
+              <Button type="button" variant="outline" size="sm" className="h-7 text-xs" onClick={() => setComparing(cleaning)}>
+                <Columns2 className="w-3 h-3 mr-1" />
+                Compare
+              </Button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {renderThumbnails("Before", cleaning.before)}
+            {renderThumbnails("After", cleaning.after)}
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={!!comparing} onOpenChange={(open) => !open && setComparing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {equipmentName} - {comparing && format(new Date(comparing.cleanedAt), 'MMM dd, yyyy')}
+            </DialogTitle>
+          </DialogHeader>
+          {comparing && (
+            <BeforeAfterViewer
+              beforePhotos={comparing.before}
+              afterPhotos={comparing.after}
+              caption={`Before and after cleaning my ${equipmentName} ✨`}
+              onShared={() => setComparing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CleaningPhotoTimeline;
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -10,24 +10,34 @@ import { useToast } from "@/hooks/use-toast";
 
 interface CreatePostProps {
   onPostCreated: () => void;
+  initialContent?: string;
+  initialImageFile?: File;
 }
 
-const CreatePost = ({ onPostCreated }: CreatePostProps) => {
-  const [content, setContent] = useState("");
-  const [imageFile, setImageFile] = useState<File | null>(null);
+const CreatePost = ({ onPostCreated, initialContent = "", initialImageFile }: CreatePostProps) => {
+  const [content, setContent] = useState(initialContent);
+  const [imageFile, setImageFile] = useState<File | null>(initialImageFile || null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (initialImageFile) previewImage(initialImageFile);
+  }, [initialImageFile]);
+
+  const previewImage = (file: File) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setImagePreview(reader.result as string);
+    };
+    reader.readAsDataURL(file);
+  };
+
   const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       setImageFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+      previewImage(file);
     }
   };
 
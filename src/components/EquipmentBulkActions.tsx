@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { CheckCircle, Trash2, X, Calendar } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { CleaningStep } from "@/components/CleaningChecklistEditor";
+
+interface BulkEquipment {
+  id: string;
+  name: string;
+}
+
+interface EquipmentBulkActionsProps {
+  selected: BulkEquipment[];
+  // Items the user may edit or delete; cleanings can be logged for all
+  manageableIds: string[];
+  getSteps: (equipmentId: string) => CleaningStep[];
+  onClear: () => void;
+  onChange: () => void;
+}
+
+const settingUpdates: Record<string, { notifications_enabled?: boolean; show_on_profile?: boolean }> = {
+  notifications_on: { notifications_enabled: true },
+  notifications_off: { notifications_enabled: false },
+  profile_show: { show_on_profile: true },
+  profile_hide: { show_on_profile: false }
+};
+
+const EquipmentBulkActions = ({ selected, manageableIds, getSteps, onClear, onChange }: EquipmentBulkActionsProps) => {
+  const [isFrequencyDialogOpen, setIsFrequencyDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [frequency, setFrequency] = useState(30);
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+
+  const manageable = selected.filter(item => manageableIds.includes(item.id));
+  const skippedCount = selected.length - manageable.length;
+
+  const runBulk = async (action: () => Promise<void>, successMessage: string, errorMessage: string) => {
+    setWorking(true);
+    try {
+      await action();
+      toast({
+        title: "Success",
+        description: successMessage + (skippedCount > 0 ? ` ${skippedCount} shared item${skippedCount === 1 ? ' was' : 's were'} skipped.` : "")
+      });
+      onChange();
+    } catch (error) {
+      console.error('Error running bulk action:', error);
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const updateManageable = async (updates: { cleaning_frequency_days?: number; notifications_enabled?: boolean; show_on_profile?: boolean }) => {
+    const { error } = await supabase
+      .from('equipment')
+      .update(updates)
+      .in('id', manageable.map(item => item.id));
+
+    if (error) throw error;
+  };
+
+  const handleSetting = (value: string) => runBulk(
+    () => updateManageable(settingUpdates[value]),
+    `Updated ${manageable.length} item${manageable.length === 1 ? '' : 's'}.`,
+    "Failed to update equipment"
+  );
+
+  const handleFrequency = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!frequency || frequency < 1) return;
+
+    setIsFrequencyDialogOpen(false);
+    await runBulk(
+      () => updateManageable({ cleaning_frequency_days: frequency }),
+      `${manageable.length} item${manageable.length === 1 ? ' is' : 's are'} now cleaned every ${frequency} days.`,
+      "Failed to update frequency"
+    );
+  };
+
+  const handleDelete = () => runBulk(
+    async () => {
+      const { error } = await supabase
+        .from('equipment')
+        .delete()
+        .in('id', manageable.map(item => item.id));
+
+      if (error) throw error;
+      onClear();
+    },
+    `Deleted ${manageable.length} item${manageable.length === 1 ? '' : 's'}.`,
+    "Failed to delete equipment"
+  );
+
+  // Logs a full cleaning for every selected item with all checklist steps done
+  const handleLogCleaning = async () => {
+    setWorking(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const cleanedAt = new Date().toISOString();
+      const { data: logs, error } = await supabase
+        .from('cleaning_logs')
+        .insert(selected.map(item => ({
+          equipment_id: item.id,
+          user_id: user.id,
+          cleaned_at: cleanedAt,
+          is_partial: false
+        })))
+        .select('id, equipment_id');
+
+      if (error) throw error;
+
+      const stepRows = (logs || []).flatMap(log => getSteps(log.equipment_id).map(step => ({
+        cleaning_log_id: log.id,
+        step_id: step.id,
+        user_id: user.id,
+        title: step.title,
+        position: step.position,
+        completed: true
+      })));
+
+      if (stepRows.length > 0) {
+        const { error: stepsError } = await supabase
+          .from('cleaning_log_steps')
+          .insert(stepRows);
+
+        if (stepsError) {
+          // Logs without their checklist would look complete, so drop them all
+          await supabase
+            .from('cleaning_logs')
+            .delete()
+            .in('id', (logs || []).map(log => log.id));
+          throw stepsError;
+        }
+      }
+
+      toast({
+        title: "Success",
+        description: `Logged a cleaning for ${selected.length} item${selected.length === 1 ? '' : 's'}!`
+      });
+      onClear();
+      onChange();
+    } catch (error) {
+      console.error('Error bulk logging cleanings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to log cleanings",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (selected.length === 0) return null;
+
+  return (
+    <div className="sticky bottom-4 z-10 mt-6 p-3 rounded-lg border bg-card shadow-lg flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium mr-2">{selected.length} selected</span>
+      <Button size="sm" disabled={working} onClick={handleLogCleaning}>
+        <CheckCircle className="w-4 h-4 mr-1" />
+        Log Cleaning
+      </Button>
+      {manageable.length > 0 && (
+        <>
+          <Button size="sm" variant="outline" disabled={working} onClick={() => setIsFrequencyDialogOpen(true)}>
+            <Calendar className="w-4 h-4 mr-1" />
+            Frequency
+          </Button>
+          <Select value="" onValueChange={handleSetting} disabled={working}>
+            <SelectTrigger className="h-9 w-40">
+              <SelectValue placeholder="Settings" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="notifications_on">Notifications on</SelectItem>
+              <SelectItem value="notifications_off">Notifications off</SelectItem>
+              <SelectItem value="profile_show">Show on profile</SelectItem>
+              <SelectItem value="profile_hide">Hide from profile</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" disabled={working} onClick={() => setIsDeleteDialogOpen(true)}>
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </Button>
+        </>
+      )}
+      <Button size="sm" variant="ghost" className="ml-auto" onClick={onClear}>
+        <X className="w-4 h-4" />
+      </Button>
+
+      <Dialog open={isFrequencyDialogOpen} onOpenChange={setIsFrequencyDialogOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Change Cleaning Frequency</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleFrequency} className="space-y-4">
+            <div>
+              <Label htmlFor="bulk-frequency">Clean every (days)</Label>
+              <Input
+                id="bulk-frequency"
+                type="number"
+                min="1"
+                value={frequency}
+                onChange={(e) => setFrequency(parseInt(e.target.value))}
+                required
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Applies to {manageable.length} item{manageable.length === 1 ? '' : 's'}. Usage-based items keep their usage schedule.
+              </p>
+            </div>
+            <Button type="submit" className="w-full">Apply</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {manageable.length} item{manageable.length === 1 ? '' : 's'}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {manageable.map(item => item.name).join(', ')} will be deleted along with their cleaning history. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default EquipmentBulkActions;
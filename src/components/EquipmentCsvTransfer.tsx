@@ -0,0 +1,362 @@
+import { useState } from "react";
+import { Download, Upload, AlertCircle, CheckCircle, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useEquipmentTypes } from "@/hooks/useEquipmentTypes";
+import { format } from "date-fns";
+import { toCsv, parseCsv, downloadCsv, CsvRow } from "@/lib/csv";
+import { IMPORT_FIELDS, ImportTarget, ImportPreviewRow, ColumnMapping, guessColumnMapping, previewImport } from "@/lib/equipmentCsv";
+
+interface EquipmentCsvTransferProps {
+  supplyTypes: string[];
+  onImported: () => void;
+}
+
+const EQUIPMENT_COLUMNS = [
+  "name", "type", "description", "cleaning_frequency_days", "schedule_mode", "usage_interval",
+  "notifications_enabled", "show_on_profile", "last_cleaned_at", "next_cleaning_due",
+  "current_streak", "best_streak", "created_at"
+];
+
+const SUPPLY_COLUMNS = [
+  "name", "type", "description", "quantity", "replacement_frequency_days", "next_replacement_due",
+  "last_restocked_at", "cost_per_unit", "supplier", "notes", "low_stock_threshold",
+  "purchase_date", "show_on_profile", "created_at"
+];
+
+const HISTORY_COLUMNS = ["cleaned_at", "equipment_name", "equipment_type", "is_partial", "streak_after_cleaning", "notes"];
+
+const targetLabels: Record<ImportTarget, string> = {
+  equipment: "Equipment",
+  cleaning_equipment: "Cleaning Supplies"
+};
+
+const EquipmentCsvTransfer = ({ supplyTypes, onImported }: EquipmentCsvTransferProps) => {
+  const [target, setTarget] = useState<ImportTarget>("equipment");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<CsvRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [preview, setPreview] = useState<ImportPreviewRow[] | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+  const { equipmentTypes } = useEquipmentTypes();
+
+  const knownTypes = target === "equipment"
+    ? equipmentTypes.map(type => ({ id: type.id, label: type.label }))
+    : supplyTypes.map(type => ({ id: type, label: type.replace(/_/g, " ") }));
+
+  const exportTable = async (kind: "equipment" | "supplies" | "history") => {
+    setWorking(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const date = format(new Date(), "yyyy-MM-dd");
+
+      if (kind === "equipment") {
+        const { data, error } = await supabase
+          .from('equipment')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('name');
+
+        if (error) throw error;
+        downloadCsv(`equipment-${date}.csv`, toCsv(EQUIPMENT_COLUMNS, (data || []).map(item => EQUIPMENT_COLUMNS.map(column => item[column]))));
+      } else if (kind === "supplies") {
+        const { data, error } = await supabase
+          .from('cleaning_equipment')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('name');
+
+        if (error) throw error;
+        downloadCsv(`cleaning-supplies-${date}.csv`, toCsv(SUPPLY_COLUMNS, (data || []).map(item => SUPPLY_COLUMNS.map(column => item[column]))));
+      } else {
+        const { data, error } = await supabase
+          .from('cleaning_logs')
+          .select('cleaned_at, is_partial, streak_after_cleaning, notes, equipment:equipment_id (name, type)')
+          .eq('user_id', user.id)
+          .order('cleaned_at', { ascending: false });
+
+        if (error) throw error;
+        downloadCsv(`cleaning-history-${date}.csv`, toCsv(HISTORY_COLUMNS, (data || []).map(log => [
+          log.cleaned_at,
+          log.equipment?.name,
+          log.equipment?.type,
+          log.is_partial,
+          log.streak_after_cleaning,
+          log.notes
+        ])));
+      }
+    } catch (error) {
+      console.error('Error exporting CSV:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export data",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const resetImport = () => {
+    setFileName("");
+    setHeaders([]);
+    setDataRows([]);
+    setMapping({});
+    setPreview(null);
+  };
+
+  const handleTargetChange = (value: string) => {
+    setTarget(value as ImportTarget);
+    setMapping(guessColumnMapping(headers, value as ImportTarget));
+    setPreview(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      toast({
+        title: "Nothing to Import",
+        description: "The file needs a header row and at least one data row",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(rows[0].cells);
+    setDataRows(rows.slice(1));
+    setMapping(guessColumnMapping(rows[0].cells, target));
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    setWorking(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from(target)
+        .select('name')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      setPreview(previewImport(dataRows, mapping, target, knownTypes, (data || []).map(item => item.name)));
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check the file against your items",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const importableRows = (preview || []).filter(row => row.errors.length === 0 && (includeDuplicates || !row.duplicate));
+
+  const handleImport = async () => {
+    if (importableRows.length === 0) return;
+
+    setWorking(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      // Equipment gets its type's default checklist from the database
+      const records = importableRows.map(row => ({
+        ...row.values,
+        name: String(row.values.name),
+        type: String(row.values.type),
+        icon: String(row.values.type),
+        user_id: user.id
+      }));
+
+      const { error } = target === "equipment"
+        ? await supabase.from('equipment').insert(records)
+        : await supabase.from('cleaning_equipment').insert(records);
+
+      if (error) throw error;
+      toast({
+        title: "Import Complete",
+        description: `Imported ${records.length} ${targetLabels[target].toLowerCase()} row${records.length === 1 ? '' : 's'}`
+      });
+      resetImport();
+      onImported();
+    } catch (error) {
+      console.error('Error importing CSV:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import rows",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const errorCount = (preview || []).filter(row => row.errors.length > 0).length;
+  const duplicateCount = (preview || []).filter(row => row.errors.length === 0 && row.duplicate).length;
+
+  return (
+    <Tabs defaultValue="export">
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="export">Export</TabsTrigger>
+        <TabsTrigger value="import">Import</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="export" className="space-y-3">
+        <p className="text-sm text-muted-foreground">Download your data as CSV to open in any spreadsheet.</p>
+        <Button variant="outline" className="w-full justify-start" disabled={working} onClick={() => exportTable("equipment")}>
+          <Download className="w-4 h-4 mr-2" />
+          Equipment
+        </Button>
+        <Button variant="outline" className="w-full justify-start" disabled={working} onClick={() => exportTable("supplies")}>
+          <Download className="w-4 h-4 mr-2" />
+          Cleaning Supplies
+        </Button>
+        <Button variant="outline" className="w-full justify-start" disabled={working} onClick={() => exportTable("history")}>
+          <Download className="w-4 h-4 mr-2" />
+          Cleaning History
+        </Button>
+      </TabsContent>
+
+      <TabsContent value="import" className="space-y-4">
+        <div>
+          <Label htmlFor="csv-import-target">Import Into</Label>
+          <Select value={target} onValueChange={handleTargetChange}>
+            <SelectTrigger id="csv-import-target">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(targetLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor="csv-import-file">CSV File</Label>
+          <Input
+            id="csv-import-file"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="cursor-pointer"
+          />
+          {fileName && (
+            <p className="text-xs text-muted-foreground mt-1">{fileName}: {dataRows.length} rows</p>
+          )}
+        </div>
+
+        {headers.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Match Columns</h4>
+            {IMPORT_FIELDS[target].map((field) => (
+              <div key={field.key} className="grid grid-cols-2 gap-2 items-center">
+                <Label htmlFor={`csv-map-${field.key}`} className="text-sm">
+                  {field.label}{field.required && ' *'}
+                </Label>
+                <Select
+                  value={String(mapping[field.key] ?? -1)}
+                  onValueChange={(value) => {
+                    setMapping({ ...mapping, [field.key]: parseInt(value) });
+                    setPreview(null);
+                  }}
+                >
+                  <SelectTrigger id={`csv-map-${field.key}`} className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="-1">Don't import</SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <Button variant="outline" className="w-full" disabled={working} onClick={handlePreview}>
+              Check File
+            </Button>
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className="border-green-500 text-green-600">
+                {preview.filter(row => row.errors.length === 0 && !row.duplicate).length} ready
+              </Badge>
+              {duplicateCount > 0 && (
+                <Badge variant="outline" className="border-yellow-500 text-yellow-600">{duplicateCount} duplicates</Badge>
+              )}
+              {errorCount > 0 && (
+                <Badge variant="outline" className="border-red-500 text-red-600">{errorCount} with errors</Badge>
+              )}
+            </div>
+
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {preview.map((row) => (
+                <div key={row.line} className="flex items-start gap-2 p-2 rounded bg-muted/50 text-sm">
+                  {row.errors.length > 0 ? (
+                    <AlertCircle className="w-4 h-4 text-red-500 mt-0.5 shrink-0" />
+                  ) : row.duplicate ? (
+                    <Copy className="w-4 h-4 text-yellow-500 mt-0.5 shrink-0" />
+                  ) : (
+                    <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="truncate">
+                      <span className="text-muted-foreground mr-2">Line {row.line}</span>
+                      {String(row.values.name || '')}
+                      {row.values.type && <span className="text-muted-foreground capitalize"> · {String(row.values.type).replace(/_/g, ' ')}</span>}
+                    </p>
+                    {row.duplicate && row.errors.length === 0 && (
+                      <p className="text-xs text-yellow-600">An item with this name already exists</p>
+                    )}
+                    {[...row.errors, ...row.warnings].map((message) => (
+                      <p key={message} className={`text-xs ${row.errors.includes(message) ? 'text-red-500' : 'text-muted-foreground'}`}>
+                        {message}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {duplicateCount > 0 && (
+              <div className="flex items-center space-x-2">
+                <Switch id="csv-include-duplicates" checked={includeDuplicates} onCheckedChange={setIncludeDuplicates} />
+                <Label htmlFor="csv-include-duplicates">Import duplicates too</Label>
+              </div>
+            )}
+
+            <Button className="w-full" disabled={working || importableRows.length === 0} onClick={handleImport}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import {importableRows.length} Row{importableRows.length === 1 ? '' : 's'}
+            </Button>
+          </div>
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+};
+
+export default EquipmentCsvTransfer;
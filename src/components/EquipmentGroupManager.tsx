@@ -0,0 +1,337 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Plus, Trash2, LogOut, Crown, User, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface GroupMember {
+  id: string;
+  user_id: string;
+  role: string;
+}
+
+interface EquipmentGroup {
+  id: string;
+  name: string;
+  band_id?: string;
+  members: GroupMember[];
+}
+
+interface SearchUser {
+  user_id: string;
+  username: string;
+  display_name: string;
+}
+
+interface EquipmentGroupManagerProps {
+  onChange: () => void;
+}
+
+const EquipmentGroupManager = ({ onChange }: EquipmentGroupManagerProps) => {
+  const navigate = useNavigate();
+  const [groups, setGroups] = useState<EquipmentGroup[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [newGroupName, setNewGroupName] = useState("");
+  const [memberSearch, setMemberSearch] = useState<Record<string, string>>({});
+  const [searchResults, setSearchResults] = useState<Record<string, SearchUser[]>>({});
+  const [followerIds, setFollowerIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchGroups();
+  }, []);
+
+  const fetchGroups = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setCurrentUserId(user.id);
+
+      // Only people who follow the user can be added to their groups
+      const { data: followers } = await supabase
+        .from('followers')
+        .select('follower_id')
+        .eq('following_id', user.id);
+
+      setFollowerIds((followers || []).map(follower => follower.follower_id));
+
+      const { data, error } = await supabase
+        .from('equipment_groups')
+        .select('id, name, band_id, members:equipment_group_members (id, user_id, role)')
+        .order('name');
+
+      if (error) throw error;
+      setGroups(data || []);
+
+      const memberIds = [...new Set((data || []).flatMap(group => group.members.map(member => member.user_id)))];
+      if (memberIds.length > 0) {
+        const { data: profiles } = await supabase
+          .rpc('get_public_profiles', { profile_user_ids: memberIds });
+
+        setNames(Object.fromEntries(
+          (profiles || []).map(profile => [profile.user_id, profile.display_name || profile.username])
+        ));
+      }
+    } catch (error) {
+      console.error('Error fetching equipment groups:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load groups",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleCreateGroup = async () => {
+    const name = newGroupName.trim();
+    if (!name || !currentUserId) return;
+
+    setSaving(true);
+    try {
+      // The creator is added as owner by the database
+      const { error } = await supabase
+        .from('equipment_groups')
+        .insert({ name, created_by: currentUserId });
+
+      if (error) throw error;
+      setNewGroupName("");
+      await fetchGroups();
+      onChange();
+    } catch (error) {
+      console.error('Error creating equipment group:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create group",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSearch = async (groupId: string, query: string) => {
+    setMemberSearch({ ...memberSearch, [groupId]: query });
+    if (!query.trim()) {
+      setSearchResults({ ...searchResults, [groupId]: [] });
+      return;
+    }
+
+    const { data, error } = await supabase
+      .rpc('search_public_profiles', {
+        search_query: query,
+        current_user_id: currentUserId
+      });
+
+    if (error) {
+      console.error('Error searching users:', error);
+      return;
+    }
+    setSearchResults({
+      ...searchResults,
+      [groupId]: (data || []).filter(profile => followerIds.includes(profile.user_id)).slice(0, 5)
+    });
+  };
+
+  const handleAddMember = async (groupId: string, userId: string) => {
+    try {
+      const { error } = await supabase
+        .from('equipment_group_members')
+        .insert({ group_id: groupId, user_id: userId, role: 'member' });
+
+      if (error) throw error;
+      setMemberSearch({ ...memberSearch, [groupId]: "" });
+      setSearchResults({ ...searchResults, [groupId]: [] });
+      fetchGroups();
+    } catch (error) {
+      console.error('Error adding group member:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add member. They need to follow you and not be in the group already.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRoleChange = async (member: GroupMember) => {
+    try {
+      const { error } = await supabase
+        .from('equipment_group_members')
+        .update({ role: member.role === 'owner' ? 'member' : 'owner' })
+        .eq('id', member.id);
+
+      if (error) throw error;
+      fetchGroups();
+    } catch (error) {
+      console.error('Error changing member role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to change role. A group needs at least one owner.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRemoveMember = async (member: GroupMember) => {
+    try {
+      const { error } = await supabase
+        .from('equipment_group_members')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+      await fetchGroups();
+      if (member.user_id === currentUserId) onChange();
+    } catch (error) {
+      console.error('Error removing group member:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove member. A group needs at least one owner.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteGroup = async (groupId: string) => {
+    try {
+      // Shared equipment stays with whoever added it
+      const { error } = await supabase
+        .from('equipment_groups')
+        .delete()
+        .eq('id', groupId);
+
+      if (error) throw error;
+      await fetchGroups();
+      onChange();
+    } catch (error) {
+      console.error('Error deleting equipment group:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete group",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Share equipment with your band or household. Everyone in a group can see and clean its equipment and gets its reminders; owners can edit or delete it.
+      </p>
+
+      <div className="flex gap-2">
+        <Input
+          value={newGroupName}
+          onChange={(e) => setNewGroupName(e.target.value)}
+          placeholder="e.g. The Rehearsal Room"
+        />
+        <Button type="button" disabled={saving || !newGroupName.trim()} onClick={handleCreateGroup}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {groups.map((group) => {
+        // A band's group follows its line-up, which is managed on the band page
+        if (group.band_id) {
+          return (
+            <div key={group.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <h4 className="font-semibold">{group.name}</h4>
+                <p className="text-xs text-muted-foreground">
+                  Band · {group.members.length} member{group.members.length === 1 ? '' : 's'}
+                </p>
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={() => navigate(`/band/${group.band_id}`)}>
+                Manage
+              </Button>
+            </div>
+          );
+        }
+
+        const isOwner = group.members.some(member => member.user_id === currentUserId && member.role === 'owner');
+        const ownMembership = group.members.find(member => member.user_id === currentUserId);
+
+        return (
+          <div key={group.id} className="space-y-3 p-3 border rounded-lg">
+            <div className="flex items-center justify-between">
+              <h4 className="font-semibold">{group.name}</h4>
+              <div className="flex gap-1">
+                {ownMembership && (
+                  <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={() => handleRemoveMember(ownMembership)}>
+                    <LogOut className="w-3 h-3 mr-1" />
+                    Leave
+                  </Button>
+                )}
+                {isOwner && (
+                  <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleDeleteGroup(group.id)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              {group.members.map((member) => (
+                <div key={member.id} className="flex items-center gap-2 p-2 rounded bg-muted/50">
+                  {member.role === 'owner' ? (
+                    <Crown className="w-4 h-4 text-yellow-500" />
+                  ) : (
+                    <User className="w-4 h-4 text-muted-foreground" />
+                  )}
+                  <span className="text-sm flex-1 truncate">
+                    {member.user_id === currentUserId ? 'You' : names[member.user_id] || 'Member'}
+                  </span>
+                  {isOwner ? (
+                    <Button type="button" variant="outline" size="sm" className="h-6 text-xs" onClick={() => handleRoleChange(member)}>
+                      {member.role === 'owner' ? 'Owner' : 'Member'}
+                    </Button>
+                  ) : (
+                    <Badge variant="outline" className="text-xs capitalize">{member.role}</Badge>
+                  )}
+                  {isOwner && member.user_id !== currentUserId && (
+                    <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleRemoveMember(member)}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {isOwner && (
+              <div className="space-y-1">
+                <Label htmlFor={`add-member-${group.id}`} className="text-xs">Add member</Label>
+                <Input
+                  id={`add-member-${group.id}`}
+                  value={memberSearch[group.id] || ""}
+                  onChange={(e) => handleSearch(group.id, e.target.value)}
+                  placeholder="Search your followers by username"
+                />
+                {(searchResults[group.id] || [])
+                  .filter(result => !group.members.some(member => member.user_id === result.user_id))
+                  .map((result) => (
+                    <button
+                      key={result.user_id}
+                      type="button"
+                      className="w-full flex items-center gap-2 p-2 rounded text-left text-sm hover:bg-muted"
+                      onClick={() => handleAddMember(group.id, result.user_id)}
+                    >
+                      <UserPlus className="w-4 h-4 text-primary" />
+                      {result.display_name || result.username}
+                      <span className="text-xs text-muted-foreground">@{result.username}</span>
+                    </button>
+                  ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EquipmentGroupManager;
@@ -0,0 +1,291 @@
+import { useState, useEffect } from "react";
+import { format, subMonths, startOfMonth } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { DollarSign, TrendingUp, Package } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface InsightsEquipment {
+  id: string;
+  name: string;
+}
+
+interface InsightsSupply {
+  id: string;
+  name: string;
+  cost_per_unit?: number;
+}
+
+interface InsightsCleaningLog {
+  id: string;
+  equipment_id: string;
+  cleaned_at: string;
+  supplies?: { cleaning_equipment_id: string; quantity_used: number }[];
+}
+
+interface RestockSpend {
+  cleaning_equipment_id: string;
+  restocked_at: string;
+  quantity: number;
+  unit_price?: number;
+}
+
+interface EquipmentInsightsProps {
+  equipment: InsightsEquipment[];
+  cleaningEquipment: InsightsSupply[];
+  cleaningLogs: InsightsCleaningLog[];
+}
+
+const spendChartConfig = {
+  spend: {
+    label: "Spend",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const costPerCleaningChartConfig = {
+  costPerCleaning: {
+    label: "Cost per cleaning",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const formatPrice = (amount: number) => `$${amount.toFixed(2)}`;
+
+const EquipmentInsights = ({ equipment, cleaningEquipment, cleaningLogs }: EquipmentInsightsProps) => {
+  const [restocks, setRestocks] = useState<RestockSpend[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRestocks();
+  }, [cleaningEquipment]);
+
+  const fetchRestocks = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('cleaning_equipment_restocks')
+        .select('cleaning_equipment_id, restocked_at, quantity, unit_price')
+        .eq('user_id', user.id)
+        .order('restocked_at');
+
+      if (error) throw error;
+      setRestocks(data || []);
+    } catch (error) {
+      console.error('Error fetching restocks:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch spending data",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const suppliesById = new Map(cleaningEquipment.map(supply => [supply.id, supply]));
+
+  // Restocks without a price fall back to the supply's current cost per unit
+  const getRestockCost = (restock: RestockSpend) => {
+    const unitPrice = restock.unit_price ?? suppliesById.get(restock.cleaning_equipment_id)?.cost_per_unit ?? 0;
+    return restock.quantity * Number(unitPrice);
+  };
+
+  // Average price actually paid per unit, or the listed cost when nothing was logged
+  const getUnitCost = (supplyId: string) => {
+    const supplyRestocks = restocks.filter(restock => restock.cleaning_equipment_id === supplyId);
+    const units = supplyRestocks.reduce((total, restock) => total + restock.quantity, 0);
+    if (units > 0) {
+      return supplyRestocks.reduce((total, restock) => total + getRestockCost(restock), 0) / units;
+    }
+    return Number(suppliesById.get(supplyId)?.cost_per_unit ?? 0);
+  };
+
+  const now = new Date();
+  const monthlySpend = Array.from({ length: 12 }, (_, index) => {
+    const month = startOfMonth(subMonths(now, 11 - index));
+    const key = format(month, 'yyyy-MM');
+    return {
+      month: format(month, 'MMM'),
+      spend: restocks
+        .filter(restock => format(new Date(restock.restocked_at), 'yyyy-MM') === key)
+        .reduce((total, restock) => total + getRestockCost(restock), 0),
+    };
+  });
+
+  const yearlySpend = Object.entries(
+    restocks.reduce<Record<string, number>>((totals, restock) => {
+      const year = format(new Date(restock.restocked_at), 'yyyy');
+      totals[year] = (totals[year] || 0) + getRestockCost(restock);
+      return totals;
+    }, {})
+  )
+    .map(([year, spend]) => ({ year, spend }))
+    .sort((a, b) => b.year.localeCompare(a.year));
+
+  const thisYearSpend = yearlySpend.find(entry => entry.year === format(now, 'yyyy'))?.spend || 0;
+  const last12MonthsSpend = monthlySpend.reduce((total, entry) => total + entry.spend, 0);
+
+  const costPerCleaning = equipment
+    .map(item => {
+      const logs = cleaningLogs.filter(log => log.equipment_id === item.id);
+      const supplyCost = logs.reduce((total, log) =>
+        total + (log.supplies || []).reduce((logTotal, supply) =>
+          logTotal + supply.quantity_used * getUnitCost(supply.cleaning_equipment_id), 0), 0);
+      return {
+        name: item.name,
+        cleanings: logs.length,
+        totalCost: supplyCost,
+        costPerCleaning: logs.length > 0 ? supplyCost / logs.length : 0,
+      };
+    })
+    .filter(entry => entry.cleanings > 0)
+    .sort((a, b) => b.costPerCleaning - a.costPerCleaning);
+
+  const supplySpend = cleaningEquipment
+    .map(supply => ({
+      name: supply.name,
+      spend: restocks
+        .filter(restock => restock.cleaning_equipment_id === supply.id)
+        .reduce((total, restock) => total + getRestockCost(restock), 0),
+      unitCost: getUnitCost(supply.id),
+    }))
+    .filter(entry => entry.spend > 0 || entry.unitCost > 0)
+    .sort((a, b) => b.spend - a.spend || b.unitCost - a.unitCost)
+    .slice(0, 5);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card className="bg-card/50 backdrop-blur-sm border-border/50">
+          <CardContent className="p-4 flex items-center gap-3">
+            <DollarSign className="w-8 h-8 text-primary" />
+            <div>
+              <p className="text-2xl font-bold">{formatPrice(thisYearSpend)}</p>
+              <p className="text-sm text-muted-foreground">Spent this year</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="bg-card/50 backdrop-blur-sm border-border/50">
+          <CardContent className="p-4 flex items-center gap-3">
+            <TrendingUp className="w-8 h-8 text-primary" />
+            <div>
+              <p className="text-2xl font-bold">{formatPrice(last12MonthsSpend / 12)}</p>
+              <p className="text-sm text-muted-foreground">Monthly average</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="bg-card/50 backdrop-blur-sm border-border/50">
+          <CardContent className="p-4 flex items-center gap-3">
+            <Package className="w-8 h-8 text-primary" />
+            <div>
+              <p className="text-2xl font-bold">{restocks.length}</p>
+              <p className="text-sm text-muted-foreground">Purchases logged</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-card/50 backdrop-blur-sm border-border/50">
+        <CardHeader>
+          <CardTitle>Monthly Spend</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {restocks.length > 0 ? (
+            <ChartContainer config={spendChartConfig} className="h-64 w-full aspect-auto">
+              <BarChart data={monthlySpend}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value) => `$${value}`} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatPrice(Number(value))} />} />
+                <Bar dataKey="spend" fill="var(--color-spend)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              Log restocks on your cleaning supplies to see spending over time
+            </p>
+          )}
+          {yearlySpend.length > 0 && (
+            <div className="mt-4 space-y-2">
+              {yearlySpend.map(entry => (
+                <div key={entry.year} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                  <span className="font-medium">{entry.year}</span>
+                  <span>{formatPrice(entry.spend)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card/50 backdrop-blur-sm border-border/50">
+        <CardHeader>
+          <CardTitle>Cost per Cleaning</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {costPerCleaning.some(entry => entry.totalCost > 0) ? (
+            <>
+              <ChartContainer config={costPerCleaningChartConfig} className="h-64 w-full aspect-auto">
+                <BarChart data={costPerCleaning} layout="vertical" margin={{ left: 16 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(value) => `$${value}`} />
+                  <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={96} />
+                  <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatPrice(Number(value))} />} />
+                  <Bar dataKey="costPerCleaning" fill="var(--color-costPerCleaning)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+              <div className="mt-4 space-y-2">
+                {costPerCleaning.map(entry => (
+                  <div key={entry.name} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                    <div>
+                      <p className="font-medium">{entry.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {entry.cleanings} cleaning{entry.cleanings === 1 ? '' : 's'} · {formatPrice(entry.totalCost)} total
+                      </p>
+                    </div>
+                    <span className="font-medium">{formatPrice(entry.costPerCleaning)}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              Record the supplies you use when logging cleanings to see what each instrument costs to maintain
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card/50 backdrop-blur-sm border-border/50">
+        <CardHeader>
+          <CardTitle>Most Expensive Supplies</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {supplySpend.length > 0 ? (
+            <div className="space-y-2">
+              {supplySpend.map((entry, index) => (
+                <div key={entry.name} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm text-muted-foreground w-4">{index + 1}</span>
+                    <div>
+                      <p className="font-medium">{entry.name}</p>
+                      <p className="text-sm text-muted-foreground">{formatPrice(entry.unitCost)} per unit</p>
+                    </div>
+                  </div>
+                  <span className="font-medium">{formatPrice(entry.spend)}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-8">No supply costs recorded yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default EquipmentInsights;
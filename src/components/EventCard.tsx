@@ -1,11 +1,13 @@
 import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Heart, MessageCircle, Calendar, MapPin, Users, UserCheck } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Heart, MessageCircle, Calendar, MapPin, Users, UserCheck, Package } from "lucide-react";
 import { format } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import EventCommentsSection from "./EventCommentsSection";
+import EventPackingList from "./EventPackingList";
 
 interface Event {
   id: string;
@@ -26,6 +28,7 @@ interface Event {
   is_liked?: boolean;
   is_going?: boolean;
   going_count?: number;
+  packing_list_shared?: boolean;
 }
 
 interface EventCardProps {
@@ -42,6 +45,7 @@ const EventCard = ({ event, onEventUpdate, highlightComment, highlightReply, id
   const [isGoing, setIsGoing] = useState(event.is_going || false);
   const [goingCount, setGoingCount] = useState(event.going_count || 0);
   const [showComments, setShowComments] = useState(false);
+  const [showPackingList, setShowPackingList] = useState(false);
   const { toast } = useToast();
 
   const handleLike = async () => {
@@ -206,6 +210,18 @@ const EventCard = ({ event, onEventUpdate, highlightComment, highlightReply, id
             <span className="text-sm">Comment</span>
           </Button>
 
+          {isGoing && event.packing_list_shared && (
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className="gap-2 p-0 h-auto text-foreground hover:text-accent transition-colors"
+              onClick={() => setShowPackingList(true)}
+            >
+              <Package className="w-5 h-5" />
+              <span className="text-sm">Packing</span>
+            </Button>
+          )}
+
           <Button 
             variant={isGoing ? "default" : "outline"}
             size="sm" 
@@ -217,6 +233,20 @@ const EventCard = ({ event, onEventUpdate, highlightComment, highlightReply, id
           </Button>
         </div>
 
+        {/* Shared Packing List */}
+        <Dialog open={showPackingList} onOpenChange={setShowPackingList}>
+          <DialogContent className="sm:max-w-md max-h-[90vh] flex flex-col">
+            <DialogHeader className="flex-shrink-0">
+              <DialogTitle>Packing List: {event.title}</DialogTitle>
+            </DialogHeader>
+            <div className="overflow-y-auto flex-1 min-h-0 p-1">
+              {showPackingList && (
+                <EventPackingList eventId={event.id} isOwner={false} shared />
+              )}
+            </div>
+          </DialogContent>
+        </Dialog>
+
         {/* Comments Section */}
         {showComments && (
           <EventCommentsSection 
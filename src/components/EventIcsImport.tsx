@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { format, addDays, startOfDay } from "date-fns";
+import { CheckCircle, Copy, Lock, RefreshCw, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { parseIcs } from "@/lib/ical";
+import { EventImportRow, ExistingEvent, previewEventImport } from "@/lib/eventImport";
+import { BandMembership } from "@/lib/bands";
+
+interface EventIcsImportProps {
+  events: ExistingEvent[];
+  bands: BandMembership[];
+  eventTypeIcons: Record<string, string>;
+  canEditEvent: (eventId: string) => boolean;
+  onImported: () => void;
+}
+
+// Recurring events are expanded up to a year ahead, like the calendar itself
+const IMPORT_HORIZON_DAYS = 365;
+
+const statusLabels = {
+  new: "New",
+  update: "Update",
+  unchanged: "Already imported",
+  duplicate: "Repeated in file",
+  locked: "Band event you can't edit"
+};
+
+const EventIcsImport = ({ events, bands, eventTypeIcons, canEditEvent, onImported }: EventIcsImportProps) => {
+  const [fileName, setFileName] = useState("");
+  const [fileText, setFileText] = useState("");
+  const [includePast, setIncludePast] = useState(false);
+  const [bandId, setBandId] = useState("");
+  const [preview, setPreview] = useState<EventImportRow[] | null>(null);
+  const [typeOverrides, setTypeOverrides] = useState<Record<string, string>>({});
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+
+  const buildPreview = (text: string, withPast: boolean) => {
+    const today = startOfDay(new Date());
+    const parsed = parseIcs(text, withPast ? new Date(0) : today, addDays(today, IMPORT_HORIZON_DAYS));
+    setPreview(previewEventImport(parsed, events, Object.keys(eventTypeIcons), canEditEvent));
+    setTypeOverrides({});
+    setSkipped([]);
+    return parsed.length;
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      if (!/BEGIN:VCALENDAR|BEGIN:VEVENT/i.test(text)) {
+        toast({
+          title: "Error",
+          description: "This doesn't look like an .ics calendar file",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setFileName(file.name);
+      setFileText(text);
+      if (buildPreview(text, includePast) === 0) {
+        toast({
+          title: "No Events Found",
+          description: includePast ? "The file has no events" : "The file has no upcoming events",
+        });
+      }
+    } catch (error) {
+      console.error('Error reading calendar file:', error);
+      toast({
+        title: "Error",
+        description: "Failed to read calendar file",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleIncludePastChange = (checked: boolean) => {
+    setIncludePast(checked);
+    if (!fileText) return;
+
+    try {
+      buildPreview(fileText, checked);
+    } catch (error) {
+      console.error('Error reading calendar file:', error);
+      toast({
+        title: "Error",
+        description: "Failed to read calendar file",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const toggleRow = (uid: string, checked: boolean) => {
+    setSkipped(checked ? skipped.filter(item => item !== uid) : [...skipped, uid]);
+  };
+
+  const importableRows = (preview || []).filter(row =>
+    (row.status === "new" || row.status === "update") && !skipped.includes(row.event.uid)
+  );
+
+  const handleImport = async () => {
+    if (importableRows.length === 0) return;
+
+    setWorking(true);
+    // Rows are written one request at a time, so a failure can leave some applied
+    let applied = 0;
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const newRows = importableRows.filter(row => row.status === "new");
+      const updatedRows = importableRows.filter(row => row.status === "update");
+
+      if (newRows.length > 0) {
+        const { error } = await supabase
+          .from('events')
+          .insert(newRows.map(({ event, eventType }) => ({
+            user_id: user.id,
+            band_id: bandId || null,
+            title: event.title,
+            description: event.description || null,
+            location: event.location || null,
+            start_date: event.start_date,
+            end_date: event.end_date || null,
+            event_type: typeOverrides[event.uid] || eventType,
+            ical_uid: event.uid
+          })));
+
+        if (error) throw error;
+        applied += newRows.length;
+      }
+
+      // Re-imports refresh the details but keep the type and band chosen here
+      for (const { event, existingId } of updatedRows) {
+        const { error } = await supabase
+          .from('events')
+          .update({
+            title: event.title,
+            description: event.description || null,
+            location: event.location || null,
+            start_date: event.start_date,
+            end_date: event.end_date || null
+          })
+          .eq('id', existingId);
+
+        if (error) throw error;
+        applied++;
+      }
+
+      toast({
+        title: "Import Complete",
+        description: [
+          newRows.length > 0 && `Added ${newRows.length} event${newRows.length === 1 ? '' : 's'}`,
+          updatedRows.length > 0 && `updated ${updatedRows.length}`
+        ].filter(Boolean).join(', ')
+      });
+
+      setFileName("");
+      setFileText("");
+      setPreview(null);
+      onImported();
+    } catch (error) {
+      console.error('Error importing events:', error);
+      toast({
+        title: "Error",
+        description: applied > 0
+          ? `Imported ${applied} of ${importableRows.length} events before failing. Import the file again to finish.`
+          : "Failed to import events",
+        variant: "destructive"
+      });
+
+      if (applied > 0) {
+        setFileName("");
+        setFileText("");
+        setPreview(null);
+        onImported();
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const countByStatus = (status: EventImportRow["status"]) => (preview || []).filter(row => row.status === status).length;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Export an .ics file from Google Calendar, Apple Calendar or Outlook. Importing the same
+        calendar again updates events you imported before instead of adding copies.
+      </p>
+
+      <div>
+        <Label htmlFor="ics-import-file">Calendar File</Label>
+        <Input
+          id="ics-import-file"
+          type="file"
+          accept=".ics,text/calendar"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="cursor-pointer"
+        />
+        {fileName && preview && (
+          <p className="text-xs text-muted-foreground mt-1">{fileName}: {preview.length} events</p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch id="ics-include-past" checked={includePast} onCheckedChange={handleIncludePastChange} />
+        <Label htmlFor="ics-include-past">Include past events</Label>
+      </div>
+
+      {bands.length > 0 && (
+        <div>
+          <Label htmlFor="ics-import-band">Add New Events To</Label>
+          <Select value={bandId || "none"} onValueChange={(value) => setBandId(value === "none" ? '' : value)}>
+            <SelectTrigger id="ics-import-band">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Just me</SelectItem>
+              {bands.map((band) => (
+                <SelectItem key={band.band_id} value={band.band_id}>{band.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {preview && preview.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline" className="border-green-500 text-green-600">{countByStatus("new")} new</Badge>
+            {countByStatus("update") > 0 && (
+              <Badge variant="outline" className="border-blue-500 text-blue-600">{countByStatus("update")} updated</Badge>
+            )}
+            {countByStatus("unchanged") + countByStatus("duplicate") > 0 && (
+              <Badge variant="outline" className="border-yellow-500 text-yellow-600">
+                {countByStatus("unchanged") + countByStatus("duplicate")} duplicates
+              </Badge>
+            )}
+          </div>
+
+          <div className="max-h-72 overflow-y-auto space-y-1">
+            {preview.map((row, index) => {
+              const importable = row.status === "new" || row.status === "update";
+              return (
+                <div key={`${row.event.uid}-${index}`} className="flex items-start gap-2 p-2 rounded bg-muted/50 text-sm">
+                  {importable ? (
+                    <Checkbox
+                      checked={!skipped.includes(row.event.uid)}
+                      onCheckedChange={(checked) => toggleRow(row.event.uid, checked === true)}
+                      className="mt-0.5"
+                    />
+                  ) : row.status === "locked" ? (
+                    <Lock className="w-4 h-4 text-muted-foreground mt-0.5 shrink-0" />
+                  ) : row.status === "duplicate" ? (
+                    <Copy className="w-4 h-4 text-yellow-500 mt-0.5 shrink-0" />
+                  ) : (
+                    <CheckCircle className="w-4 h-4 text-green-500 mt-0.5 shrink-0" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium">
+                      {eventTypeIcons[typeOverrides[row.event.uid] || row.eventType]} {row.event.title}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(row.event.start_date), row.event.allDay ? 'EEE, MMM d, yyyy' : 'EEE, MMM d, yyyy HH:mm')}
+                      {row.event.location && ` · ${row.event.location}`}
+                      {row.event.recurring && ' · repeats'}
+                    </p>
+                    <p className={`text-xs ${row.status === "update" ? 'text-blue-600' : 'text-muted-foreground'}`}>
+                      {row.status === "update" && <RefreshCw className="w-3 h-3 inline mr-1" />}
+                      {statusLabels[row.status]}
+                      {row.changes.length > 0 && `: ${row.changes.join(', ')} changed`}
+                    </p>
+                  </div>
+                  {row.status === "new" && (
+                    <Select
+                      value={typeOverrides[row.event.uid] || row.eventType}
+                      onValueChange={(value) => setTypeOverrides({ ...typeOverrides, [row.event.uid]: value })}
+                    >
+                      <SelectTrigger className="h-8 w-28 shrink-0">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(eventTypeIcons).map(([type, icon]) => (
+                          <SelectItem key={type} value={type}>
+                            {icon} <span className="capitalize">{type}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <Button className="w-full" disabled={working || importableRows.length === 0} onClick={handleImport}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import {importableRows.length} Event{importableRows.length === 1 ? '' : 's'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventIcsImport;
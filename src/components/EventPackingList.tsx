@@ -0,0 +1,383 @@
+import { useState, useEffect } from "react";
+import { CheckCircle, Circle, Plus, Trash2, Package, Hand } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useEquipmentTypes } from "@/hooks/useEquipmentTypes";
+import { buildPackingList } from "@/lib/packingList";
+
+interface PackingItem {
+  id: string;
+  event_id: string;
+  user_id: string;
+  name: string;
+  category: string;
+  quantity: number;
+  position: number;
+  packed: boolean;
+  assigned_to?: string;
+}
+
+interface OwnedItem {
+  id: string;
+  name: string;
+  type: string;
+}
+
+interface EventPackingListProps {
+  eventId: string;
+  isOwner: boolean;
+  shared: boolean;
+  defaultEquipmentIds?: string[];
+  onSharedChange?: (shared: boolean) => void;
+}
+
+const categoryLabels: Record<string, string> = {
+  instrument: "Instruments",
+  supply: "Cleaning Supplies",
+  other: "Other"
+};
+
+const EventPackingList = ({ eventId, isOwner, shared, defaultEquipmentIds = [], onSharedChange }: EventPackingListProps) => {
+  const [items, setItems] = useState<PackingItem[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [instruments, setInstruments] = useState<OwnedItem[]>([]);
+  const [supplies, setSupplies] = useState<OwnedItem[]>([]);
+  const [selectedInstrumentIds, setSelectedInstrumentIds] = useState<string[]>(defaultEquipmentIds);
+  const [newItemName, setNewItemName] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { equipmentTypes } = useEquipmentTypes();
+
+  useEffect(() => {
+    fetchItems();
+    if (isOwner) fetchOwnedItems();
+  }, [eventId]);
+
+  const fetchItems = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setCurrentUserId(user?.id || null);
+
+      const { data, error } = await supabase
+        .from('event_packing_items')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('position');
+
+      if (error) throw error;
+      setItems(data || []);
+
+      const assigneeIds = [...new Set((data || []).map(item => item.assigned_to).filter(Boolean))] as string[];
+      if (assigneeIds.length > 0) {
+        const { data: profiles } = await supabase
+          .rpc('get_public_profiles', { profile_user_ids: assigneeIds });
+
+        setNames(Object.fromEntries(
+          (profiles || []).map(profile => [profile.user_id, profile.display_name || profile.username])
+        ));
+      }
+    } catch (error) {
+      console.error('Error fetching packing list:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load packing list",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchOwnedItems = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const [{ data: equipmentData }, { data: supplyData }] = await Promise.all([
+        supabase.from('equipment').select('id, name, type').eq('user_id', user.id).order('name'),
+        supabase.from('cleaning_equipment').select('id, name, type').eq('user_id', user.id).order('name')
+      ]);
+
+      setInstruments(equipmentData || []);
+      setSupplies(supplyData || []);
+    } catch (error) {
+      console.error('Error fetching equipment for packing list:', error);
+    }
+  };
+
+  const handleGenerate = async () => {
+    const picked = instruments.filter(item => selectedInstrumentIds.includes(item.id));
+    if (picked.length === 0) return;
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const startPosition = items.length > 0 ? items[items.length - 1].position + 1 : 0;
+      const { error } = await supabase
+        .from('event_packing_items')
+        .insert(buildPackingList(picked, supplies, equipmentTypes).map((item, index) => ({
+          ...item,
+          event_id: eventId,
+          user_id: user.id,
+          position: startPosition + index
+        })));
+
+      if (error) throw error;
+      fetchItems();
+    } catch (error) {
+      console.error('Error generating packing list:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate packing list",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddItem = async () => {
+    const name = newItemName.trim();
+    if (!name || !currentUserId) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('event_packing_items')
+        .insert({
+          event_id: eventId,
+          user_id: currentUserId,
+          name,
+          category: 'other',
+          position: items.length > 0 ? items[items.length - 1].position + 1 : 0
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setItems([...items, data]);
+      setNewItemName("");
+    } catch (error) {
+      console.error('Error adding packing item:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add item",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateItem = async (item: PackingItem, changes: Partial<PackingItem>) => {
+    // Optimistic so ticking through a list feels instant
+    setItems(items.map(existing => existing.id === item.id ? { ...existing, ...changes } : existing));
+
+    const { error } = await supabase
+      .from('event_packing_items')
+      .update(changes)
+      .eq('id', item.id);
+
+    if (error) {
+      console.error('Error updating packing item:', error);
+      setItems(items);
+      toast({
+        title: "Error",
+        description: "Failed to update item",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleClaim = (item: PackingItem) => {
+    if (!currentUserId) return;
+    updateItem(item, { assigned_to: item.assigned_to === currentUserId ? null : currentUserId });
+  };
+
+  const handleDeleteItem = async (itemId: string) => {
+    try {
+      const { error } = await supabase
+        .from('event_packing_items')
+        .delete()
+        .eq('id', itemId);
+
+      if (error) throw error;
+      setItems(items.filter(item => item.id !== itemId));
+    } catch (error) {
+      console.error('Error deleting packing item:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete item",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleShareChange = async (checked: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('events')
+        .update({ packing_list_shared: checked })
+        .eq('id', eventId);
+
+      if (error) throw error;
+      onSharedChange?.(checked);
+    } catch (error) {
+      console.error('Error sharing packing list:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update sharing",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground text-center py-4">Loading packing list...</p>;
+  }
+
+  const packedCount = items.filter(item => item.packed).length;
+
+  return (
+    <div className="space-y-4">
+      {isOwner && (
+        <div className="flex items-center space-x-2">
+          <Switch id="share-packing-list" checked={shared} onCheckedChange={handleShareChange} />
+          <Label htmlFor="share-packing-list" className="text-sm">
+            Share with people going
+          </Label>
+        </div>
+      )}
+
+      {isOwner && items.length === 0 && (
+        <div className="space-y-3">
+          <Label>What are you bringing?</Label>
+          {instruments.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {instruments.map((item) => {
+                const isSelected = selectedInstrumentIds.includes(item.id);
+                return (
+                  <Button
+                    key={item.id}
+                    type="button"
+                    variant={isSelected ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setSelectedInstrumentIds(isSelected
+                      ? selectedInstrumentIds.filter(id => id !== item.id)
+                      : [...selectedInstrumentIds, item.id])}
+                  >
+                    {item.name}
+                  </Button>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Add equipment first to build a packing list</p>
+          )}
+          <Button
+            type="button"
+            className="w-full"
+            disabled={saving || selectedInstrumentIds.length === 0}
+            onClick={handleGenerate}
+          >
+            <Package className="w-4 h-4 mr-2" />
+            Generate Packing List
+          </Button>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <>
+          <p className="text-sm text-muted-foreground">{packedCount}/{items.length} packed</p>
+          {['instrument', 'supply', 'other'].map((category) => {
+            const categoryItems = items.filter(item => item.category === category);
+            if (categoryItems.length === 0) return null;
+
+            return (
+              <div key={category} className="space-y-2">
+                <h4 className="font-medium text-sm text-muted-foreground">{categoryLabels[category]}</h4>
+                {categoryItems.map((item) => (
+                  <div key={item.id} className="flex items-center gap-2 p-2 rounded-lg bg-muted/50">
+                    <button type="button" onClick={() => updateItem(item, { packed: !item.packed })}>
+                      {item.packed ? (
+                        <CheckCircle className="w-5 h-5 text-green-500" />
+                      ) : (
+                        <Circle className="w-5 h-5 text-muted-foreground" />
+                      )}
+                    </button>
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm truncate ${item.packed ? 'line-through text-muted-foreground' : ''}`}>
+                        {item.name}{item.quantity > 1 && ` ×${item.quantity}`}
+                      </p>
+                      {item.assigned_to && (
+                        <p className="text-xs text-muted-foreground">
+                          Brought by {item.assigned_to === currentUserId ? 'you' : names[item.assigned_to] || 'a bandmate'}
+                        </p>
+                      )}
+                    </div>
+                    <Button
+                      type="button"
+                      variant={item.assigned_to === currentUserId ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={!!item.assigned_to && item.assigned_to !== currentUserId}
+                      onClick={() => handleClaim(item)}
+                    >
+                      <Hand className="w-3 h-3 mr-1" />
+                      {item.assigned_to === currentUserId ? "Mine" : "I'll bring"}
+                    </Button>
+                    {(isOwner || item.user_id === currentUserId) && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => handleDeleteItem(item.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </>
+      )}
+
+      {(items.length > 0 || !isOwner) && (
+        <div className="flex gap-2">
+          <Input
+            value={newItemName}
+            onChange={(e) => setNewItemName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAddItem();
+              }
+            }}
+            placeholder="e.g. Spare cables"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            disabled={saving || !newItemName.trim()}
+            onClick={handleAddItem}
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventPackingList;
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Lightbulb } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { FrequencySuggestionResult } from "@/lib/cleaningFrequency";
+
+interface FrequencySuggestionProps {
+  equipmentId: string;
+  currentFrequency: number;
+  suggestion: FrequencySuggestionResult;
+  onAccept: (equipment: { id: string; cleaning_frequency_days: number; next_cleaning_due?: string }) => void;
+}
+
+const FrequencySuggestion = ({ equipmentId, currentFrequency, suggestion, onAccept }: FrequencySuggestionProps) => {
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleAccept = async () => {
+    setSaving(true);
+    try {
+      // next_cleaning_due is recomputed from last_cleaned_at by the equipment trigger
+      const { data, error } = await supabase
+        .from('equipment')
+        .update({ cleaning_frequency_days: suggestion.suggestedDays })
+        .eq('id', equipmentId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      onAccept(data);
+      toast({
+        title: "Frequency Updated",
+        description: `Now cleaning every ${suggestion.suggestedDays} days`
+      });
+    } catch (error) {
+      console.error('Error updating cleaning frequency:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update cleaning frequency",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isLonger = suggestion.suggestedDays > currentFrequency;
+
+  return (
+    <div className="p-4 rounded-lg border border-primary/30 bg-primary/5 space-y-3">
+      <div className="flex items-start gap-3">
+        <Lightbulb className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+        <div className="space-y-1">
+          <p className="font-medium">Try every {suggestion.suggestedDays} days</p>
+          <p className="text-sm text-muted-foreground">
+            You've cleaned this about every {Math.round(suggestion.averageInterval)} days
+            {isLonger
+              ? `, and ${suggestion.overdueCount} of your last ${suggestion.intervalCount} cleanings were late`
+              : `, always ahead of your ${currentFrequency}-day schedule`}
+            {isLonger && suggestion.streakResets > 0 && ` (${suggestion.streakResets} streak reset${suggestion.streakResets === 1 ? '' : 's'})`}.
+          </p>
+        </div>
+      </div>
+      <Button size="sm" className="w-full" disabled={saving} onClick={handleAccept}>
+        Use {suggestion.suggestedDays}-day frequency
+      </Button>
+    </div>
+  );
+};
+
+export default FrequencySuggestion;
@@ -0,0 +1,179 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Users, Flame, Sparkles, Clock, User } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useEquipmentTypes } from "@/hooks/useEquipmentTypes";
+
+interface LeaderboardEntry {
+  rank_position: number;
+  user_id: string;
+  username: string;
+  display_name: string;
+  avatar_url: string;
+  score: number;
+  equipment_name?: string;
+  total_entries: number;
+}
+
+interface LeaderboardProps {
+  userId: string;
+  limit?: number;
+}
+
+const metrics = {
+  best_streak: { label: "Best Streak", icon: Flame, format: (score: number) => `${score}` },
+  current_streak: { label: "Current Streak", icon: Flame, format: (score: number) => `${score}` },
+  cleanings: { label: "Cleanings", icon: Sparkles, format: (score: number) => `${score}` },
+  on_time_rate: { label: "On-Time Rate", icon: Clock, format: (score: number) => `${Number(score).toFixed(0)}%` }
+};
+
+const Leaderboard = ({ userId, limit = 5 }: LeaderboardProps) => {
+  const navigate = useNavigate();
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [metric, setMetric] = useState<keyof typeof metrics>("best_streak");
+  const [timeWindow, setTimeWindow] = useState("all");
+  const [scope, setScope] = useState("global");
+  const [equipmentType, setEquipmentType] = useState("all");
+  const { equipmentTypes } = useEquipmentTypes();
+
+  useEffect(() => {
+    if (userId) fetchLeaderboard();
+  }, [userId, metric, timeWindow, scope, equipmentType]);
+
+  const fetchLeaderboard = async () => {
+    const { data, error } = await supabase
+      .rpc('get_leaderboard', {
+        p_user_id: userId,
+        p_metric: metric,
+        p_window: timeWindow,
+        p_scope: scope,
+        p_equipment_type: equipmentType === "all" ? null : equipmentType,
+        p_limit: limit
+      });
+
+    if (error) {
+      console.error('Error fetching leaderboard:', error);
+      return;
+    }
+    setEntries(data || []);
+  };
+
+  const MetricIcon = metrics[metric].icon;
+
+  const renderEntry = (entry: LeaderboardEntry) => {
+    const isMe = entry.user_id === userId;
+
+    return (
+      <div
+        key={entry.user_id}
+        className={`flex items-center gap-3 p-2 rounded-lg cursor-pointer transition-colors ${
+          isMe ? 'bg-accent/20 hover:bg-accent/25' : 'bg-accent/5 hover:bg-accent/10'
+        }`}
+        onClick={() => navigate(`/profile/${entry.user_id}`)}
+      >
+        <div className="flex items-center gap-2 min-w-0 flex-1">
+          <span className="text-sm font-bold text-muted-foreground min-w-[1.5rem]">
+            #{entry.rank_position}
+          </span>
+          <Avatar className="w-8 h-8">
+            <AvatarImage src={entry.avatar_url} />
+            <AvatarFallback>
+              <User className="w-4 h-4" />
+            </AvatarFallback>
+          </Avatar>
+          <div className="min-w-0 flex-1">
+            <p className="font-semibold text-sm truncate">
+              {isMe ? 'You' : entry.display_name || entry.username}
+            </p>
+            {entry.equipment_name && (
+              <p className="text-xs text-muted-foreground truncate">{entry.equipment_name}</p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <MetricIcon className="w-4 h-4 text-orange-500" />
+          <span className="font-bold">{metrics[metric].format(entry.score)}</span>
+        </div>
+      </div>
+    );
+  };
+
+  const topEntries = entries.slice(0, limit);
+  const ownEntry = entries.slice(limit).find(entry => entry.user_id === userId);
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Users className="w-5 h-5 text-blue-500" />
+          Leaderboard
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={metric} onValueChange={(value) => setMetric(value as keyof typeof metrics)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(metrics).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={timeWindow} onValueChange={setTimeWindow}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="week">This Week</SelectItem>
+              <SelectItem value="month">This Month</SelectItem>
+              <SelectItem value="all">All Time</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={equipmentType} onValueChange={setEquipmentType}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Instruments</SelectItem>
+              {equipmentTypes.map((type) => (
+                <SelectItem key={type.id} value={type.id}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="global">Everyone</SelectItem>
+              <SelectItem value="following">People I Follow</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {topEntries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Nobody on this board yet</p>
+        ) : (
+          <>
+            {topEntries.map(renderEntry)}
+            {ownEntry && (
+              <>
+                <p className="text-center text-xs text-muted-foreground">
+                  ⋯ {ownEntry.total_entries} on this board
+                </p>
+                {renderEntry(ownEntry)}
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Leaderboard;
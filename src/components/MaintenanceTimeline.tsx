@@ -0,0 +1,297 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Plus, Trash2, Sparkles, Music, Wrench, SlidersHorizontal, Search, Paperclip, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { uploadEquipmentPhoto } from "@/lib/storage";
+
+interface TimelineEntry {
+  id: string;
+  kind: string;
+  performed_at: string;
+  cost?: number;
+  performed_by?: string;
+  notes?: string;
+  attachment_urls: string[];
+  is_partial: boolean;
+  source: string;
+}
+
+interface MaintenanceTimelineProps {
+  equipmentId: string;
+}
+
+const maintenanceKinds = {
+  cleaning: { label: "Cleaning", icon: Sparkles },
+  string_change: { label: "String Change", icon: Music },
+  repair: { label: "Repair", icon: Wrench },
+  setup: { label: "Setup", icon: SlidersHorizontal },
+  inspection: { label: "Inspection", icon: Search }
+};
+
+const emptyForm = () => ({
+  kind: "string_change",
+  performed_at: new Date().toISOString().slice(0, 10),
+  cost: 0,
+  performed_by: "",
+  notes: ""
+});
+
+const isImageUrl = (url: string) => /\.(png|jpe?g|gif|webp|heic)$/i.test(url);
+
+const MaintenanceTimeline = ({ equipmentId }: MaintenanceTimelineProps) => {
+  const [entries, setEntries] = useState<TimelineEntry[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+  const [files, setFiles] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchEntries();
+  }, [equipmentId]);
+
+  const fetchEntries = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('equipment_maintenance_timeline')
+        .select('*')
+        .eq('equipment_id', equipmentId)
+        .order('performed_at', { ascending: false });
+
+      if (error) throw error;
+      setEntries((data || []) as TimelineEntry[]);
+    } catch (error) {
+      console.error('Error fetching maintenance history:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch maintenance history",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const attachmentUrls = await Promise.all(files.map(file => uploadEquipmentPhoto(file, `${user.id}/maintenance/${equipmentId}`)));
+
+      const { error } = await supabase
+        .from('maintenance_logs')
+        .insert({
+          equipment_id: equipmentId,
+          user_id: user.id,
+          kind: formData.kind,
+          // Store at midday so the date survives timezone conversion
+          performed_at: new Date(`${formData.performed_at}T12:00:00`).toISOString(),
+          cost: formData.cost || null,
+          performed_by: formData.performed_by.trim() || null,
+          notes: formData.notes.trim() || null,
+          attachment_urls: attachmentUrls
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${maintenanceKinds[formData.kind as keyof typeof maintenanceKinds].label} logged`
+      });
+      setShowForm(false);
+      setFormData(emptyForm());
+      setFiles([]);
+      fetchEntries();
+    } catch (error) {
+      console.error('Error logging maintenance:', error);
+      toast({
+        title: "Error",
+        description: "Failed to log maintenance",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entryId: string) => {
+    try {
+      const { error } = await supabase
+        .from('maintenance_logs')
+        .delete()
+        .eq('id', entryId);
+
+      if (error) throw error;
+      setEntries(entries.filter(entry => entry.id !== entryId));
+    } catch (error) {
+      console.error('Error deleting maintenance log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete entry",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const totalCost = entries.reduce((total, entry) => total + Number(entry.cost || 0), 0);
+
+  return (
+    <div className="space-y-3">
+      {totalCost > 0 && (
+        <p className="text-sm text-muted-foreground">Total spent on maintenance: ${totalCost.toFixed(2)}</p>
+      )}
+
+      {showForm ? (
+        <div className="space-y-3 p-3 border rounded-lg">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="maintenance-kind">Type</Label>
+              <Select value={formData.kind} onValueChange={(value) => setFormData({ ...formData, kind: value })}>
+                <SelectTrigger id="maintenance-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="string_change">String Change</SelectItem>
+                  <SelectItem value="repair">Repair</SelectItem>
+                  <SelectItem value="setup">Setup</SelectItem>
+                  <SelectItem value="inspection">Inspection</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="maintenance-date">Date</Label>
+              <Input
+                id="maintenance-date"
+                type="date"
+                value={formData.performed_at}
+                onChange={(e) => setFormData({ ...formData, performed_at: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="maintenance-cost">Cost ($)</Label>
+              <Input
+                id="maintenance-cost"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.cost}
+                onChange={(e) => setFormData({ ...formData, cost: parseFloat(e.target.value) })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="maintenance-performed-by">Done By</Label>
+              <Input
+                id="maintenance-performed-by"
+                value={formData.performed_by}
+                onChange={(e) => setFormData({ ...formData, performed_by: e.target.value })}
+                placeholder="Myself"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="maintenance-notes">Notes (optional)</Label>
+            <Textarea
+              id="maintenance-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              placeholder="e.g. D'Addario 10-46, lowered action"
+              rows={2}
+            />
+          </div>
+          <div>
+            <Label htmlFor="maintenance-attachments">Attachments (optional)</Label>
+            <Input
+              id="maintenance-attachments"
+              type="file"
+              accept="image/*,application/pdf"
+              multiple
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+            />
+            {files.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">{files.length} file{files.length === 1 ? '' : 's'} selected</p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button type="button" className="flex-1" disabled={saving || !formData.performed_at} onClick={handleSave}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button type="button" variant="outline" className="w-full" onClick={() => setShowForm(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Log Maintenance
+        </Button>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No maintenance history yet</p>
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry) => {
+            const kind = maintenanceKinds[entry.kind as keyof typeof maintenanceKinds] || maintenanceKinds.inspection;
+            const KindIcon = entry.is_partial ? AlertCircle : kind.icon;
+
+            return (
+              <div key={`${entry.source}-${entry.id}`} className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
+                <KindIcon className={`w-5 h-5 mt-0.5 flex-shrink-0 ${entry.is_partial ? 'text-yellow-500' : 'text-primary'}`} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-medium">
+                      {kind.label}
+                      {entry.is_partial && <span className="text-xs text-yellow-600 ml-2">Partial</span>}
+                    </p>
+                    {entry.cost != null && <span className="text-sm">${Number(entry.cost).toFixed(2)}</span>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {format(new Date(entry.performed_at), 'MMM dd, yyyy')}
+                    {entry.source === 'maintenance_logs' && ` · ${entry.performed_by || 'Myself'}`}
+                  </p>
+                  {entry.notes && <p className="text-sm text-muted-foreground mt-1">{entry.notes}</p>}
+                  {entry.attachment_urls.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {entry.attachment_urls.map((url) => (
+                        <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                          {isImageUrl(url) ? (
+                            <img src={url} alt="Attachment" className="w-12 h-12 rounded object-cover border border-border/50" />
+                          ) : (
+                            <span className="flex items-center gap-1 text-xs text-primary underline">
+                              <Paperclip className="w-3 h-3" />
+                              {url.split('/').pop()}
+                            </span>
+                          )}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {entry.source === 'maintenance_logs' && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => handleDelete(entry.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaintenanceTimeline;
@@ -0,0 +1,131 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Users, Plus, Crown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { fetchBandMemberships, BandMembership } from "@/lib/bands";
+
+interface ProfileBandsProps {
+  userId: string;
+  isOwnProfile: boolean;
+}
+
+const ProfileBands = ({ userId, isOwnProfile }: ProfileBandsProps) => {
+  const navigate = useNavigate();
+  const [bands, setBands] = useState<BandMembership[]>([]);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [form, setForm] = useState({ name: "", description: "" });
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (userId) fetchBands();
+  }, [userId]);
+
+  const fetchBands = async () => {
+    try {
+      setBands(await fetchBandMemberships(userId));
+    } catch (error) {
+      console.error('Error fetching bands:', error);
+    }
+  };
+
+  const handleCreateBand = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    setSaving(true);
+    try {
+      // The creator becomes the band's first admin in the database
+      const { data, error } = await supabase
+        .from('bands')
+        .insert({
+          name: form.name.trim(),
+          description: form.description || null,
+          created_by: userId
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setIsCreateDialogOpen(false);
+      setForm({ name: "", description: "" });
+      navigate(`/band/${data.id}`);
+    } catch (error) {
+      console.error('Error creating band:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create band",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (bands.length === 0 && !isOwnProfile) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-3">
+      <Users className="w-4 h-4 text-muted-foreground" />
+      {bands.map((band) => (
+        <Badge
+          key={band.band_id}
+          variant="secondary"
+          className="cursor-pointer gap-1"
+          onClick={() => navigate(`/band/${band.band_id}`)}
+        >
+          {band.name}
+          {band.role === 'admin' && <Crown className="w-3 h-3 text-yellow-500" />}
+        </Badge>
+      ))}
+      {isOwnProfile && (
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" className="h-6 text-xs">
+              <Plus className="w-3 h-3 mr-1" />
+              New Band
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Create a Band</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleCreateBand} className="space-y-4">
+              <div>
+                <Label htmlFor="new-band-name">Name</Label>
+                <Input
+                  id="new-band-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. The Clean Cuts"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="new-band-description">Description</Label>
+                <Textarea
+                  id="new-band-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  rows={3}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={saving}>
+                {saving ? "Creating..." : "Create Band"}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+};
+
+export default ProfileBands;
@@ -0,0 +1,120 @@
+import { useState, useEffect } from "react";
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import { Snowflake } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface StreakFreezeButtonProps {
+  equipment: {
+    id: string;
+    name: string;
+    current_streak: number;
+    best_streak: number;
+    cleaning_frequency_days: number;
+    next_cleaning_due?: string;
+  };
+  onUsed: () => void;
+}
+
+// Offer a freeze from this many days before the due date
+const FREEZE_WINDOW_DAYS = 2;
+
+// The database caps a freeze at one cycle and at most this many days
+const MAX_FREEZE_DAYS = 7;
+
+const StreakFreezeButton = ({ equipment, onUsed }: StreakFreezeButtonProps) => {
+  const [available, setAvailable] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchBalance();
+  }, [equipment.id]);
+
+  const fetchBalance = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .rpc('get_streak_freezes', { p_user_id: user.id });
+
+    if (error) {
+      console.error('Error fetching streak freezes:', error);
+      return;
+    }
+    setAvailable(data?.[0]?.available || 0);
+  };
+
+  if (!equipment.next_cleaning_due) return null;
+
+  const dueDate = new Date(equipment.next_cleaning_due);
+  const daysUntilDue = differenceInCalendarDays(dueDate, new Date());
+  const freezeDays = Math.min(Math.max(equipment.cleaning_frequency_days, 1), MAX_FREEZE_DAYS);
+  // A freeze starts on the due date, so it can still save a streak that
+  // broke less than a freeze ago
+  const canFreeze = daysUntilDue <= FREEZE_WINDOW_DAYS
+    && daysUntilDue > -freezeDays
+    && (equipment.current_streak > 0 || equipment.best_streak > 0);
+
+  if (!canFreeze) return null;
+
+  const handleFreeze = async () => {
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      // Covers up to one cycle starting on the due date; the database pushes
+      // the due date back and recomputes the streak
+      const { error } = await supabase
+        .from('cleaning_pauses')
+        .insert({
+          user_id: user.id,
+          equipment_id: equipment.id,
+          kind: 'freeze',
+          starts_on: format(dueDate, 'yyyy-MM-dd'),
+          ends_on: format(addDays(dueDate, freezeDays - 1), 'yyyy-MM-dd')
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Streak Frozen ❄️",
+        description: `${equipment.name} gets an extra ${freezeDays} day${freezeDays === 1 ? '' : 's'}. ${available - 1} freeze${available - 1 === 1 ? '' : 's'} left.`
+      });
+      setAvailable(available - 1);
+      onUsed();
+    } catch (error) {
+      console.error('Error using streak freeze:', error);
+      toast({
+        title: "Error",
+        description: "Failed to use streak freeze",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 p-3 rounded-lg border border-sky-500/40 bg-sky-500/10">
+      <Snowflake className="w-5 h-5 text-sky-500 flex-shrink-0" />
+      <div className="flex-1 text-sm">
+        <p className="font-medium">
+          {daysUntilDue < 0 ? 'Streak at risk' : 'Cleaning due soon'}
+        </p>
+        <p className="text-muted-foreground">
+          {available > 0
+            ? `Spend a streak freeze to skip this cleaning. ${available} available.`
+            : 'Earn a streak freeze every time a streak reaches a multiple of 7.'}
+        </p>
+      </div>
+      <Button type="button" size="sm" variant="outline" disabled={saving || available < 1} onClick={handleFreeze}>
+        Use Freeze
+      </Button>
+    </div>
+  );
+};
+
+export default StreakFreezeButton;
@@ -0,0 +1,295 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Plus, Trash2, TrendingUp, TrendingDown, ShoppingCart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export interface SupplyRestock {
+  id: string;
+  cleaning_equipment_id: string;
+  restocked_at: string;
+  quantity: number;
+  unit_price?: number;
+  supplier?: string;
+  notes?: string;
+}
+
+interface SupplyRestockHistoryProps {
+  supplyId: string;
+  defaultSupplier?: string;
+  defaultUnitPrice?: number;
+  onRestocksChange: () => void;
+}
+
+const emptyForm = (supplier?: string, unitPrice?: number) => ({
+  restocked_at: new Date().toISOString().slice(0, 10),
+  quantity: 1,
+  unit_price: unitPrice || 0,
+  supplier: supplier || "",
+  notes: ""
+});
+
+const formatPrice = (amount: number) => `$${amount.toFixed(2)}`;
+
+const SupplyRestockHistory = ({ supplyId, defaultSupplier, defaultUnitPrice, onRestocksChange }: SupplyRestockHistoryProps) => {
+  const [restocks, setRestocks] = useState<SupplyRestock[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm(defaultSupplier, defaultUnitPrice));
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRestocks();
+    setShowForm(false);
+    setFormData(emptyForm(defaultSupplier, defaultUnitPrice));
+  }, [supplyId]);
+
+  const fetchRestocks = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('cleaning_equipment_restocks')
+        .select('*')
+        .eq('cleaning_equipment_id', supplyId)
+        .order('restocked_at', { ascending: false });
+
+      if (error) throw error;
+      setRestocks(data || []);
+    } catch (error) {
+      console.error('Error fetching restocks:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch purchase history",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleAddRestock = async () => {
+    if (!formData.quantity || formData.quantity < 1) return;
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from('cleaning_equipment_restocks')
+        .insert({
+          cleaning_equipment_id: supplyId,
+          user_id: user.id,
+          // Store at midday so the date survives timezone conversion
+          restocked_at: new Date(`${formData.restocked_at}T12:00:00`).toISOString(),
+          quantity: formData.quantity,
+          unit_price: formData.unit_price || null,
+          supplier: formData.supplier.trim() || null,
+          notes: formData.notes.trim() || null
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Restocked",
+        description: `Added ${formData.quantity} to stock`
+      });
+
+      setShowForm(false);
+      setFormData(emptyForm(formData.supplier, formData.unit_price));
+      await fetchRestocks();
+      onRestocksChange();
+    } catch (error) {
+      console.error('Error adding restock:', error);
+      toast({
+        title: "Error",
+        description: "Failed to log restock",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRestock = async (restockId: string) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('cleaning_equipment_restocks')
+        .delete()
+        .eq('id', restockId);
+
+      if (error) throw error;
+
+      setRestocks(restocks.filter(restock => restock.id !== restockId));
+      onRestocksChange();
+    } catch (error) {
+      console.error('Error deleting restock:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete purchase",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const pricedRestocks = restocks.filter(restock => restock.unit_price != null);
+  const totalSpent = pricedRestocks.reduce((total, restock) => total + restock.quantity * Number(restock.unit_price), 0);
+  const totalPurchased = restocks.reduce((total, restock) => total + restock.quantity, 0);
+  const pricedQuantity = pricedRestocks.reduce((total, restock) => total + restock.quantity, 0);
+
+  // Restocks are newest first, so the previous purchase is the next priced one in the list
+  const getPriceChange = (index: number) => {
+    const current = restocks[index];
+    if (current.unit_price == null) return null;
+    const previous = restocks.slice(index + 1).find(restock => restock.unit_price != null);
+    if (!previous) return null;
+    return Number(current.unit_price) - Number(previous.unit_price);
+  };
+
+  return (
+    <div className="space-y-3">
+      {restocks.length > 0 && (
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="p-3 bg-muted/50 rounded-lg">
+            <p className="text-lg font-semibold">{formatPrice(totalSpent)}</p>
+            <p className="text-xs text-muted-foreground">Total spent</p>
+          </div>
+          <div className="p-3 bg-muted/50 rounded-lg">
+            <p className="text-lg font-semibold">{totalPurchased}</p>
+            <p className="text-xs text-muted-foreground">Units bought</p>
+          </div>
+          <div className="p-3 bg-muted/50 rounded-lg">
+            <p className="text-lg font-semibold">{pricedQuantity > 0 ? formatPrice(totalSpent / pricedQuantity) : '-'}</p>
+            <p className="text-xs text-muted-foreground">Avg. unit price</p>
+          </div>
+        </div>
+      )}
+
+      {restocks.length === 0 && !showForm ? (
+        <div className="text-center py-4">
+          <ShoppingCart className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+          <p className="text-sm text-muted-foreground">No purchases logged yet</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {restocks.map((restock, index) => {
+            const priceChange = getPriceChange(index);
+
+            return (
+              <div key={restock.id} className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium">
+                    {restock.quantity} × {restock.unit_price != null ? formatPrice(Number(restock.unit_price)) : 'no price'}
+                    {restock.unit_price != null && (
+                      <span className="text-muted-foreground font-normal"> = {formatPrice(restock.quantity * Number(restock.unit_price))}</span>
+                    )}
+                  </p>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {format(new Date(restock.restocked_at), 'MMM dd, yyyy')}
+                    {restock.supplier && ` · ${restock.supplier}`}
+                  </p>
+                  {restock.notes && (
+                    <p className="text-xs text-muted-foreground truncate">{restock.notes}</p>
+                  )}
+                </div>
+                {priceChange !== null && priceChange !== 0 && (
+                  <span className={`flex items-center gap-1 text-xs ${priceChange > 0 ? 'text-red-500' : 'text-green-500'}`}>
+                    {priceChange > 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+                    {formatPrice(Math.abs(priceChange))}
+                  </span>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  disabled={saving}
+                  onClick={() => handleDeleteRestock(restock.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showForm ? (
+        <div className="space-y-3 p-3 border rounded-lg">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="restock-date">Date</Label>
+              <Input
+                id="restock-date"
+                type="date"
+                value={formData.restocked_at}
+                onChange={(e) => setFormData({ ...formData, restocked_at: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="restock-quantity">Quantity</Label>
+              <Input
+                id="restock-quantity"
+                type="number"
+                min="1"
+                value={formData.quantity}
+                onChange={(e) => setFormData({ ...formData, quantity: parseInt(e.target.value) })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="restock-unit-price">Unit Price ($)</Label>
+              <Input
+                id="restock-unit-price"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.unit_price}
+                onChange={(e) => setFormData({ ...formData, unit_price: parseFloat(e.target.value) })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="restock-supplier">Supplier</Label>
+              <Input
+                id="restock-supplier"
+                value={formData.supplier}
+                onChange={(e) => setFormData({ ...formData, supplier: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="restock-notes">Notes (optional)</Label>
+            <Input
+              id="restock-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              placeholder="e.g. Paid by Sam"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              className="flex-1"
+              disabled={saving || !formData.quantity || formData.quantity < 1 || !formData.restocked_at}
+              onClick={handleAddRestock}
+            >
+              Save Purchase
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button type="button" variant="outline" className="w-full" onClick={() => setShowForm(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Log Restock
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SupplyRestockHistory;
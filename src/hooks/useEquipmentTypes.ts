@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+import { fetchEquipmentTypes, EquipmentType, FALLBACK_EQUIPMENT_ICON } from '@/lib/equipmentTypes';
+
+export const useEquipmentTypes = () => {
+  const [equipmentTypes, setEquipmentTypes] = useState<EquipmentType[]>([]);
+
+  useEffect(() => {
+    fetchEquipmentTypes()
+      .then(setEquipmentTypes)
+      .catch(error => console.error('Error fetching equipment types:', error));
+  }, []);
+
+  const getEquipmentType = (typeId: string) =>
+    equipmentTypes.find(type => type.id === typeId) || equipmentTypes.find(type => type.id === 'other');
+
+  const getEquipmentIcon = (typeId: string) =>
+    equipmentTypes.find(type => type.id === typeId)?.icon || FALLBACK_EQUIPMENT_ICON;
+
+  return {
+    equipmentTypes,
+    getEquipmentType,
+    getEquipmentIcon
+  };
+};
@@ -14,6 +14,149 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_deletion_requests: {
+        Row: {
+          created_at: string
+          id: string
+          requested_at: string
+          scheduled_for: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          requested_at?: string
+          scheduled_for?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          requested_at?: string
+          scheduled_for?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      achievements: {
+        Row: {
+          created_at: string
+          description: string
+          icon: string
+          id: string
+          metric: string
+          name: string
+          position: number
+          threshold: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          icon: string
+          id: string
+          metric: string
+          name: string
+          position?: number
+          threshold: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          icon?: string
+          id?: string
+          metric?: string
+          name?: string
+          position?: number
+          threshold?: number
+        }
+        Relationships: []
+      }
+      band_members: {
+        Row: {
+          band_id: string
+          created_at: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          band_id: string
+          created_at?: string
+          id?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          band_id?: string
+          created_at?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "band_members_band_id_fkey"
+            columns: ["band_id"]
+            isOneToOne: false
+            referencedRelation: "bands"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bands: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          created_by: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          created_by: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          id: string
+          token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          token: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       cleaning_equipment: {
         Row: {
           cost_per_unit: number | null
@@ -22,6 +165,7 @@ export type Database = {
           icon: string | null
           id: string
           last_restocked_at: string | null
+          low_stock_threshold: number | null
           name: string
           next_replacement_due: string | null
           notes: string | null
@@ -42,6 +186,7 @@ export type Database = {
           icon?: string | null
           id?: string
           last_restocked_at?: string | null
+          low_stock_threshold?: number | null
           name: string
           next_replacement_due?: string | null
           notes?: string | null
@@ -62,6 +207,7 @@ export type Database = {
           icon?: string | null
           id?: string
           last_restocked_at?: string | null
+          low_stock_threshold?: number | null
           name?: string
           next_replacement_due?: string | null
           notes?: string | null
@@ -77,12 +223,191 @@ export type Database = {
         }
         Relationships: []
       }
+      cleaning_equipment_restocks: {
+        Row: {
+          cleaning_equipment_id: string
+          created_at: string
+          id: string
+          notes: string | null
+          quantity: number
+          restocked_at: string
+          supplier: string | null
+          unit_price: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cleaning_equipment_id: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          quantity: number
+          restocked_at?: string
+          supplier?: string | null
+          unit_price?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cleaning_equipment_id?: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          quantity?: number
+          restocked_at?: string
+          supplier?: string | null
+          unit_price?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cleaning_equipment_restocks_cleaning_equipment_id_fkey"
+            columns: ["cleaning_equipment_id"]
+            isOneToOne: false
+            referencedRelation: "cleaning_equipment"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cleaning_log_photos: {
+        Row: {
+          cleaning_log_id: string
+          created_at: string
+          id: string
+          kind: string
+          photo_url: string
+          position: number
+          user_id: string
+        }
+        Insert: {
+          cleaning_log_id: string
+          created_at?: string
+          id?: string
+          kind: string
+          photo_url: string
+          position?: number
+          user_id: string
+        }
+        Update: {
+          cleaning_log_id?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          photo_url?: string
+          position?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cleaning_log_photos_cleaning_log_id_fkey"
+            columns: ["cleaning_log_id"]
+            isOneToOne: false
+            referencedRelation: "cleaning_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cleaning_log_steps: {
+        Row: {
+          cleaning_log_id: string
+          completed: boolean
+          created_at: string
+          id: string
+          position: number
+          step_id: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          cleaning_log_id: string
+          completed?: boolean
+          created_at?: string
+          id?: string
+          position?: number
+          step_id?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          cleaning_log_id?: string
+          completed?: boolean
+          created_at?: string
+          id?: string
+          position?: number
+          step_id?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cleaning_log_steps_cleaning_log_id_fkey"
+            columns: ["cleaning_log_id"]
+            isOneToOne: false
+            referencedRelation: "cleaning_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cleaning_log_steps_step_id_fkey"
+            columns: ["step_id"]
+            isOneToOne: false
+            referencedRelation: "equipment_cleaning_steps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cleaning_log_supplies: {
+        Row: {
+          cleaning_equipment_id: string
+          cleaning_log_id: string
+          created_at: string
+          id: string
+          quantity_deducted: number
+          quantity_used: number
+          user_id: string
+        }
+        Insert: {
+          cleaning_equipment_id: string
+          cleaning_log_id: string
+          created_at?: string
+          id?: string
+          quantity_deducted?: number
+          quantity_used?: number
+          user_id: string
+        }
+        Update: {
+          cleaning_equipment_id?: string
+          cleaning_log_id?: string
+          created_at?: string
+          id?: string
+          quantity_deducted?: number
+          quantity_used?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cleaning_log_supplies_cleaning_equipment_id_fkey"
+            columns: ["cleaning_equipment_id"]
+            isOneToOne: false
+            referencedRelation: "cleaning_equipment"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cleaning_log_supplies_cleaning_log_id_fkey"
+            columns: ["cleaning_log_id"]
+            isOneToOne: false
+            referencedRelation: "cleaning_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cleaning_logs: {
         Row: {
           cleaned_at: string
           created_at: string
           equipment_id: string
           id: string
+          is_partial: boolean
           notes: string | null
           photo_url: string | null
           streak_after_cleaning: number | null
@@ -94,6 +419,7 @@ export type Database = {
           created_at?: string
           equipment_id: string
           id?: string
+          is_partial?: boolean
           notes?: string | null
           photo_url?: string | null
           streak_after_cleaning?: number | null
@@ -105,6 +431,7 @@ export type Database = {
           created_at?: string
           equipment_id?: string
           id?: string
+          is_partial?: boolean
           notes?: string | null
           photo_url?: string | null
           streak_after_cleaning?: number | null
@@ -121,64 +448,380 @@ export type Database = {
           },
         ]
       }
-      equipment: {
+      cleaning_pauses: {
+        Row: {
+          created_at: string
+          ends_on: string
+          equipment_id: string | null
+          id: string
+          kind: string
+          reason: string | null
+          starts_on: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          ends_on: string
+          equipment_id?: string | null
+          id?: string
+          kind?: string
+          reason?: string | null
+          starts_on: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          ends_on?: string
+          equipment_id?: string | null
+          id?: string
+          kind?: string
+          reason?: string | null
+          starts_on?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cleaning_pauses_equipment_id_fkey"
+            columns: ["equipment_id"]
+            isOneToOne: false
+            referencedRelation: "equipment"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      equipment: {
+        Row: {
+          assigned_to: string | null
+          auto_rotate_assignment: boolean
+          best_streak: number
+          cleaning_frequency_days: number
+          created_at: string
+          current_streak: number
+          description: string | null
+          group_id: string | null
+          icon: string | null
+          id: string
+          last_cleaned_at: string | null
+          last_streak_date: string | null
+          name: string
+          next_cleaning_due: string | null
+          notifications_enabled: boolean
+          photo_url: string | null
+          schedule_mode: string
+          show_on_profile: boolean
+          template_id: string | null
+          type: string
+          updated_at: string
+          usage_interval: number | null
+          user_id: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          auto_rotate_assignment?: boolean
+          best_streak?: number
+          cleaning_frequency_days?: number
+          created_at?: string
+          current_streak?: number
+          description?: string | null
+          group_id?: string | null
+          icon?: string | null
+          id?: string
+          last_cleaned_at?: string | null
+          last_streak_date?: string | null
+          name: string
+          next_cleaning_due?: string | null
+          notifications_enabled?: boolean
+          photo_url?: string | null
+          schedule_mode?: string
+          show_on_profile?: boolean
+          template_id?: string | null
+          type: string
+          updated_at?: string
+          usage_interval?: number | null
+          user_id: string
+        }
+        Update: {
+          assigned_to?: string | null
+          auto_rotate_assignment?: boolean
+          best_streak?: number
+          cleaning_frequency_days?: number
+          created_at?: string
+          current_streak?: number
+          description?: string | null
+          group_id?: string | null
+          icon?: string | null
+          id?: string
+          last_cleaned_at?: string | null
+          last_streak_date?: string | null
+          name?: string
+          next_cleaning_due?: string | null
+          notifications_enabled?: boolean
+          photo_url?: string | null
+          schedule_mode?: string
+          show_on_profile?: boolean
+          template_id?: string | null
+          type?: string
+          updated_at?: string
+          usage_interval?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "equipment_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "equipment_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "equipment_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "equipment_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "equipment_type_fkey"
+            columns: ["type"]
+            isOneToOne: false
+            referencedRelation: "equipment_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      equipment_cleaning_steps: {
+        Row: {
+          created_at: string
+          equipment_id: string
+          id: string
+          position: number
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          equipment_id: string
+          id?: string
+          position?: number
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          equipment_id?: string
+          id?: string
+          position?: number
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "equipment_cleaning_steps_equipment_id_fkey"
+            columns: ["equipment_id"]
+            isOneToOne: false
+            referencedRelation: "equipment"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      equipment_delegates: {
+        Row: {
+          created_at: string
+          delegate_id: string
+          equipment_id: string
+          id: string
+          owner_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          delegate_id: string
+          equipment_id: string
+          id?: string
+          owner_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          delegate_id?: string
+          equipment_id?: string
+          id?: string
+          owner_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "equipment_delegates_equipment_id_fkey"
+            columns: ["equipment_id"]
+            isOneToOne: false
+            referencedRelation: "equipment"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      equipment_group_members: {
+        Row: {
+          created_at: string
+          group_id: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          group_id: string
+          id?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          group_id?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "equipment_group_members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "equipment_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      equipment_groups: {
+        Row: {
+          band_id: string | null
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          band_id?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          band_id?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "equipment_groups_band_id_fkey"
+            columns: ["band_id"]
+            isOneToOne: true
+            referencedRelation: "bands"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      equipment_templates: {
         Row: {
-          best_streak: number
           cleaning_frequency_days: number
           created_at: string
-          current_streak: number
           description: string | null
           icon: string | null
           id: string
-          last_cleaned_at: string | null
-          last_streak_date: string | null
           name: string
-          next_cleaning_due: string | null
-          notifications_enabled: boolean
-          photo_url: string | null
-          show_on_profile: boolean
+          schedule_mode: string
+          steps: string[]
           type: string
           updated_at: string
+          usage_interval: number | null
           user_id: string
         }
         Insert: {
-          best_streak?: number
           cleaning_frequency_days?: number
           created_at?: string
-          current_streak?: number
           description?: string | null
           icon?: string | null
           id?: string
-          last_cleaned_at?: string | null
-          last_streak_date?: string | null
           name: string
-          next_cleaning_due?: string | null
-          notifications_enabled?: boolean
-          photo_url?: string | null
-          show_on_profile?: boolean
+          schedule_mode?: string
+          steps?: string[]
           type: string
           updated_at?: string
+          usage_interval?: number | null
           user_id: string
         }
         Update: {
-          best_streak?: number
           cleaning_frequency_days?: number
           created_at?: string
-          current_streak?: number
           description?: string | null
           icon?: string | null
           id?: string
-          last_cleaned_at?: string | null
-          last_streak_date?: string | null
           name?: string
-          next_cleaning_due?: string | null
-          notifications_enabled?: boolean
-          photo_url?: string | null
-          show_on_profile?: boolean
+          schedule_mode?: string
+          steps?: string[]
           type?: string
           updated_at?: string
+          usage_interval?: number | null
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "equipment_templates_type_fkey"
+            columns: ["type"]
+            isOneToOne: false
+            referencedRelation: "equipment_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      equipment_types: {
+        Row: {
+          care_guide: string
+          created_at: string
+          default_frequency_days: number
+          default_steps: string[]
+          icon: string
+          id: string
+          label: string
+          position: number
+          supply_types: string[]
+        }
+        Insert: {
+          care_guide?: string
+          created_at?: string
+          default_frequency_days: number
+          default_steps?: string[]
+          icon: string
+          id: string
+          label: string
+          position?: number
+          supply_types?: string[]
+        }
+        Update: {
+          care_guide?: string
+          created_at?: string
+          default_frequency_days?: number
+          default_steps?: string[]
+          icon?: string
+          id?: string
+          label?: string
+          position?: number
+          supply_types?: string[]
+        }
         Relationships: []
       }
       event_attendees: {
@@ -248,6 +891,65 @@ export type Database = {
           },
         ]
       }
+      event_equipment: {
+        Row: {
+          clean_after_log_id: string | null
+          clean_before_log_id: string | null
+          created_at: string
+          equipment_id: string
+          event_id: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          clean_after_log_id?: string | null
+          clean_before_log_id?: string | null
+          created_at?: string
+          equipment_id: string
+          event_id: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          clean_after_log_id?: string | null
+          clean_before_log_id?: string | null
+          created_at?: string
+          equipment_id?: string
+          event_id?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_equipment_clean_after_log_id_fkey"
+            columns: ["clean_after_log_id"]
+            isOneToOne: false
+            referencedRelation: "cleaning_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_equipment_clean_before_log_id_fkey"
+            columns: ["clean_before_log_id"]
+            isOneToOne: false
+            referencedRelation: "cleaning_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_equipment_equipment_id_fkey"
+            columns: ["equipment_id"]
+            isOneToOne: false
+            referencedRelation: "equipment"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_equipment_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       event_likes: {
         Row: {
           created_at: string
@@ -277,14 +979,87 @@ export type Database = {
           },
         ]
       }
+      event_packing_items: {
+        Row: {
+          assigned_to: string | null
+          category: string
+          cleaning_equipment_id: string | null
+          created_at: string
+          equipment_id: string | null
+          event_id: string
+          id: string
+          name: string
+          packed: boolean
+          position: number
+          quantity: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          category?: string
+          cleaning_equipment_id?: string | null
+          created_at?: string
+          equipment_id?: string | null
+          event_id: string
+          id?: string
+          name: string
+          packed?: boolean
+          position?: number
+          quantity?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          assigned_to?: string | null
+          category?: string
+          cleaning_equipment_id?: string | null
+          created_at?: string
+          equipment_id?: string | null
+          event_id?: string
+          id?: string
+          name?: string
+          packed?: boolean
+          position?: number
+          quantity?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_packing_items_cleaning_equipment_id_fkey"
+            columns: ["cleaning_equipment_id"]
+            isOneToOne: false
+            referencedRelation: "cleaning_equipment"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_packing_items_equipment_id_fkey"
+            columns: ["equipment_id"]
+            isOneToOne: false
+            referencedRelation: "equipment"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_packing_items_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       events: {
         Row: {
+          band_id: string | null
           created_at: string
           description: string | null
           end_date: string | null
           event_type: string
+          ical_uid: string | null
           id: string
           location: string | null
+          packing_list_shared: boolean
           share_with_followers: boolean
           start_date: string
           title: string
@@ -292,12 +1067,15 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          band_id?: string | null
           created_at?: string
           description?: string | null
           end_date?: string | null
           event_type?: string
+          ical_uid?: string | null
           id?: string
           location?: string | null
+          packing_list_shared?: boolean
           share_with_followers?: boolean
           start_date: string
           title: string
@@ -305,19 +1083,30 @@ export type Database = {
           user_id: string
         }
         Update: {
+          band_id?: string | null
           created_at?: string
           description?: string | null
           end_date?: string | null
           event_type?: string
+          ical_uid?: string | null
           id?: string
           location?: string | null
+          packing_list_shared?: boolean
           share_with_followers?: boolean
           start_date?: string
           title?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "events_band_id_fkey"
+            columns: ["band_id"]
+            isOneToOne: false
+            referencedRelation: "bands"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       fcm_tokens: {
         Row: {
@@ -376,6 +1165,56 @@ export type Database = {
         }
         Relationships: []
       }
+      maintenance_logs: {
+        Row: {
+          attachment_urls: string[]
+          cost: number | null
+          created_at: string
+          equipment_id: string
+          id: string
+          kind: string
+          notes: string | null
+          performed_at: string
+          performed_by: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attachment_urls?: string[]
+          cost?: number | null
+          created_at?: string
+          equipment_id: string
+          id?: string
+          kind: string
+          notes?: string | null
+          performed_at?: string
+          performed_by?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attachment_urls?: string[]
+          cost?: number | null
+          created_at?: string
+          equipment_id?: string
+          id?: string
+          kind?: string
+          notes?: string | null
+          performed_at?: string
+          performed_by?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maintenance_logs_equipment_id_fkey"
+            columns: ["equipment_id"]
+            isOneToOne: false
+            referencedRelation: "equipment"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notification_deliveries: {
         Row: {
           created_at: string
@@ -574,6 +1413,35 @@ export type Database = {
         }
         Relationships: []
       }
+      user_achievements: {
+        Row: {
+          achievement_id: string
+          awarded_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          achievement_id: string
+          awarded_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          achievement_id?: string
+          awarded_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_achievements_achievement_id_fkey"
+            columns: ["achievement_id"]
+            isOneToOne: false
+            referencedRelation: "achievements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_timezones: {
         Row: {
           created_at: string
@@ -600,9 +1468,40 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      equipment_maintenance_timeline: {
+        Row: {
+          attachment_urls: string[] | null
+          cost: number | null
+          equipment_id: string | null
+          id: string | null
+          is_partial: boolean | null
+          kind: string | null
+          notes: string | null
+          performed_at: string | null
+          performed_by: string | null
+          source: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      apply_cleaning_equipment_restock: {
+        Args: {
+          p_quantity_change: number
+          p_supply_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      can_access_equipment: {
+        Args: { p_equipment_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      can_access_event_packing_list: {
+        Args: { p_event_id: string; p_user_id: string }
+        Returns: boolean
+      }
       check_email_exists: {
         Args: { email_to_check: string }
         Returns: boolean
@@ -611,6 +1510,30 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      default_cleaning_steps: {
+        Args: { equipment_type: string }
+        Returns: string[]
+      }
+      delete_user_data: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      evaluate_achievements: {
+        Args: { p_notify?: boolean; p_user_id: string }
+        Returns: undefined
+      }
+      event_hours_played: {
+        Args: { end_date: string; start_date: string }
+        Returns: number
+      }
+      get_equipment_usage: {
+        Args: { p_user_id: string }
+        Returns: {
+          equipment_id: string
+          events_played: number
+          hours_played: number
+        }[]
+      }
       get_following_top_streaks: {
         Args: { p_limit?: number; p_user_id: string }
         Returns: {
@@ -633,6 +1556,19 @@ export type Database = {
           username: string
         }[]
       }
+      get_leaderboard: {
+        Args: { p_equipment_type?: string; p_limit?: number; p_metric?: string; p_scope?: string; p_user_id: string; p_window?: string }
+        Returns: {
+          avatar_url: string
+          display_name: string
+          equipment_name: string
+          rank_position: number
+          score: number
+          total_entries: number
+          user_id: string
+          username: string
+        }[]
+      }
       get_public_profile: {
         Args: { profile_user_id: string }
         Returns: {
@@ -653,6 +1589,14 @@ export type Database = {
           username: string
         }[]
       }
+      get_streak_freezes: {
+        Args: { p_user_id: string }
+        Returns: {
+          available: number
+          earned: number
+          used: number
+        }[]
+      }
       get_user_best_streak: {
         Args: { p_user_id: string }
         Returns: number
@@ -664,6 +1608,50 @@ export type Database = {
           total_users: number
         }[]
       }
+      is_band_admin: {
+        Args: { p_band_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_band_member: {
+        Args: { p_band_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_cleaning_paused: {
+        Args: { p_equipment_id: string; p_on: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_equipment_delegate: {
+        Args: { p_equipment_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_equipment_group_member: {
+        Args: { p_group_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_equipment_group_owner: {
+        Args: { p_group_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_playing_event_type: {
+        Args: { event_type: string }
+        Returns: boolean
+      }
+      pause_adjusted_due: {
+        Args: { p_due: string; p_equipment_id: string; p_from: string; p_user_id: string }
+        Returns: string
+      }
+      recompute_equipment_streak: {
+        Args: { p_equipment_id: string }
+        Returns: undefined
+      }
+      request_account_deletion: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      reset_calendar_feed_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
       reset_overdue_streaks: {
         Args: Record<PropertyKey, never>
         Returns: undefined
@@ -677,6 +1665,15 @@ export type Database = {
           username: string
         }[]
       }
+      usage_cleaning_due: {
+        Args: {
+          p_equipment_id: string
+          p_schedule_mode: string
+          p_since: string
+          p_usage_interval: number
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
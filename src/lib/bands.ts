@@ -0,0 +1,31 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface BandMembership {
+  band_id: string;
+  role: string;
+  name: string;
+}
+
+export const fetchBandMemberships = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('band_members')
+    .select('band_id, role, band:band_id (name)')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const bands: BandMembership[] = (data || []).map(membership => ({
+    band_id: membership.band_id,
+    role: membership.role,
+    name: membership.band?.name || ''
+  }));
+
+  return bands;
+};
+
+// PostgREST `or` filter matching the user's own events plus their bands' events
+export const ownOrBandEventsFilter = (userId: string, bandIds: string[]) => {
+  return bandIds.length > 0
+    ? `user_id.eq.${userId},band_id.in.(${bandIds.join(',')})`
+    : `user_id.eq.${userId}`;
+};
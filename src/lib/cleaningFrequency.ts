@@ -0,0 +1,87 @@
+import { differenceInCalendarDays } from "date-fns";
+
+export interface FrequencyLog {
+  equipment_id: string;
+  cleaned_at: string;
+  is_partial: boolean;
+  streak_after_cleaning?: number;
+}
+
+export interface FrequencySuggestionResult {
+  suggestedDays: number;
+  averageInterval: number;
+  overdueCount: number;
+  intervalCount: number;
+  streakResets: number;
+}
+
+// Only the most recent cleanings count, so old habits don't drag the suggestion around
+const RECENT_INTERVALS = 10;
+const MIN_INTERVALS = 3;
+const FREQUENCY_STEPS = [1, 2, 3, 4, 5, 7, 10, 14, 21, 30, 45, 60, 90, 120, 180, 365];
+
+const roundToFrequencyStep = (days: number) =>
+  FREQUENCY_STEPS.reduce((closest, step) =>
+    Math.abs(step - days) < Math.abs(closest - days) ? step : closest
+  );
+
+/**
+ * Looks at how often an item is really cleaned and returns a more realistic
+ * frequency, or null when the current one already fits (or there isn't
+ * enough history to say).
+ */
+export const getFrequencySuggestion = (
+  logs: FrequencyLog[],
+  equipmentId: string,
+  currentFrequency: number
+): FrequencySuggestionResult | null => {
+  const cleanings = logs
+    .filter(log => log.equipment_id === equipmentId && !log.is_partial)
+    .sort((a, b) => new Date(a.cleaned_at).getTime() - new Date(b.cleaned_at).getTime())
+    .slice(-(RECENT_INTERVALS + 1));
+
+  const intervals = cleanings
+    .slice(1)
+    .map((log, index) => differenceInCalendarDays(new Date(log.cleaned_at), new Date(cleanings[index].cleaned_at)))
+    // Several cleanings on one day say nothing about the cadence
+    .filter(days => days > 0);
+
+  if (intervals.length < MIN_INTERVALS) return null;
+
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const medianInterval = sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+  const averageInterval = intervals.reduce((total, days) => total + days, 0) / intervals.length;
+  const overdueCount = intervals.filter(days => days > currentFrequency).length;
+  const streakResets = cleanings.slice(1).filter(log => log.streak_after_cleaning === 1).length;
+
+  // Rounding to a step must not flip the direction of the advice, e.g. 11
+  // days rounding to 10 when the user is late on a 10-day schedule
+  let suggestedDays: number | null = null;
+  if (overdueCount / intervals.length >= 0.5) {
+    // Mostly late: move to the cadence actually kept
+    const rounded = roundToFrequencyStep(Math.max(medianInterval, currentFrequency + 1));
+    suggestedDays = rounded > currentFrequency
+      ? rounded
+      : FREQUENCY_STEPS.find(step => step > currentFrequency) ?? currentFrequency + 1;
+  } else if (overdueCount === 0 && medianInterval <= currentFrequency * 0.5) {
+    // Always well ahead of schedule: a tighter cadence keeps the streak honest
+    const rounded = roundToFrequencyStep(medianInterval);
+    const lowerSteps = FREQUENCY_STEPS.filter(step => step < currentFrequency);
+    suggestedDays = rounded < currentFrequency
+      ? rounded
+      : lowerSteps.length > 0 ? lowerSteps[lowerSteps.length - 1] : null;
+  }
+
+  if (suggestedDays === null || suggestedDays === currentFrequency) return null;
+
+  return {
+    suggestedDays,
+    averageInterval,
+    overdueCount,
+    intervalCount: intervals.length,
+    streakResets
+  };
+};
@@ -0,0 +1,169 @@
+import { format, parseISO } from "date-fns";
+import { CsvRow } from "@/lib/csv";
+
+export type ImportTarget = "equipment" | "cleaning_equipment";
+
+type FieldKind = "text" | "type" | "positiveInt" | "nonNegativeInt" | "amount" | "boolean" | "date";
+
+export interface ImportField {
+  key: string;
+  label: string;
+  kind: FieldKind;
+  required?: boolean;
+}
+
+export interface KnownType {
+  id: string;
+  label: string;
+}
+
+export interface ImportPreviewRow {
+  line: number;
+  values: Record<string, string | number | boolean | null>;
+  errors: string[];
+  warnings: string[];
+  duplicate: boolean;
+}
+
+// Column mapping: field key to CSV column index, -1 when not imported
+export type ColumnMapping = Record<string, number>;
+
+// Keys match the exported column names so an export imports back unchanged
+export const IMPORT_FIELDS: Record<ImportTarget, ImportField[]> = {
+  equipment: [
+    { key: "name", label: "Name", kind: "text", required: true },
+    { key: "type", label: "Type", kind: "type", required: true },
+    { key: "description", label: "Cleaning Requirements", kind: "text" },
+    { key: "cleaning_frequency_days", label: "Cleaning Frequency (days)", kind: "positiveInt" },
+    { key: "notifications_enabled", label: "Notifications", kind: "boolean" },
+    { key: "show_on_profile", label: "Show on Profile", kind: "boolean" }
+  ],
+  cleaning_equipment: [
+    { key: "name", label: "Name", kind: "text", required: true },
+    { key: "type", label: "Type", kind: "type", required: true },
+    { key: "description", label: "Description", kind: "text" },
+    { key: "quantity", label: "Quantity", kind: "nonNegativeInt" },
+    { key: "replacement_frequency_days", label: "Replace Every (days)", kind: "positiveInt" },
+    { key: "cost_per_unit", label: "Cost per Unit", kind: "amount" },
+    { key: "supplier", label: "Supplier", kind: "text" },
+    { key: "notes", label: "Notes", kind: "text" },
+    { key: "low_stock_threshold", label: "Low Stock Threshold", kind: "nonNegativeInt" },
+    { key: "purchase_date", label: "Purchase Date", kind: "date" },
+    { key: "show_on_profile", label: "Show on Profile", kind: "boolean" }
+  ]
+};
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+
+// Picks the CSV column whose header matches a field's key or label
+export const guessColumnMapping = (headers: string[], target: ImportTarget): ColumnMapping => {
+  const normalizedHeaders = headers.map(normalize);
+  return Object.fromEntries(IMPORT_FIELDS[target].map(field => [
+    field.key,
+    normalizedHeaders.findIndex(header => header === field.key || header === normalize(field.label))
+  ]));
+};
+
+// "Guitars", "Acoustic guitar" and "guitar" all map to the guitar type
+const matchType = (value: string, knownTypes: KnownType[]) => {
+  const normalized = normalize(value);
+  const spellings = [normalized, normalized.replace(/s$/, ""), normalized.replace(/es$/, "")];
+  return knownTypes.find(type => [normalize(type.id), normalize(type.label)].some(candidate =>
+    spellings.includes(candidate)
+  )) || knownTypes.find(type => type.id !== "other" && normalized.split("_").includes(type.id));
+};
+
+const parseBoolean = (value: string) => {
+  const normalized = value.trim().toLowerCase();
+  if (["true", "yes", "y", "1", "on"].includes(normalized)) return true;
+  if (["false", "no", "n", "0", "off"].includes(normalized)) return false;
+  return null;
+};
+
+const parseField = (field: ImportField, raw: string, knownTypes: KnownType[], row: ImportPreviewRow) => {
+  const value = raw.trim();
+  if (value === "") {
+    if (field.required) row.errors.push(`${field.label} is required`);
+    return null;
+  }
+
+  switch (field.kind) {
+    case "type": {
+      const type = matchType(value, knownTypes);
+      if (type) return type.id;
+      row.warnings.push(`Unknown type "${value}" will be imported as Other`);
+      return "other";
+    }
+    case "positiveInt":
+    case "nonNegativeInt": {
+      const number = Number(value);
+      const minimum = field.kind === "positiveInt" ? 1 : 0;
+      if (!Number.isInteger(number) || number < minimum) {
+        row.errors.push(`${field.label} must be a ${field.kind === "positiveInt" ? "positive" : "non-negative"} whole number`);
+        return null;
+      }
+      return number;
+    }
+    case "amount": {
+      const number = Number(value.replace(/^[^\d.-]+/, ""));
+      if (!Number.isFinite(number) || number < 0) {
+        row.errors.push(`${field.label} must be a number`);
+        return null;
+      }
+      return number;
+    }
+    case "boolean": {
+      const bool = parseBoolean(value);
+      if (bool === null) row.errors.push(`${field.label} must be yes or no`);
+      return bool;
+    }
+    case "date": {
+      // ISO dates are read as local days; other formats are local already
+      const date = /^\d{4}-\d{2}-\d{2}/.test(value) ? parseISO(value) : new Date(value);
+      if (isNaN(date.getTime())) {
+        row.errors.push(`${field.label} is not a valid date`);
+        return null;
+      }
+      return format(date, 'yyyy-MM-dd');
+    }
+    default:
+      return value;
+  }
+};
+
+/**
+ * Dry run of an import: parses every data row with the chosen mapping and
+ * flags errors, warnings and rows whose name already exists (in the user's
+ * items or earlier in the file). Nothing is written.
+ */
+export const previewImport = (
+  dataRows: CsvRow[],
+  mapping: ColumnMapping,
+  target: ImportTarget,
+  knownTypes: KnownType[],
+  existingNames: string[]
+): ImportPreviewRow[] => {
+  const seenNames = new Set(existingNames.map(name => name.trim().toLowerCase()));
+
+  return dataRows.map(({ line, cells }) => {
+    const row: ImportPreviewRow = { line, values: {}, errors: [], warnings: [], duplicate: false };
+
+    IMPORT_FIELDS[target].forEach(field => {
+      const column = mapping[field.key];
+      if (column === undefined || column < 0) {
+        if (field.required) row.errors.push(`${field.label} column is not mapped`);
+        return;
+      }
+      const value = parseField(field, cells[column] || "", knownTypes, row);
+      if (value !== null) row.values[field.key] = value;
+    });
+
+    const name = typeof row.values.name === "string" ? row.values.name.toLowerCase() : "";
+    if (name) {
+      row.duplicate = seenNames.has(name);
+      seenNames.add(name);
+    }
+
+    return row;
+  });
+};
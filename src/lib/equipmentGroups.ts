@@ -0,0 +1,57 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface EquipmentGroupMembership {
+  group_id: string;
+  role: string;
+  name: string;
+}
+
+/**
+ * Groups the user belongs to and the ids of equipment shared with them,
+ * through those groups or as an accepted cleaning delegate, so
+ * equipment-scoped queries can include shared items alongside the user's
+ * own.
+ */
+export const fetchEquipmentGroupAccess = async (userId: string) => {
+  const { data: memberships, error } = await supabase
+    .from('equipment_group_members')
+    .select('group_id, role, group:group_id (name)')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const groups: EquipmentGroupMembership[] = (memberships || []).map(membership => ({
+    group_id: membership.group_id,
+    role: membership.role,
+    name: membership.group?.name || ''
+  }));
+
+  let sharedEquipmentIds: string[] = [];
+  if (groups.length > 0) {
+    const { data: shared, error: sharedError } = await supabase
+      .from('equipment')
+      .select('id')
+      .in('group_id', groups.map(group => group.group_id));
+
+    if (sharedError) throw sharedError;
+    sharedEquipmentIds = (shared || []).map(item => item.id);
+  }
+
+  const { data: delegations, error: delegationsError } = await supabase
+    .from('equipment_delegates')
+    .select('equipment_id')
+    .eq('delegate_id', userId)
+    .eq('status', 'accepted');
+
+  if (delegationsError) throw delegationsError;
+  sharedEquipmentIds = [...new Set([...sharedEquipmentIds, ...(delegations || []).map(item => item.equipment_id)])];
+
+  return { groups, sharedEquipmentIds };
+};
+
+// PostgREST `or` filter matching the user's own rows plus rows for shared equipment
+export const ownOrSharedFilter = (userId: string, sharedEquipmentIds: string[], equipmentColumn = 'equipment_id') => {
+  return sharedEquipmentIds.length > 0
+    ? `user_id.eq.${userId},${equipmentColumn}.in.(${sharedEquipmentIds.join(',')})`
+    : `user_id.eq.${userId}`;
+};
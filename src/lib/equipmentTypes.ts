@@ -0,0 +1,38 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface EquipmentType {
+  id: string;
+  label: string;
+  icon: string;
+  default_frequency_days: number;
+  default_steps: string[];
+  supply_types: string[];
+  care_guide: string;
+  position: number;
+}
+
+export const FALLBACK_EQUIPMENT_ICON = "🎵";
+
+// The catalog rarely changes, so every page shares one request
+let equipmentTypesRequest: Promise<EquipmentType[]> | null = null;
+
+export const fetchEquipmentTypes = () => {
+  if (!equipmentTypesRequest) {
+    equipmentTypesRequest = (async () => {
+      const { data, error } = await supabase
+        .from('equipment_types')
+        .select('*')
+        .order('position');
+
+      if (error) throw error;
+      return data || [];
+    })();
+
+    // Let the next caller retry after a failed request
+    equipmentTypesRequest.catch(() => {
+      equipmentTypesRequest = null;
+    });
+  }
+
+  return equipmentTypesRequest;
+};
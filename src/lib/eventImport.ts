@@ -0,0 +1,95 @@
+import { IcsEvent, ICAL_UID_DOMAIN } from "@/lib/ical";
+
+export interface ExistingEvent {
+  id: string;
+  title: string;
+  description?: string;
+  location?: string;
+  start_date: string;
+  end_date?: string;
+  ical_uid?: string;
+}
+
+export type EventImportStatus = "new" | "update" | "unchanged" | "duplicate" | "locked";
+
+export interface EventImportRow {
+  event: IcsEvent;
+  eventType: string;
+  status: EventImportStatus;
+  existingId?: string;
+  changes: string[];
+}
+
+// Checked in order, so "studio rehearsal" counts as a rehearsal
+const EVENT_TYPE_KEYWORDS: [string, RegExp][] = [
+  ["rehearsal", /\b(rehearsals?|rehearse|practi[cs]e|probe|soundcheck)\b/i],
+  ["recording", /\b(recording|record|studio|tracking|overdubs?|mixing)\b/i],
+  ["jam", /\bjam(s|ming)?\b/i],
+  ["show", /\b(show|theat(re|er)|musical|performance)\b/i],
+  ["gig", /\b(gigs?|concerts?|live|festival|tour|support slot|open mic)\b/i]
+];
+
+/**
+ * Event type for an imported event: a category naming one of our types
+ * (as in files exported from here) wins, then keywords in the title, then
+ * in the description.
+ */
+export const guessEventType = (event: IcsEvent, eventTypes: string[]) => {
+  const category = event.categories.map(value => value.toLowerCase()).find(value => eventTypes.includes(value));
+  if (category) return category;
+
+  for (const text of [event.title, event.description || ""]) {
+    const match = EVENT_TYPE_KEYWORDS.find(([type, pattern]) => eventTypes.includes(type) && pattern.test(text));
+    if (match) return match[0];
+  }
+
+  return "other";
+};
+
+const sameTime = (a?: string, b?: string) => (a && b ? new Date(a).getTime() === new Date(b).getTime() : !a && !b);
+
+const changedFields = (event: IcsEvent, existing: ExistingEvent) => [
+  event.title !== existing.title && "title",
+  (event.description || "") !== (existing.description || "") && "description",
+  (event.location || "") !== (existing.location || "") && "location",
+  !sameTime(event.start_date, existing.start_date) && "start",
+  !sameTime(event.end_date, existing.end_date) && "end"
+].filter((field): field is string => !!field);
+
+/**
+ * Dry run of an .ics import. Events are matched to the user's calendar by
+ * the UID they were imported with, or by event id for files exported from
+ * here, and come out as new, updates (with the changed fields), unchanged,
+ * repeated within the file, or locked when the match is a band event the
+ * user can't edit. Nothing is written.
+ */
+export const previewEventImport = (
+  events: IcsEvent[],
+  existingEvents: ExistingEvent[],
+  eventTypes: string[],
+  canEdit: (eventId: string) => boolean
+): EventImportRow[] => {
+  const byUid = new Map(existingEvents.filter(event => event.ical_uid).map(event => [event.ical_uid, event]));
+  const byId = new Map(existingEvents.map(event => [event.id, event]));
+  const exportedUid = new RegExp(`^event-([0-9a-f-]{36})@${ICAL_UID_DOMAIN.replace(/\./g, "\\.")}$`, "i");
+  const seen = new Set<string>();
+
+  return events.map(event => {
+    const eventType = guessEventType(event, eventTypes);
+
+    if (seen.has(event.uid)) {
+      return { event, eventType, status: "duplicate", changes: [] };
+    }
+    seen.add(event.uid);
+
+    const exportedId = event.uid.match(exportedUid)?.[1];
+    const existing = byUid.get(event.uid) || (exportedId ? byId.get(exportedId) : undefined);
+    if (!existing) {
+      return { event, eventType, status: "new", changes: [] };
+    }
+
+    const changes = changedFields(event, existing);
+    const status: EventImportStatus = changes.length === 0 ? "unchanged" : canEdit(existing.id) ? "update" : "locked";
+    return { event, eventType, status, existingId: existing.id, changes };
+  });
+};
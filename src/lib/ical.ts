@@ -0,0 +1,595 @@
+// Same product and UID domain as the calendar-feed edge function, so a
+// downloaded event and its subscribed copy are recognised as one event
+const PRODUCT_ID = "-//Clean Beats//Calendar//EN";
+export const ICAL_UID_DOMAIN = "cleanbeats.app";
+
+export interface IcalEvent {
+  id: string;
+  title: string;
+  description?: string;
+  event_type: string;
+  start_date: string;
+  end_date?: string;
+  location?: string;
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > 74) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+export const buildEventIcs = (event: IcalEvent) => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:event-${event.id}@${ICAL_UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(new Date())}`,
+    `DTSTART:${formatDateTime(new Date(event.start_date))}`,
+    ...(event.end_date ? [`DTEND:${formatDateTime(new Date(event.end_date))}`] : []),
+    `SUMMARY:${escapeText(event.title)}`,
+    `CATEGORIES:${escapeText(event.event_type)}`,
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    "END:VEVENT",
+    "END:VCALENDAR"
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+export const downloadIcs = (filename: string, ics: string) => {
+  const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Served by the calendar-feed edge function of this project
+const CALENDAR_FEED_URL = "https://zvaslazcmocjditstuxw.supabase.co/functions/v1/calendar-feed";
+
+export const calendarFeedUrl = (token: string) => `${CALENDAR_FEED_URL}?token=${token}`;
+
+// webcal:// opens the subscribe prompt of the device's calendar app
+export const calendarFeedWebcalUrl = (token: string) => calendarFeedUrl(token).replace(/^https:/, "webcal:");
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsComponent {
+  type: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+// Wall-clock time kept in the UTC fields of a Date, plus the zone it is in:
+// "UTC", a TZID, or null for floating times that follow the device
+interface WallClock {
+  time: Date;
+  zone: string | null;
+  allDay: boolean;
+}
+
+export interface IcsEvent {
+  // UID, with the original start appended for occurrences of a recurrence
+  uid: string;
+  title: string;
+  description?: string;
+  location?: string;
+  categories: string[];
+  start_date: string;
+  end_date?: string;
+  allDay: boolean;
+  recurring: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const unescapeText = (value: string) =>
+  value.replace(/\\(.)/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+// Splits on a separator except inside double quotes (parameter values)
+const splitOutsideQuotes = (value: string, separator: string) => {
+  const parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (const char of value) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === separator && !inQuotes) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+};
+
+const parseProperty = (line: string): IcsProperty | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...params] = splitOutsideQuotes(line.slice(0, colon), ";");
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(params.map(param => {
+      const [key, ...rest] = param.split("=");
+      return [key.toUpperCase(), rest.join("=").replace(/^"|"$/g, "")];
+    })),
+    value: line.slice(colon + 1)
+  };
+};
+
+const parseComponents = (text: string): IcsComponent => {
+  const root: IcsComponent = { type: "ROOT", properties: [], components: [] };
+  const stack = [root];
+
+  // Continuation lines start with a space or tab
+  const lines = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+
+  lines.forEach(line => {
+    if (!line.trim()) return;
+    const property = parseProperty(line);
+    if (!property) return;
+
+    const current = stack[stack.length - 1];
+    if (property.name === "BEGIN") {
+      const component: IcsComponent = { type: property.value.toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === "END") {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  });
+
+  return root;
+};
+
+const getProperty = (component: IcsComponent, name: string) =>
+  component.properties.find(property => property.name === name);
+
+const getText = (component: IcsComponent, name: string) => {
+  const property = getProperty(component, name);
+  return property ? unescapeText(property.value).trim() : undefined;
+};
+
+const parseWallClock = (value: string, params: Record<string, string>): WallClock | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  return {
+    time: new Date(Date.UTC(+year, +month - 1, +day, +(hour || 0), +(minute || 0), +(second || 0))),
+    zone: utc ? "UTC" : params.TZID || null,
+    allDay: !hour
+  };
+};
+
+const parseOffset = (value: string) => {
+  const match = value.match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) return 0;
+  const [, sign, hours, minutes, seconds] = match;
+  return (sign === "-" ? -1 : 1) * ((+hours * 60 + +minutes) * 60 + +(seconds || 0)) * 1000;
+};
+
+const parseDuration = (value: string) => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((+(weeks || 0) * 7 + +(days || 0)) * 24 * 3600 + +(hours || 0) * 3600 + +(minutes || 0) * 60 + +(seconds || 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+};
+
+const parseRule = (value: string) => Object.fromEntries(
+  value.split(";").filter(Boolean).map(part => {
+    const [key, ...rest] = part.split("=");
+    return [key.toUpperCase(), rest.join("=").toUpperCase()];
+  })
+);
+
+// BYDAY entries like "MO", "2TU" or "-1FR"
+const parseByDay = (value?: string) => (value || "").split(",").filter(Boolean).map(entry => {
+  const match = entry.match(/^([+-]?\d+)?([A-Z]{2})$/);
+  return match ? { ordinal: match[1] ? +match[1] : null, weekday: WEEKDAYS.indexOf(match[2]) } : null;
+}).filter((entry): entry is { ordinal: number | null; weekday: number } => !!entry && entry.weekday >= 0);
+
+const withDate = (time: Date, year: number, month: number, day: number) => {
+  const result = new Date(Date.UTC(year, month, day, time.getUTCHours(), time.getUTCMinutes(), time.getUTCSeconds()));
+  // Day 31 in a 30-day month and the like don't exist
+  return result.getUTCMonth() === ((month % 12) + 12) % 12 ? result : null;
+};
+
+// Days of a month matching a BYDAY entry: every Monday, the 2nd Tuesday, the last Friday...
+const weekdaysInMonth = (year: number, month: number, weekday: number, ordinal: number | null) => {
+  const days: number[] = [];
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  for (let day = 1; day <= daysInMonth; day++) {
+    if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) days.push(day);
+  }
+  if (ordinal === null) return days;
+  const day = ordinal > 0 ? days[ordinal - 1] : days[days.length + ordinal];
+  return day ? [day] : [];
+};
+
+const isKnownTimeZone = (zone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Offset of an IANA zone at an instant, read back through Intl
+const intlOffset = (zone: string, instant: number) => {
+  if (!zoneFormatters.has(zone)) {
+    zoneFormatters.set(zone, new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit"
+    }));
+  }
+  const parts = zoneFormatters.get(zone).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour") % 24, get("minute"), get("second"));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * Offset of a VTIMEZONE at a wall-clock time: the STANDARD or DAYLIGHT
+ * block with the latest onset before it wins. Onsets follow the block's
+ * yearly RRULE (BYMONTH plus BYDAY such as "-1SU"), which covers what
+ * calendar apps export for zones like "W. Europe Standard Time".
+ */
+const vtimezoneOffset = (zone: IcsComponent, time: Date) => {
+  const year = time.getUTCFullYear();
+  let latestOnset = -Infinity;
+  let offset: number | null = null;
+
+  for (const block of zone.components) {
+    const start = getProperty(block, "DTSTART");
+    const offsetTo = getProperty(block, "TZOFFSETTO");
+    const blockStart = start && parseWallClock(start.value, {});
+    if (!blockStart || !offsetTo) continue;
+
+    const onsets = [blockStart.time];
+    const rrule = getProperty(block, "RRULE");
+    if (rrule) {
+      const rule = parseRule(rrule.value);
+      const month = rule.BYMONTH ? +rule.BYMONTH - 1 : blockStart.time.getUTCMonth();
+      const [byDay] = parseByDay(rule.BYDAY);
+      for (const onsetYear of [year - 1, year]) {
+        const days = byDay ? weekdaysInMonth(onsetYear, month, byDay.weekday, byDay.ordinal) : [blockStart.time.getUTCDate()];
+        const onset = days.length > 0 ? withDate(blockStart.time, onsetYear, month, days[0]) : null;
+        if (onset && onset >= blockStart.time) onsets.push(onset);
+      }
+    }
+
+    for (const onset of onsets) {
+      if (onset <= time && onset.getTime() > latestOnset) {
+        latestOnset = onset.getTime();
+        offset = parseOffset(offsetTo.value);
+      }
+    }
+  }
+
+  if (offset !== null) return offset;
+  const fallback = zone.components.find(block => block.type === "STANDARD") || zone.components[0];
+  const offsetTo = fallback && getProperty(fallback, "TZOFFSETTO");
+  return offsetTo ? parseOffset(offsetTo.value) : 0;
+};
+
+const createZoneResolver = (timezones: IcsComponent[]) => {
+  const definitions = new Map(timezones.map(zone => [getText(zone, "TZID") || "", zone]));
+
+  // Turns a wall-clock time into a real instant
+  return (wallClock: WallClock): Date => {
+    const { time, zone, allDay } = wallClock;
+    if (zone === "UTC") return new Date(time);
+
+    const floating = () => new Date(
+      time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate(),
+      time.getUTCHours(), time.getUTCMinutes(), time.getUTCSeconds()
+    );
+    if (!zone || allDay) return floating();
+
+    // Exporters sometimes prefix zone names, e.g. "/Europe/Berlin"
+    const ianaZone = [zone, zone.replace(/^\/+/, "")].find(isKnownTimeZone);
+    if (ianaZone) {
+      // Refine once so times right after a DST change land correctly
+      const guess = time.getTime() - intlOffset(ianaZone, time.getTime());
+      return new Date(time.getTime() - intlOffset(ianaZone, guess));
+    }
+
+    const definition = definitions.get(zone);
+    return definition ? new Date(time.getTime() - vtimezoneOffset(definition, time)) : floating();
+  };
+};
+
+// Safety net for rules like FREQ=DAILY without COUNT or UNTIL
+const MAX_OCCURRENCES = 1000;
+const MAX_PERIODS = 20000;
+
+/**
+ * Wall-clock start times of a recurring event between `from` and `until`
+ * (instants). Supports DAILY, WEEKLY, MONTHLY and YEARLY rules with
+ * INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and BYMONTH; expanding in
+ * wall-clock time keeps occurrences at the same local hour across DST.
+ */
+const occurrenceStarts = (
+  start: WallClock,
+  rrule: string,
+  from: number,
+  until: number,
+  toInstant: (wallClock: WallClock) => Date
+) => {
+  const rule = parseRule(rrule);
+  const interval = Math.max(1, +rule.INTERVAL || 1);
+  const count = rule.COUNT ? +rule.COUNT : Infinity;
+  const untilClock = rule.UNTIL ? parseWallClock(rule.UNTIL, { TZID: start.zone || "" }) : null;
+  // A date-only UNTIL includes that whole day
+  const ruleUntil = untilClock
+    ? toInstant(untilClock).getTime() + (untilClock.allDay ? DAY_MS - 1 : 0)
+    : Infinity;
+  const byDay = parseByDay(rule.BYDAY);
+  const byMonthDay = (rule.BYMONTHDAY || "").split(",").filter(Boolean).map(Number);
+  const byMonth = rule.BYMONTH ? rule.BYMONTH.split(",").map(month => +month - 1) : null;
+  const first = start.time;
+
+  const daysOfMonth = (year: number, month: number) => {
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const days = byDay.length > 0
+      ? byDay.flatMap(entry => weekdaysInMonth(year, month, entry.weekday, entry.ordinal))
+      : byMonthDay.length > 0
+        ? byMonthDay.map(day => (day > 0 ? day : daysInMonth + day + 1))
+        : [first.getUTCDate()];
+    return days.map(day => withDate(first, year, month, day));
+  };
+
+  const starts: Date[] = [];
+  let matched = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    let candidates: (Date | null)[];
+    switch (rule.FREQ) {
+      case "DAILY":
+        candidates = [new Date(first.getTime() + period * interval * DAY_MS)];
+        break;
+      case "WEEKLY": {
+        // Weeks start on Monday
+        const weekStart = first.getTime() - ((first.getUTCDay() + 6) % 7) * DAY_MS + period * interval * 7 * DAY_MS;
+        const weekdays = byDay.length > 0 ? byDay.map(entry => entry.weekday) : [first.getUTCDay()];
+        candidates = weekdays.map(weekday => new Date(weekStart + ((weekday + 6) % 7) * DAY_MS));
+        break;
+      }
+      case "MONTHLY": {
+        const month = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + period * interval, 1));
+        candidates = daysOfMonth(month.getUTCFullYear(), month.getUTCMonth());
+        break;
+      }
+      case "YEARLY": {
+        const year = first.getUTCFullYear() + period * interval;
+        candidates = (byMonth || [first.getUTCMonth()]).flatMap(month => daysOfMonth(year, month));
+        break;
+      }
+      default:
+        return [first];
+    }
+
+    const sorted = candidates
+      .filter((candidate): candidate is Date => !!candidate && candidate >= first)
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    for (const candidate of sorted) {
+      const instant = toInstant({ ...start, time: candidate }).getTime();
+      if (matched >= count || instant > ruleUntil || instant > until || starts.length >= MAX_OCCURRENCES) {
+        return starts;
+      }
+      matched++;
+      if (instant >= from) starts.push(candidate);
+    }
+  }
+
+  return starts;
+};
+
+// Start and length of a VEVENT; all-day lengths stay in wall-clock days
+const eventTiming = (vevent: IcsComponent, toInstant: (wallClock: WallClock) => Date) => {
+  const startProperty = getProperty(vevent, "DTSTART");
+  const start = startProperty && parseWallClock(startProperty.value, startProperty.params);
+  if (!start) return null;
+
+  const endProperty = getProperty(vevent, "DTEND");
+  const end = endProperty && parseWallClock(endProperty.value, endProperty.params);
+  const durationProperty = getProperty(vevent, "DURATION");
+  const fallback = start.allDay ? DAY_MS : 0;
+
+  let duration = fallback;
+  if (end) {
+    duration = start.allDay
+      ? end.time.getTime() - start.time.getTime()
+      : toInstant(end).getTime() - toInstant(start).getTime();
+  } else if (durationProperty) {
+    duration = parseDuration(durationProperty.value) ?? fallback;
+  }
+
+  return { start, duration: Math.max(0, duration) };
+};
+
+const buildEvent = (
+  vevent: IcsComponent,
+  uid: string,
+  start: WallClock,
+  duration: number,
+  recurring: boolean,
+  toInstant: (wallClock: WallClock) => Date
+): IcsEvent => {
+  const startDate = toInstant(start);
+  let endDate: Date | null = null;
+
+  if (start.allDay) {
+    // All-day ends are exclusive; multi-day events end late on their last day
+    if (duration > DAY_MS) {
+      endDate = new Date(toInstant({ ...start, time: new Date(start.time.getTime() + duration) }).getTime() - 60 * 1000);
+    }
+  } else if (duration > 0) {
+    endDate = new Date(startDate.getTime() + duration);
+  }
+
+  const categories = vevent.properties
+    .filter(property => property.name === "CATEGORIES")
+    .flatMap(property => splitOutsideQuotes(property.value, ",").map(unescapeText))
+    .map(category => category.trim())
+    .filter(Boolean);
+
+  return {
+    uid,
+    title: getText(vevent, "SUMMARY") || "Untitled event",
+    description: getText(vevent, "DESCRIPTION") || undefined,
+    location: getText(vevent, "LOCATION") || undefined,
+    categories,
+    start_date: startDate.toISOString(),
+    end_date: endDate?.toISOString(),
+    allDay: start.allDay,
+    recurring
+  };
+};
+
+const isCancelled = (vevent: IcsComponent) => getText(vevent, "STATUS")?.toUpperCase() === "CANCELLED";
+
+/**
+ * Reads the VEVENTs of an .ics file into plain events between `from` and
+ * `until`. TZID times are converted through the device's time zone
+ * database, falling back to the file's VTIMEZONE blocks for non-IANA
+ * names. Recurring events become one event per occurrence, keyed by UID
+ * and original start, honouring EXDATE, RDATE and moved or cancelled
+ * occurrences (RECURRENCE-ID). Cancelled events are left out.
+ */
+export const parseIcs = (text: string, from: Date, until: Date): IcsEvent[] => {
+  const root = parseComponents(text);
+  const calendars = root.components.filter(component => component.type === "VCALENDAR");
+  const components = (calendars.length > 0 ? calendars : [root]).flatMap(calendar => calendar.components);
+  const toInstant = createZoneResolver(components.filter(component => component.type === "VTIMEZONE"));
+  const vevents = components.filter(component => component.type === "VEVENT");
+
+  const occurrenceKey = (uid: string, start: WallClock) => `${uid}#${toInstant(start).toISOString()}`;
+
+  const overrides = new Map<string, IcsComponent>();
+  vevents.forEach(vevent => {
+    const recurrenceId = getProperty(vevent, "RECURRENCE-ID");
+    const uid = getText(vevent, "UID");
+    const original = recurrenceId && parseWallClock(recurrenceId.value, recurrenceId.params);
+    if (uid && original) overrides.set(occurrenceKey(uid, original), vevent);
+  });
+
+  const inWindow = (event: IcsEvent) =>
+    new Date(event.end_date || event.start_date) >= from && new Date(event.start_date) <= until;
+
+  const events: IcsEvent[] = [];
+
+  vevents.forEach(vevent => {
+    if (getProperty(vevent, "RECURRENCE-ID")) return;
+
+    const timing = eventTiming(vevent, toInstant);
+    if (!timing) return;
+    const { start, duration } = timing;
+
+    // Files without UIDs still re-import onto the same rows
+    const uid = getText(vevent, "UID") || `${getText(vevent, "SUMMARY") || ""}@${start.time.toISOString()}`;
+    const rrule = getProperty(vevent, "RRULE");
+    const rdates = vevent.properties.filter(property => property.name === "RDATE");
+
+    if (!rrule && rdates.length === 0) {
+      if (isCancelled(vevent)) return;
+      const event = buildEvent(vevent, uid, start, duration, false, toInstant);
+      if (inWindow(event)) events.push(event);
+      return;
+    }
+
+    const excluded = new Set(vevent.properties
+      .filter(property => property.name === "EXDATE")
+      .flatMap(property => property.value.split(",").map(value => parseWallClock(value, property.params)))
+      .filter((clock): clock is WallClock => !!clock)
+      .map(clock => occurrenceKey(uid, { ...clock, allDay: start.allDay })));
+
+    const starts = rrule
+      ? occurrenceStarts(start, rrule.value, from.getTime() - duration, until.getTime(), toInstant)
+      : [start.time];
+    rdates.forEach(property => property.value.split(",").forEach(value => {
+      const clock = parseWallClock(value, property.params);
+      if (clock) starts.push(clock.time);
+    }));
+
+    new Set(starts.map(time => time.getTime())).forEach(time => {
+      const occurrence: WallClock = { ...start, time: new Date(time) };
+      const key = occurrenceKey(uid, occurrence);
+      if (excluded.has(key)) return;
+
+      const override = overrides.get(key);
+      if (override) {
+        const overrideTiming = eventTiming(override, toInstant);
+        if (isCancelled(override) || !overrideTiming) return;
+        const event = buildEvent(override, key, overrideTiming.start, overrideTiming.duration, true, toInstant);
+        if (inWindow(event)) events.push(event);
+        return;
+      }
+
+      if (isCancelled(vevent)) return;
+      const event = buildEvent(vevent, key, occurrence, duration, true, toInstant);
+      if (inWindow(event)) events.push(event);
+    });
+  });
+
+  return events.sort((a, b) => a.start_date.localeCompare(b.start_date));
+};
@@ -0,0 +1,52 @@
+import { EquipmentType } from "@/lib/equipmentTypes";
+
+export const PACKING_EVENT_TYPES = ["gig", "show", "rehearsal"];
+
+interface PackingInstrument {
+  id: string;
+  name: string;
+  type: string;
+}
+
+interface PackingSupply {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface GeneratedPackingItem {
+  name: string;
+  category: "instrument" | "supply";
+  equipment_id?: string;
+  cleaning_equipment_id?: string;
+}
+
+/**
+ * Picked instruments first, then every supply the user owns whose type one
+ * of those instruments needs according to the equipment type catalog (each
+ * supply listed once).
+ */
+export const buildPackingList = (
+  instruments: PackingInstrument[],
+  supplies: PackingSupply[],
+  equipmentTypes: EquipmentType[]
+): GeneratedPackingItem[] => {
+  const supplyTypesFor = (typeId: string) =>
+    (equipmentTypes.find(type => type.id === typeId) || equipmentTypes.find(type => type.id === 'other'))?.supply_types || [];
+  const neededTypes = new Set(instruments.flatMap(item => supplyTypesFor(item.type)));
+
+  return [
+    ...instruments.map(item => ({
+      name: item.name,
+      category: "instrument" as const,
+      equipment_id: item.id
+    })),
+    ...supplies
+      .filter(supply => neededTypes.has(supply.type))
+      .map(supply => ({
+        name: supply.name,
+        category: "supply" as const,
+        cleaning_equipment_id: supply.id
+      }))
+  ];
+};
@@ -0,0 +1,32 @@
+import { supabase } from "@/integrations/supabase/client";
+
+const EQUIPMENT_PHOTOS_PREFIX = "/storage/v1/object/public/equipment-photos/";
+
+// Object path inside the equipment-photos bucket for one of its public URLs
+export const getEquipmentPhotoPath = (publicUrl: string) => {
+  const index = publicUrl.indexOf(EQUIPMENT_PHOTOS_PREFIX);
+  return index === -1 ? publicUrl : decodeURIComponent(publicUrl.slice(index + EQUIPMENT_PHOTOS_PREFIX.length));
+};
+
+// Uploads a file to the equipment-photos bucket under the given path prefix
+// and returns its public URL. The suffix keeps several uploads in the same
+// second from colliding.
+export const uploadEquipmentPhoto = async (file: File, pathPrefix: string) => {
+  const fileExt = file.name.split('.').pop();
+  const fileName = `${pathPrefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from('equipment-photos')
+    .upload(fileName, file, {
+      cacheControl: '3600',
+      upsert: false
+    });
+
+  if (error) throw error;
+
+  const { data } = supabase.storage
+    .from('equipment-photos')
+    .getPublicUrl(fileName);
+
+  return data.publicUrl;
+};
@@ -0,0 +1,614 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Users, Crown, User, UserPlus, Trash2, LogOut, Edit, Calendar, MapPin, Music } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useEquipmentTypes } from "@/hooks/useEquipmentTypes";
+import { format } from "date-fns";
+
+interface BandInfo {
+  id: string;
+  name: string;
+  description?: string;
+  avatar_url?: string;
+}
+
+interface BandMember {
+  id: string;
+  user_id: string;
+  role: string;
+}
+
+interface MemberProfile {
+  user_id: string;
+  username: string;
+  display_name: string;
+  avatar_url: string;
+}
+
+interface BandEvent {
+  id: string;
+  title: string;
+  event_type: string;
+  start_date: string;
+  location?: string;
+}
+
+interface BandEquipment {
+  id: string;
+  name: string;
+  type: string;
+  icon?: string;
+  next_cleaning_due?: string;
+}
+
+const eventTypeIcons = {
+  gig: "🎸",
+  show: "🎭",
+  jam: "🎵",
+  rehearsal: "🎶",
+  recording: "🎙️",
+  other: "📅"
+};
+
+const Band = () => {
+  const { bandId } = useParams();
+  const navigate = useNavigate();
+  const [band, setBand] = useState<BandInfo | null>(null);
+  const [members, setMembers] = useState<BandMember[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, MemberProfile>>({});
+  const [events, setEvents] = useState<BandEvent[]>([]);
+  const [bandEquipment, setBandEquipment] = useState<BandEquipment[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [memberSearch, setMemberSearch] = useState("");
+  const [searchResults, setSearchResults] = useState<MemberProfile[]>([]);
+  const [followerIds, setFollowerIds] = useState<string[]>([]);
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [editForm, setEditForm] = useState({ name: "", description: "" });
+  const { toast } = useToast();
+  const { getEquipmentIcon } = useEquipmentTypes();
+
+  useEffect(() => {
+    if (bandId) fetchBand();
+  }, [bandId]);
+
+  const ownMembership = members.find(member => member.user_id === currentUserId);
+  const isAdmin = ownMembership?.role === 'admin';
+
+  const fetchBand = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        navigate('/auth');
+        return;
+      }
+      setCurrentUserId(user.id);
+
+      const { data: bandData, error } = await supabase
+        .from('bands')
+        .select('*')
+        .eq('id', bandId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setBand(bandData);
+      if (!bandData) return;
+
+      const lineUp = await fetchMembers();
+
+      // Events and gear are only visible to members
+      if (lineUp.some(member => member.user_id === user.id)) {
+        fetchEvents();
+        fetchBandEquipment();
+        fetchFollowers(user.id);
+      } else {
+        setEvents([]);
+        setBandEquipment([]);
+      }
+    } catch (error) {
+      console.error('Error fetching band:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load band",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchMembers = async () => {
+    const { data, error } = await supabase
+      .from('band_members')
+      .select('id, user_id, role')
+      .eq('band_id', bandId)
+      .order('created_at');
+
+    if (error) throw error;
+    const lineUp = data || [];
+    setMembers(lineUp);
+
+    if (lineUp.length > 0) {
+      const { data: profileData } = await supabase
+        .rpc('get_public_profiles', { profile_user_ids: lineUp.map(member => member.user_id) });
+
+      setProfiles(Object.fromEntries((profileData || []).map(profile => [profile.user_id, profile])));
+    }
+
+    return lineUp;
+  };
+
+  const fetchEvents = async () => {
+    const { data, error } = await supabase
+      .from('events')
+      .select('id, title, event_type, start_date, location')
+      .eq('band_id', bandId)
+      .gte('start_date', new Date().toISOString())
+      .order('start_date')
+      .limit(10);
+
+    if (error) {
+      console.error('Error fetching band events:', error);
+      return;
+    }
+    setEvents(data || []);
+  };
+
+  const fetchBandEquipment = async () => {
+    const { data: group, error: groupError } = await supabase
+      .from('equipment_groups')
+      .select('id')
+      .eq('band_id', bandId)
+      .maybeSingle();
+
+    if (groupError || !group) {
+      if (groupError) console.error('Error fetching band equipment group:', groupError);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('equipment')
+      .select('id, name, type, icon, next_cleaning_due')
+      .eq('group_id', group.id)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching band equipment:', error);
+      return;
+    }
+    setBandEquipment(data || []);
+  };
+
+  // Only people who follow the user can be added to the band
+  const fetchFollowers = async (userId: string) => {
+    const { data } = await supabase
+      .from('followers')
+      .select('follower_id')
+      .eq('following_id', userId);
+
+    setFollowerIds((data || []).map(follower => follower.follower_id));
+  };
+
+  const handleSearch = async (query: string) => {
+    setMemberSearch(query);
+    if (!query.trim()) {
+      setSearchResults([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .rpc('search_public_profiles', {
+        search_query: query,
+        current_user_id: currentUserId
+      });
+
+    if (error) {
+      console.error('Error searching users:', error);
+      return;
+    }
+    setSearchResults((data || [])
+      .filter(result => followerIds.includes(result.user_id) && !members.some(member => member.user_id === result.user_id))
+      .slice(0, 5));
+  };
+
+  const handleAddMember = async (userId: string) => {
+    try {
+      const { error } = await supabase
+        .from('band_members')
+        .insert({ band_id: bandId, user_id: userId, role: 'member' });
+
+      if (error) throw error;
+      setMemberSearch("");
+      setSearchResults([]);
+      fetchMembers();
+    } catch (error) {
+      console.error('Error adding band member:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add member. They need to follow you and not be in the band already.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRoleChange = async (member: BandMember) => {
+    try {
+      const { error } = await supabase
+        .from('band_members')
+        .update({ role: member.role === 'admin' ? 'member' : 'admin' })
+        .eq('id', member.id);
+
+      if (error) throw error;
+      fetchMembers();
+    } catch (error) {
+      console.error('Error changing band role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to change role. A band needs at least one admin.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRemoveMember = async (member: BandMember) => {
+    try {
+      const { error } = await supabase
+        .from('band_members')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+      if (member.user_id === currentUserId) {
+        toast({
+          title: "Success",
+          description: `You left ${band?.name}`
+        });
+        fetchBand();
+      } else {
+        fetchMembers();
+      }
+    } catch (error) {
+      console.error('Error removing band member:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove member. A band needs at least one admin.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const openEditDialog = () => {
+    setEditForm({ name: band?.name || "", description: band?.description || "" });
+    setIsEditDialogOpen(true);
+  };
+
+  const handleUpdateBand = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editForm.name.trim()) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('bands')
+        .update({ name: editForm.name.trim(), description: editForm.description || null })
+        .eq('id', bandId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      setBand(data);
+      setIsEditDialogOpen(false);
+    } catch (error) {
+      console.error('Error updating band:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update band",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteBand = async () => {
+    try {
+      // Band events stay on their creators' calendars; band gear stays
+      // with whoever added it
+      const { error } = await supabase
+        .from('bands')
+        .delete()
+        .eq('id', bandId);
+
+      if (error) throw error;
+      toast({
+        title: "Success",
+        description: "Band deleted"
+      });
+      navigate('/profile');
+    } catch (error) {
+      console.error('Error deleting band:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete band",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getMemberName = (userId: string) => {
+    if (userId === currentUserId) return 'You';
+    const profile = profiles[userId];
+    return profile?.display_name || profile?.username || 'Member';
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background text-foreground gradient-hero flex items-center justify-center">
+        <div className="text-xl">Loading band...</div>
+      </div>
+    );
+  }
+
+  if (!band) {
+    return (
+      <div className="min-h-screen bg-background text-foreground gradient-hero flex flex-col items-center justify-center gap-4">
+        <div className="text-xl">Band not found</div>
+        <Button variant="outline" onClick={() => navigate('/home')}>Go Home</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground gradient-hero">
+      {/* Header */}
+      <div className="px-6 pt-6 pb-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                if (window.history.length > 1) {
+                  navigate(-1);
+                } else {
+                  navigate('/home');
+                }
+              }}
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <h1 className="text-2xl font-bold text-foreground">{band.name}</h1>
+          </div>
+          {isAdmin && (
+            <Button variant="ghost" size="sm" onClick={openEditDialog}>
+              <Edit className="w-5 h-5 text-accent" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="px-6 space-y-6 pb-6">
+        {/* Band Info */}
+        <div className="bg-card/50 backdrop-blur-sm rounded-2xl p-6 border border-border/50">
+          <div className="flex items-start space-x-4">
+            <div className="w-20 h-20 bg-accent/20 rounded-full flex items-center justify-center overflow-hidden">
+              {band.avatar_url ? (
+                <img src={band.avatar_url} alt={band.name} className="w-full h-full object-cover" />
+              ) : (
+                <Users className="w-10 h-10 text-accent" />
+              )}
+            </div>
+            <div className="flex-1">
+              <h2 className="text-foreground text-xl font-bold">{band.name}</h2>
+              <p className="text-sm text-muted-foreground mb-2">
+                {members.length} member{members.length === 1 ? '' : 's'}
+              </p>
+              {band.description && (
+                <p className="text-sm text-muted-foreground">{band.description}</p>
+              )}
+              {ownMembership && (
+                <Button variant="outline" size="sm" className="mt-3" onClick={() => handleRemoveMember(ownMembership)}>
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Leave Band
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Members */}
+        <Card className="glass-card">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Users className="w-5 h-5 text-blue-500" />
+              Members
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {members.map((member) => (
+              <div key={member.id} className="flex items-center gap-3 p-2 rounded-lg bg-accent/5">
+                <div
+                  className="flex items-center gap-3 flex-1 min-w-0 cursor-pointer"
+                  onClick={() => navigate(`/profile/${member.user_id}`)}
+                >
+                  <Avatar className="w-8 h-8">
+                    <AvatarImage src={profiles[member.user_id]?.avatar_url} />
+                    <AvatarFallback>
+                      <User className="w-4 h-4" />
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="font-semibold text-sm truncate">{getMemberName(member.user_id)}</span>
+                  {member.role === 'admin' && <Crown className="w-4 h-4 text-yellow-500 flex-shrink-0" />}
+                </div>
+                {isAdmin ? (
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => handleRoleChange(member)}>
+                    {member.role === 'admin' ? 'Admin' : 'Member'}
+                  </Button>
+                ) : (
+                  <Badge variant="outline" className="text-xs capitalize">{member.role}</Badge>
+                )}
+                {isAdmin && member.user_id !== currentUserId && (
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleRemoveMember(member)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            {isAdmin && (
+              <div className="space-y-1 pt-2">
+                <Label htmlFor="add-band-member" className="text-xs">Add member</Label>
+                <Input
+                  id="add-band-member"
+                  value={memberSearch}
+                  onChange={(e) => handleSearch(e.target.value)}
+                  placeholder="Search your followers by username"
+                />
+                {searchResults.map((result) => (
+                  <button
+                    key={result.user_id}
+                    type="button"
+                    className="w-full flex items-center gap-2 p-2 rounded text-left text-sm hover:bg-muted"
+                    onClick={() => handleAddMember(result.user_id)}
+                  >
+                    <UserPlus className="w-4 h-4 text-primary" />
+                    {result.display_name || result.username}
+                    <span className="text-xs text-muted-foreground">@{result.username}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {ownMembership && (
+          <>
+            {/* Upcoming Events */}
+            <Card className="glass-card">
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center justify-between text-lg">
+                  <span className="flex items-center gap-2">
+                    <Calendar className="w-5 h-5 text-accent" />
+                    Upcoming Events
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => navigate('/calendar')}>
+                    Calendar
+                  </Button>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {events.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    No upcoming band events. Add one from the calendar and pick this band.
+                  </p>
+                ) : (
+                  events.map((event) => (
+                    <div key={event.id} className="flex items-center gap-3 p-2 rounded-lg bg-accent/5">
+                      <span className="text-lg">
+                        {eventTypeIcons[event.event_type as keyof typeof eventTypeIcons] || "📅"}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium truncate">{event.title}</div>
+                        <div className="text-xs text-muted-foreground flex items-center gap-1">
+                          {format(new Date(event.start_date), 'MMM d, HH:mm')}
+                          {event.location && (
+                            <>
+                              <MapPin className="w-3 h-3 ml-1" />
+                              {event.location}
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Band Equipment */}
+            <Card className="glass-card">
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Music className="w-5 h-5 text-accent" />
+                  Band Equipment
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {bandEquipment.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    No band equipment yet. {isAdmin ? 'Share gear with the band from the Equipment page.' : 'Band admins can share gear with the band.'}
+                  </p>
+                ) : (
+                  bandEquipment.map((item) => (
+                    <div
+                      key={item.id}
+                      className="flex items-center gap-3 p-2 rounded-lg bg-accent/5 cursor-pointer hover:bg-accent/10"
+                      onClick={() => navigate('/equipment')}
+                    >
+                      <span className="text-lg">
+                        {getEquipmentIcon(item.icon)}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium truncate">{item.name}</div>
+                        <div className="text-xs text-muted-foreground capitalize">{item.type}</div>
+                      </div>
+                      {item.next_cleaning_due && (
+                        <span className="text-xs text-muted-foreground">
+                          Due {format(new Date(item.next_cleaning_due), 'MMM d')}
+                        </span>
+                      )}
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {isAdmin && (
+          <Button variant="outline" className="w-full text-destructive" onClick={handleDeleteBand}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete Band
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit Band</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleUpdateBand} className="space-y-4">
+            <div>
+              <Label htmlFor="band-name">Name</Label>
+              <Input
+                id="band-name"
+                value={editForm.name}
+                onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="band-description">Description</Label>
+              <Textarea
+                id="band-description"
+                value={editForm.description}
+                onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <Button type="submit" className="w-full">Save</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Band;
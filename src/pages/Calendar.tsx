@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -8,10 +9,18 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Calendar as CalendarIcon, Clock, Music, ChevronLeft, ChevronRight, Plus, MapPin, Edit, Trash } from "lucide-react";
+import { Calendar as CalendarIcon, Clock, Music, ChevronLeft, ChevronRight, Plus, MapPin, Edit, Trash, CheckCircle, Circle, Package, Users, Rss, Download, Upload } from "lucide-react";
 import { format, addDays, addMonths, subMonths, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, isToday, isSameMonth, parse } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useEquipmentTypes } from "@/hooks/useEquipmentTypes";
+import EventPackingList from "@/components/EventPackingList";
+import CalendarSubscription from "@/components/CalendarSubscription";
+import EventIcsImport from "@/components/EventIcsImport";
+import { PACKING_EVENT_TYPES } from "@/lib/packingList";
+import { fetchBandMemberships, ownOrBandEventsFilter, BandMembership } from "@/lib/bands";
+import { fetchEquipmentGroupAccess, ownOrSharedFilter } from "@/lib/equipmentGroups";
+import { buildEventIcs, downloadIcs } from "@/lib/ical";
 
 interface Equipment {
   id: string;
@@ -21,6 +30,8 @@ interface Equipment {
   cleaning_frequency_days: number;
   next_cleaning_due?: string;
   notifications_enabled: boolean;
+  schedule_mode?: string;
+  usage_interval?: number;
 }
 
 interface CleaningEvent {
@@ -44,24 +55,31 @@ interface Event {
   end_date?: string;
   location?: string;
   user_id: string;
+  band_id?: string;
   created_at: string;
   updated_at: string;
+  packing_list_shared?: boolean;
+  ical_uid?: string;
+  event_equipment?: {
+    id: string;
+    equipment_id: string;
+    clean_before_log_id?: string;
+    clean_after_log_id?: string;
+  }[];
 }
 
-const equipmentIcons = {
-  guitar: "🎸",
-  drums: "🥁", 
-  microphone: "🎤",
-  speaker: "🔊",
-  keyboard: "🎹",
-  violin: "🎻",
-  trumpet: "🎺",
-  saxophone: "🎷",
-  amplifier: "📢",
-  mixer: "🎛️",
-  headphones: "🎧",
-  other: "🎵"
-};
+interface EventCleaningTask {
+  id: string;
+  eventEquipmentId: string;
+  eventTitle: string;
+  equipmentId: string;
+  equipmentName: string;
+  equipmentType: string;
+  equipmentIcon?: string;
+  kind: 'before' | 'after';
+  date: Date;
+  completed: boolean;
+}
 
 const eventTypeIcons = {
   gig: "🎸",
@@ -73,6 +91,7 @@ const eventTypeIcons = {
 };
 
 const Calendar = () => {
+  const navigate = useNavigate();
   const [equipment, setEquipment] = useState<Equipment[]>([]);
   const [cleaningEvents, setCleaningEvents] = useState<CleaningEvent[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
@@ -81,6 +100,10 @@ const Calendar = () => {
   const [loading, setLoading] = useState(true);
   const [showEventDialog, setShowEventDialog] = useState(false);
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  const [packingEvent, setPackingEvent] = useState<Event | null>(null);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [bands, setBands] = useState<BandMembership[]>([]);
   const [eventForm, setEventForm] = useState({
     title: '',
     description: '',
@@ -90,9 +113,12 @@ const Calendar = () => {
     end_date: '',
     end_time: '',
     location: '',
-    share_with_followers: false
+    share_with_followers: false,
+    equipment_ids: [] as string[],
+    band_id: ''
   });
   const { toast } = useToast();
+  const { getEquipmentIcon } = useEquipmentTypes();
 
   useEffect(() => {
     fetchEquipment();
@@ -108,10 +134,13 @@ const Calendar = () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      // Includes band and household gear shared with the user
+      const { sharedEquipmentIds } = await fetchEquipmentGroupAccess(user.id);
+
       const { data, error } = await supabase
         .from('equipment')
         .select('*')
-        .eq('user_id', user.id)
+        .or(ownOrSharedFilter(user.id, sharedEquipmentIds, 'id'))
         .order('name');
 
       if (error) throw error;
@@ -132,10 +161,14 @@ const Calendar = () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      const memberships = await fetchBandMemberships(user.id);
+      setCurrentUserId(user.id);
+      setBands(memberships);
+
       const { data, error } = await supabase
         .from('events')
-        .select('*')
-        .eq('user_id', user.id)
+        .select('*, event_equipment(id, equipment_id, clean_before_log_id, clean_after_log_id)')
+        .or(ownOrBandEventsFilter(user.id, memberships.map(band => band.band_id)))
         .order('start_date');
 
       if (error) throw error;
@@ -159,6 +192,8 @@ const Calendar = () => {
 
       const startDate = new Date(item.next_cleaning_due);
       const frequency = item.cleaning_frequency_days;
+      // Usage-based due dates only exist up to the next cleaning
+      const isUsageBased = item.schedule_mode === 'hours' || item.schedule_mode === 'events';
       
       // Generate recurring events for up to one year
       let currentEventDate = new Date(startDate);
@@ -178,6 +213,8 @@ const Calendar = () => {
           notifications_enabled: item.notifications_enabled
         });
 
+        if (isUsageBased) break;
+
         // Add the frequency to get the next cleaning date
         currentEventDate = addDays(currentEventDate, frequency);
       }
@@ -188,10 +225,126 @@ const Calendar = () => {
     setCleaningEvents(events);
   };
 
+  // Each piece of equipment used at an event gets a clean-before task on the
+  // event day and a clean-after task on the day after it ends
+  const getEventCleaningTasks = () => {
+    const tasks: EventCleaningTask[] = [];
+
+    events.forEach((event) => {
+      (event.event_equipment || []).forEach((assignment) => {
+        const item = equipment.find(eq => eq.id === assignment.equipment_id);
+        if (!item) return;
+
+        const base = {
+          eventEquipmentId: assignment.id,
+          eventTitle: event.title,
+          equipmentId: item.id,
+          equipmentName: item.name,
+          equipmentType: item.type,
+          equipmentIcon: item.icon,
+        };
+
+        tasks.push({
+          ...base,
+          id: `${assignment.id}-before`,
+          kind: 'before',
+          date: new Date(event.start_date),
+          completed: !!assignment.clean_before_log_id,
+        });
+        tasks.push({
+          ...base,
+          id: `${assignment.id}-after`,
+          kind: 'after',
+          date: addDays(new Date(event.end_date || event.start_date), 1),
+          completed: !!assignment.clean_after_log_id,
+        });
+      });
+    });
+
+    return tasks;
+  };
+
   const getEventsForDate = (date: Date) => {
     const cleaningEventsForDate = cleaningEvents.filter(event => isSameDay(event.date, date));
     const regularEventsForDate = events.filter(event => isSameDay(new Date(event.start_date), date));
-    return { cleaningEvents: cleaningEventsForDate, events: regularEventsForDate };
+    const cleaningTasksForDate = getEventCleaningTasks().filter(task => isSameDay(task.date, date));
+    return { cleaningEvents: cleaningEventsForDate, events: regularEventsForDate, cleaningTasks: cleaningTasksForDate };
+  };
+
+  const handleCompleteCleaningTask = async (task: EventCleaningTask) => {
+    if (task.completed) return;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: log, error: logError } = await supabase
+        .from('cleaning_logs')
+        .insert([{
+          equipment_id: task.equipmentId,
+          user_id: user.id,
+          cleaned_at: new Date().toISOString(),
+          notes: `${task.kind === 'before' ? 'Before' : 'After'} ${task.eventTitle}`,
+        }])
+        .select()
+        .single();
+
+      if (logError) throw logError;
+
+      try {
+        // A ticked task is a full cleaning, so every checklist step is done
+        const { data: steps, error: stepsError } = await supabase
+          .from('equipment_cleaning_steps')
+          .select('id, title, position')
+          .eq('equipment_id', task.equipmentId)
+          .order('position');
+
+        if (stepsError) throw stepsError;
+
+        if (steps && steps.length > 0) {
+          const { error: logStepsError } = await supabase
+            .from('cleaning_log_steps')
+            .insert(steps.map(step => ({
+              cleaning_log_id: log.id,
+              step_id: step.id,
+              user_id: user.id,
+              title: step.title,
+              position: step.position,
+              completed: true,
+            })));
+
+          if (logStepsError) throw logStepsError;
+        }
+
+        // Row level security skips rows the user can't update without an
+        // error, so check the task was actually linked
+        const { data: linked, error } = await supabase
+          .from('event_equipment')
+          .update(task.kind === 'before'
+            ? { clean_before_log_id: log.id }
+            : { clean_after_log_id: log.id })
+          .eq('id', task.eventEquipmentId)
+          .select('id');
+
+        if (error) throw error;
+        if (!linked || linked.length === 0) throw new Error('Cleaning task could not be updated');
+      } catch (linkError) {
+        // Without the link the task stays open and would be logged again
+        await supabase.from('cleaning_logs').delete().eq('id', log.id);
+        throw linkError;
+      }
+
+      toast({ title: "Success", description: `${task.equipmentName} cleaned and logged` });
+      fetchEvents();
+      fetchEquipment();
+    } catch (error) {
+      console.error('Error completing cleaning task:', error);
+      toast({
+        title: "Error",
+        description: "Failed to log cleaning",
+        variant: "destructive",
+      });
+    }
   };
 
   const getEventsForMonth = () => {
@@ -239,12 +392,15 @@ const Calendar = () => {
         description: eventForm.description,
         event_type: eventForm.event_type,
         location: eventForm.location,
-        user_id: user.id,
+        // Band admins can edit events another member created
+        user_id: editingEvent ? editingEvent.user_id : user.id,
+        band_id: eventForm.band_id || null,
         start_date: startDateTime,
         end_date: endDateTime,
         share_with_followers: eventForm.share_with_followers,
       };
 
+      let eventId: string;
       if (editingEvent) {
         const { error } = await supabase
           .from('events')
@@ -252,16 +408,47 @@ const Calendar = () => {
           .eq('id', editingEvent.id);
         
         if (error) throw error;
-        toast({ title: "Success", description: "Event updated successfully" });
+        eventId = editingEvent.id;
       } else {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('events')
-          .insert([eventData]);
+          .insert([eventData])
+          .select()
+          .single();
         
         if (error) throw error;
-        toast({ title: "Success", description: "Event created successfully" });
+        eventId = data.id;
+      }
+
+      // Sync the equipment used at this event
+      const previousEquipmentIds = (editingEvent?.event_equipment || []).map(item => item.equipment_id);
+      const removedEquipmentIds = previousEquipmentIds.filter(id => !eventForm.equipment_ids.includes(id));
+      const addedEquipmentIds = eventForm.equipment_ids.filter(id => !previousEquipmentIds.includes(id));
+
+      if (removedEquipmentIds.length > 0) {
+        const { error } = await supabase
+          .from('event_equipment')
+          .delete()
+          .eq('event_id', eventId)
+          .in('equipment_id', removedEquipmentIds);
+
+        if (error) throw error;
+      }
+
+      if (addedEquipmentIds.length > 0) {
+        const { error } = await supabase
+          .from('event_equipment')
+          .insert(addedEquipmentIds.map(equipmentId => ({
+            event_id: eventId,
+            equipment_id: equipmentId,
+            user_id: user.id
+          })));
+
+        if (error) throw error;
       }
 
+      toast({ title: "Success", description: editingEvent ? "Event updated successfully" : "Event created successfully" });
+
       setShowEventDialog(false);
       setEditingEvent(null);
       setEventForm({
@@ -273,9 +460,13 @@ const Calendar = () => {
         end_date: '',
         end_time: '',
         location: '',
-        share_with_followers: false
+        share_with_followers: false,
+        equipment_ids: [],
+        band_id: ''
       });
       fetchEvents();
+      // Usage-based cleaning due dates depend on assigned events
+      fetchEquipment();
     } catch (error) {
       toast({
         title: "Error",
@@ -295,6 +486,7 @@ const Calendar = () => {
       if (error) throw error;
       toast({ title: "Success", description: "Event deleted successfully" });
       fetchEvents();
+      fetchEquipment();
     } catch (error) {
       toast({
         title: "Error",
@@ -304,6 +496,26 @@ const Calendar = () => {
     }
   };
 
+  const getEventBand = (event: Event) => {
+    return event.band_id ? bands.find(band => band.band_id === event.band_id) : undefined;
+  };
+
+  const canManageEvent = (event: Event) => {
+    return event.user_id === currentUserId || getEventBand(event)?.role === 'admin';
+  };
+
+  const handleEventsImported = () => {
+    setShowImportDialog(false);
+    fetchEvents();
+    // Usage-based cleaning due dates depend on assigned events
+    fetchEquipment();
+  };
+
+  const handleDownloadEvent = (event: Event) => {
+    const slug = event.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'event';
+    downloadIcs(`${slug}.ics`, buildEventIcs(event));
+  };
+
   const openEventDialog = (event?: Event, date?: Date) => {
     if (event) {
       setEditingEvent(event);
@@ -319,7 +531,9 @@ const Calendar = () => {
         end_date: endDate ? format(endDate, "yyyy-MM-dd") : '',
         end_time: endDate ? format(endDate, "HH:mm") : '',
         location: event.location || '',
-        share_with_followers: false
+        share_with_followers: false,
+        equipment_ids: (event.event_equipment || []).map(item => item.equipment_id),
+        band_id: event.band_id || ''
       });
     } else {
       setEditingEvent(null);
@@ -333,7 +547,9 @@ const Calendar = () => {
         end_date: '',
         end_time: '',
         location: '',
-        share_with_followers: false
+        share_with_followers: false,
+        equipment_ids: [],
+        band_id: ''
       });
     }
     setShowEventDialog(true);
@@ -355,6 +571,43 @@ const Calendar = () => {
           <div className="flex items-center gap-2 sm:gap-3">
             <CalendarIcon className="w-6 h-6 sm:w-8 sm:h-8 text-accent" />
             <h1 className="text-xl sm:text-3xl font-bold">Calendar</h1>
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm" className="ml-auto sm:ml-2">
+                  <Rss className="w-4 h-4 mr-2" />
+                  Subscribe
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                  <DialogTitle>Subscribe to Your Calendar</DialogTitle>
+                </DialogHeader>
+                <CalendarSubscription />
+              </DialogContent>
+            </Dialog>
+            <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Import Events from .ics</DialogTitle>
+                </DialogHeader>
+                <EventIcsImport
+                  events={events}
+                  bands={bands}
+                  eventTypeIcons={eventTypeIcons}
+                  canEditEvent={(eventId) => {
+                    const event = events.find(item => item.id === eventId);
+                    return !!event && canManageEvent(event);
+                  }}
+                  onImported={handleEventsImported}
+                />
+              </DialogContent>
+            </Dialog>
           </div>
           <Dialog open={showEventDialog} onOpenChange={setShowEventDialog}>
             <DialogTrigger asChild>
@@ -393,6 +646,27 @@ const Calendar = () => {
                     </SelectContent>
                   </Select>
                 </div>
+                {bands.length > 0 && (
+                  <div className="grid gap-2">
+                    <Label htmlFor="band">Band</Label>
+                    <Select value={eventForm.band_id || "none"} onValueChange={(value) => setEventForm(prev => ({ ...prev, band_id: value === "none" ? '' : value }))}>
+                      <SelectTrigger id="band">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Just me</SelectItem>
+                        {bands.map((band) => (
+                          <SelectItem key={band.band_id} value={band.band_id}>{band.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {eventForm.band_id && (
+                      <p className="text-xs text-muted-foreground">
+                        Shows up on every band member's calendar
+                      </p>
+                    )}
+                  </div>
+                )}
                 <div className="grid gap-2">
                   <Label htmlFor="start_date">Start Date</Label>
                   <Input
@@ -438,6 +712,38 @@ const Calendar = () => {
                     placeholder="Venue or location"
                   />
                 </div>
+                {equipment.length > 0 && (
+                  <div className="grid gap-2">
+                    <Label>Equipment Used</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {equipment.map((item) => {
+                        const isSelected = eventForm.equipment_ids.includes(item.id);
+                        return (
+                          <Button
+                            key={item.id}
+                            type="button"
+                            variant={isSelected ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => setEventForm(prev => ({
+                              ...prev,
+                              equipment_ids: isSelected
+                                ? prev.equipment_ids.filter(id => id !== item.id)
+                                : [...prev.equipment_ids, item.id]
+                            }))}
+                          >
+                            <span className="mr-1">{getEquipmentIcon(item.type)}</span>
+                            {item.name}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                    {eventForm.equipment_ids.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Clean-before and clean-after tasks will be added to your calendar
+                      </p>
+                    )}
+                  </div>
+                )}
                  <div className="grid gap-2">
                    <Label htmlFor="description">Description</Label>
                    <Textarea
@@ -521,7 +827,8 @@ const Calendar = () => {
                     const dayData = getEventsForDate(day);
                     const hasCleaningEvents = dayData.cleaningEvents.length > 0;
                     const hasRegularEvents = dayData.events.length > 0;
-                    const hasAnyEvents = hasCleaningEvents || hasRegularEvents;
+                    const hasOpenTasks = dayData.cleaningTasks.some(task => !task.completed);
+                    const hasAnyEvents = hasCleaningEvents || hasRegularEvents || hasOpenTasks;
                     const hasOverdue = dayData.cleaningEvents.some(e => e.isOverdue);
                     const hasDueToday = dayData.cleaningEvents.some(e => e.isDueToday);
                     
@@ -561,6 +868,10 @@ const Calendar = () => {
                                 className="w-1 h-1 sm:w-1.5 sm:h-1.5 rounded-full bg-accent"
                               />
                             ))}
+                            {/* Clean before/after tasks */}
+                            {!hasCleaningEvents && hasOpenTasks && (
+                              <div className="w-1 h-1 sm:w-1.5 sm:h-1.5 rounded-full bg-primary" />
+                            )}
                             {(dayData.cleaningEvents.length + dayData.events.length) > 1 && (
                               <div className="text-[8px] sm:text-xs leading-none">+{(dayData.cleaningEvents.length + dayData.events.length) - 1}</div>
                             )}
@@ -587,7 +898,7 @@ const Calendar = () => {
                 <CardContent>
                   {(() => {
                     const dayData = getEventsForDate(selectedDate);
-                    const hasAnyEvents = dayData.cleaningEvents.length > 0 || dayData.events.length > 0;
+                    const hasAnyEvents = dayData.cleaningEvents.length > 0 || dayData.events.length > 0 || dayData.cleaningTasks.length > 0;
                     
                     return hasAnyEvents ? (
                       <div className="space-y-4">
@@ -610,6 +921,16 @@ const Calendar = () => {
                                       <div className="text-sm text-muted-foreground capitalize">
                                         {event.event_type}
                                       </div>
+                                      {getEventBand(event) && (
+                                        <Badge
+                                          variant="outline"
+                                          className="text-xs gap-1 mt-1 cursor-pointer"
+                                          onClick={() => navigate(`/band/${event.band_id}`)}
+                                        >
+                                          <Users className="w-3 h-3" />
+                                          {getEventBand(event).name}
+                                        </Badge>
+                                      )}
                                       {event.location && (
                                         <div className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
                                           <MapPin className="w-3 h-3" />
@@ -625,23 +946,52 @@ const Calendar = () => {
                                         {format(new Date(event.start_date), 'HH:mm')}
                                         {event.end_date && ` - ${format(new Date(event.end_date), 'HH:mm')}`}
                                       </div>
+                                      {event.event_equipment && event.event_equipment.length > 0 && (
+                                        <div className="text-xs text-muted-foreground mt-1">
+                                          Using: {event.event_equipment
+                                            .map(item => equipment.find(eq => eq.id === item.equipment_id)?.name)
+                                            .filter(Boolean)
+                                            .join(', ')}
+                                        </div>
+                                      )}
                                     </div>
                                   </div>
                                   <div className="flex gap-1">
                                     <Button
                                       variant="ghost"
                                       size="sm"
-                                      onClick={() => openEventDialog(event)}
+                                      onClick={() => handleDownloadEvent(event)}
+                                      title="Add to calendar (.ics)"
                                     >
-                                      <Edit className="w-3 h-3" />
-                                    </Button>
-                                    <Button
-                                      variant="ghost"
-                                      size="sm"
-                                      onClick={() => handleDeleteEvent(event.id)}
-                                    >
-                                      <Trash className="w-3 h-3" />
+                                      <Download className="w-3 h-3" />
                                     </Button>
+                                    {PACKING_EVENT_TYPES.includes(event.event_type) && (
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => setPackingEvent(event)}
+                                      >
+                                        <Package className="w-3 h-3" />
+                                      </Button>
+                                    )}
+                                    {canManageEvent(event) && (
+                                      <>
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() => openEventDialog(event)}
+                                        >
+                                          <Edit className="w-3 h-3" />
+                                        </Button>
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() => handleDeleteEvent(event.id)}
+                                        >
+                                          <Trash className="w-3 h-3" />
+                                        </Button>
+                                      </>
+                                    )}
                                   </div>
                                 </div>
                               </div>
@@ -649,6 +999,39 @@ const Calendar = () => {
                           </div>
                         )}
                         
+                        {/* Clean Before/After Tasks */}
+                        {dayData.cleaningTasks.length > 0 && (
+                          <div className="space-y-2 sm:space-y-3">
+                            <h4 className="font-medium text-xs sm:text-sm text-muted-foreground">Event Prep & Cleanup</h4>
+                            {dayData.cleaningTasks.map((task) => (
+                              <button
+                                key={task.id}
+                                type="button"
+                                disabled={task.completed}
+                                onClick={() => handleCompleteCleaningTask(task)}
+                                className="w-full flex items-center gap-2 p-2 sm:p-3 rounded-lg border bg-primary/5 border-primary/30 text-left disabled:opacity-70"
+                              >
+                                {task.completed ? (
+                                  <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+                                ) : (
+                                  <Circle className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                                )}
+                                <span className="text-sm sm:text-lg">
+                                  {getEquipmentIcon(task.equipmentType)}
+                                </span>
+                                <div className="flex-1 min-w-0">
+                                  <div className={`font-medium text-sm sm:text-base ${task.completed ? 'line-through' : ''}`}>
+                                    Clean {task.equipmentName}
+                                  </div>
+                                  <div className="text-xs text-muted-foreground truncate">
+                                    {task.kind === 'before' ? 'Before' : 'After'} {task.eventTitle}
+                                  </div>
+                                </div>
+                              </button>
+                            ))}
+                          </div>
+                        )}
+
                         {/* Cleaning Events */}
                         {dayData.cleaningEvents.length > 0 && (
                           <div className="space-y-2 sm:space-y-3">
@@ -664,7 +1047,7 @@ const Calendar = () => {
                         >
                           <div className="flex items-center gap-1 sm:gap-2">
                             <span className="text-sm sm:text-lg">
-                              {equipmentIcons[event.equipmentType as keyof typeof equipmentIcons] || event.equipmentIcon || "🎵"}
+                              {getEquipmentIcon(event.equipmentType)}
                             </span>
                             <div className="flex-1">
                               <div className="font-medium text-sm sm:text-base">{event.equipmentName}</div>
@@ -738,6 +1121,7 @@ const Calendar = () => {
                                 <div className="text-xs text-muted-foreground">
                                   {format(new Date(event.start_date), 'MMM d, HH:mm')}
                                   {event.location && ` • ${event.location}`}
+                                  {getEventBand(event) && ` • ${getEventBand(event).name}`}
                                 </div>
                               </div>
                             </div>
@@ -760,7 +1144,7 @@ const Calendar = () => {
                         className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50"
                       >
                         <span className="text-lg">
-                          {equipmentIcons[event.equipmentType as keyof typeof equipmentIcons] || event.equipmentIcon || "🎵"}
+                          {getEquipmentIcon(event.equipmentType)}
                         </span>
                         <div className="flex-1 min-w-0">
                           <div className="font-medium truncate">{event.equipmentName}</div>
@@ -835,6 +1219,29 @@ const Calendar = () => {
             </Card>
           </div>
         </div>
+
+        {/* Packing List Dialog */}
+        <Dialog open={!!packingEvent} onOpenChange={(open) => !open && setPackingEvent(null)}>
+          <DialogContent className="sm:max-w-md max-h-[90vh] flex flex-col">
+            <DialogHeader className="flex-shrink-0">
+              <DialogTitle>Packing List: {packingEvent?.title}</DialogTitle>
+            </DialogHeader>
+            <div className="overflow-y-auto flex-1 min-h-0 p-1">
+              {packingEvent && (
+                <EventPackingList
+                  eventId={packingEvent.id}
+                  isOwner
+                  shared={!!packingEvent.packing_list_shared}
+                  defaultEquipmentIds={(packingEvent.event_equipment || []).map(item => item.equipment_id)}
+                  onSharedChange={(shared) => {
+                    setPackingEvent({ ...packingEvent, packing_list_shared: shared });
+                    setEvents(events.map(event => event.id === packingEvent.id ? { ...event, packing_list_shared: shared } : event));
+                  }}
+                />
+              )}
+            </div>
+          </DialogContent>
+        </Dialog>
       </div>
     </div>
   );
@@ -1,19 +1,39 @@
-import { useState, useEffect } from "react";
-import { Plus, Edit, Trash2, Camera, Bell, Calendar, Clock, Filter, SortAsc, CheckCircle, Target, Music, User } from "lucide-react";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { Plus, Edit, Trash2, Camera, Bell, Calendar, Clock, Filter, SortAsc, CheckCircle, Circle, AlertCircle, Target, Music, User, X, Plane, Users, BookOpen, Bookmark, Copy, Rows3, ListChecks, FileSpreadsheet } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { format } from "date-fns";
+import { useEquipmentTypes } from "@/hooks/useEquipmentTypes";
+import { ToastAction } from "@/components/ui/toast";
+import { format, parseISO } from "date-fns";
 import { notificationService } from "@/services/notificationService";
+import CleaningChecklistEditor, { CleaningStep } from "@/components/CleaningChecklistEditor";
+import SupplyRestockHistory from "@/components/SupplyRestockHistory";
+import EquipmentInsights from "@/components/EquipmentInsights";
+import FrequencySuggestion from "@/components/FrequencySuggestion";
+import MaintenanceTimeline from "@/components/MaintenanceTimeline";
+import CleaningPhotoTimeline from "@/components/CleaningPhotoTimeline";
+import CleaningLogEditDialog from "@/components/CleaningLogEditDialog";
+import CleaningPauses, { CleaningPause } from "@/components/CleaningPauses";
+import StreakFreezeButton from "@/components/StreakFreezeButton";
+import EquipmentGroupManager from "@/components/EquipmentGroupManager";
+import CleaningDelegates from "@/components/CleaningDelegates";
+import BulkAddEquipment from "@/components/BulkAddEquipment";
+import EquipmentBulkActions from "@/components/EquipmentBulkActions";
+import EquipmentCsvTransfer from "@/components/EquipmentCsvTransfer";
+import { getFrequencySuggestion } from "@/lib/cleaningFrequency";
+import { getEquipmentPhotoPath, uploadEquipmentPhoto } from "@/lib/storage";
+import { fetchEquipmentGroupAccess, ownOrSharedFilter, EquipmentGroupMembership } from "@/lib/equipmentGroups";
 
 // Debug: Verify User icon is imported
 console.log("User icon imported:", User);
@@ -33,6 +53,30 @@ interface Equipment {
   created_at: string;
   current_streak: number;
   best_streak: number;
+  schedule_mode?: string;
+  usage_interval?: number;
+  user_id: string;
+  group_id?: string;
+  assigned_to?: string;
+  auto_rotate_assignment?: boolean;
+  template_id?: string;
+}
+
+interface EquipmentTemplate {
+  id: string;
+  name: string;
+  type: string;
+  icon?: string;
+  description?: string;
+  cleaning_frequency_days: number;
+  schedule_mode: string;
+  usage_interval?: number;
+  steps: string[];
+}
+
+interface EquipmentUsage {
+  events_played: number;
+  hours_played: number;
 }
 
 interface CleaningEquipment {
@@ -50,6 +94,7 @@ interface CleaningEquipment {
   cost_per_unit?: number;
   supplier?: string;
   notes?: string;
+  low_stock_threshold?: number;
   show_on_profile: boolean;
   created_at: string;
   updated_at: string;
@@ -58,12 +103,20 @@ interface CleaningEquipment {
 interface CleaningLog {
   id: string;
   equipment_id: string;
+  user_id: string;
   cleaned_at: string;
   notes?: string;
   photo_url?: string;
+  is_partial: boolean;
+  streak_after_cleaning?: number;
   equipment?: { name: string; type: string };
+  steps?: { id: string; title: string; completed: boolean; position: number }[];
+  supplies?: { id: string; cleaning_equipment_id: string; quantity_used: number; supply?: { name: string; type: string } }[];
 }
 
+// How long a deleted cleaning can still be brought back
+const UNDO_WINDOW_MS = 6000;
+
 const cleaningEquipmentIcons = {
   cloth: "🧽",
   brush: "🧹", 
@@ -80,25 +133,12 @@ const cleaningEquipmentIcons = {
   other: "🧰"
 };
 
-const equipmentIcons = {
-  guitar: "🎸",
-  drums: "🥁", 
-  microphone: "🎤",
-  speaker: "🔊",
-  keyboard: "🎹",
-  violin: "🎻",
-  trumpet: "🎺",
-  saxophone: "🎷",
-  amplifier: "📢",
-  mixer: "🎛️",
-  headphones: "🎧",
-  other: "🎵"
-};
-
 const Equipment = () => {
   const [equipment, setEquipment] = useState<Equipment[]>([]);
   const [cleaningEquipment, setCleaningEquipment] = useState<CleaningEquipment[]>([]);
   const [cleaningLogs, setCleaningLogs] = useState<CleaningLog[]>([]);
+  const [cleaningSteps, setCleaningSteps] = useState<CleaningStep[]>([]);
+  const [equipmentUsage, setEquipmentUsage] = useState<Record<string, EquipmentUsage>>({});
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isCleaningDialogOpen, setIsCleaningDialogOpen] = useState(false);
@@ -120,10 +160,13 @@ const Equipment = () => {
     type: "",
     description: "",
     cleaning_frequency_days: 30,
+    schedule_mode: "days",
+    usage_interval: 10,
     notifications_enabled: true,
     show_on_profile: false,
     icon: "other",
-    photo_url: ""
+    photo_url: "",
+    group_id: ""
   });
 
   const [cleaningEquipmentFormData, setCleaningEquipmentFormData] = useState({
@@ -135,6 +178,7 @@ const Equipment = () => {
     cost_per_unit: 0,
     supplier: "",
     notes: "",
+    low_stock_threshold: 0,
     show_on_profile: false,
     icon: "other",
     photo_url: ""
@@ -145,13 +189,35 @@ const Equipment = () => {
 
   const [cleaningFormData, setCleaningFormData] = useState({
     notes: "",
-    cleaned_at: new Date().toISOString().slice(0, 16)
+    cleaned_at: format(new Date(), "yyyy-MM-dd'T'HH:mm")
   });
+  const [completedStepIds, setCompletedStepIds] = useState<string[]>([]);
+  const [suppliesUsed, setSuppliesUsed] = useState<Record<string, number>>({});
+  const [cleaningPhotos, setCleaningPhotos] = useState<{ before: File[]; after: File[] }>({ before: [], after: [] });
+  const [editingLog, setEditingLog] = useState<CleaningLog | null>(null);
+  const photoRemovalTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const [cleaningPauses, setCleaningPauses] = useState<CleaningPause[]>([]);
+  const [isPauseDialogOpen, setIsPauseDialogOpen] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [equipmentGroups, setEquipmentGroups] = useState<EquipmentGroupMembership[]>([]);
+  const [memberNames, setMemberNames] = useState<Record<string, string>>({});
+  const [isGroupDialogOpen, setIsGroupDialogOpen] = useState(false);
+  const [equipmentTemplates, setEquipmentTemplates] = useState<EquipmentTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState("");
+  const [isBulkAddDialogOpen, setIsBulkAddDialogOpen] = useState(false);
+  const [isCsvDialogOpen, setIsCsvDialogOpen] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const { equipmentTypes, getEquipmentType, getEquipmentIcon } = useEquipmentTypes();
 
   useEffect(() => {
     fetchEquipment();
     fetchCleaningEquipment();
+    fetchCleaningSteps();
     fetchCleaningLogs();
+    fetchEquipmentUsage();
+    fetchCleaningPauses();
+    fetchEquipmentTemplates();
     initializeNotifications();
   }, []);
 
@@ -198,6 +264,16 @@ const Equipment = () => {
     }
   };
 
+  // Thumbnail URLs for the cleaning photos, revoked when the picks change
+  const cleaningPhotosPreviews = useMemo(() => ({
+    before: cleaningPhotos.before.map(file => URL.createObjectURL(file)),
+    after: cleaningPhotos.after.map(file => URL.createObjectURL(file)),
+  }), [cleaningPhotos]);
+
+  useEffect(() => () => {
+    [...cleaningPhotosPreviews.before, ...cleaningPhotosPreviews.after].forEach(url => URL.revokeObjectURL(url));
+  }, [cleaningPhotosPreviews]);
+
   const fetchCleaningEquipment = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -220,15 +296,51 @@ const Equipment = () => {
     }
   };
 
+  const refreshCleaningEquipmentDetail = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('cleaning_equipment')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setDetailCleaningEquipment(data);
+      setCleaningEquipment(cleaningEquipment.map(item => item.id === id ? data : item));
+    } catch (error) {
+      console.error('Error refreshing cleaning equipment:', error);
+    }
+  };
+
+  const fetchEquipmentUsage = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase.rpc('get_equipment_usage', { p_user_id: user.id });
+
+      if (error) throw error;
+      setEquipmentUsage(Object.fromEntries(
+        (data || []).map(usage => [usage.equipment_id, { events_played: usage.events_played, hours_played: Number(usage.hours_played) }])
+      ));
+    } catch (error) {
+      console.error('Error fetching equipment usage:', error);
+    }
+  };
+
   const fetchEquipment = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      const { groups, sharedEquipmentIds } = await fetchEquipmentGroupAccess(user.id);
+      setCurrentUserId(user.id);
+      setEquipmentGroups(groups);
+
       const { data, error } = await supabase
         .from('equipment')
         .select('*')
-        .eq('user_id', user.id)
+        .or(ownOrSharedFilter(user.id, sharedEquipmentIds, 'id'))
         .order('name');
 
       if (error) throw error;
@@ -242,22 +354,108 @@ const Equipment = () => {
     }
   };
 
+  const fetchCleaningPauses = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('cleaning_pauses')
+        .select('*')
+        .eq('user_id', user.id)
+        .gte('ends_on', format(new Date(), 'yyyy-MM-dd'))
+        .order('starts_on');
+
+      if (error) throw error;
+      setCleaningPauses(data || []);
+    } catch (error) {
+      console.error('Error fetching cleaning pauses:', error);
+    }
+  };
+
+  const getActivePause = (equipmentId: string) => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    return cleaningPauses.find(pause =>
+      (!pause.equipment_id || pause.equipment_id === equipmentId) &&
+      pause.starts_on <= today && pause.ends_on >= today
+    );
+  };
+
+  const fetchEquipmentTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('equipment_templates')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setEquipmentTemplates(data || []);
+    } catch (error) {
+      console.error('Error fetching equipment templates:', error);
+    }
+  };
+
+  const fetchCleaningSteps = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { sharedEquipmentIds } = await fetchEquipmentGroupAccess(user.id);
+
+      const { data, error } = await supabase
+        .from('equipment_cleaning_steps')
+        .select('id, equipment_id, title, position')
+        .or(ownOrSharedFilter(user.id, sharedEquipmentIds))
+        .order('position');
+
+      if (error) throw error;
+      setCleaningSteps(data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch cleaning checklists",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStepsForEquipment = (equipmentId: string) => {
+    return cleaningSteps
+      .filter(step => step.equipment_id === equipmentId)
+      .sort((a, b) => a.position - b.position);
+  };
+
   const fetchCleaningLogs = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      const { sharedEquipmentIds } = await fetchEquipmentGroupAccess(user.id);
+
       const { data, error } = await supabase
         .from('cleaning_logs')
         .select(`
           *,
-          equipment:equipment_id (name, type)
+          equipment:equipment_id (name, type),
+          steps:cleaning_log_steps (id, title, completed, position),
+          supplies:cleaning_log_supplies (id, cleaning_equipment_id, quantity_used, supply:cleaning_equipment_id (name, type))
         `)
-        .eq('user_id', user.id)
+        .or(ownOrSharedFilter(user.id, sharedEquipmentIds))
         .order('cleaned_at', { ascending: false });
 
       if (error) throw error;
       setCleaningLogs(data || []);
+
+      // Names for cleanings logged by other members of a shared group
+      const otherUserIds = [...new Set((data || []).map(log => log.user_id).filter(id => id !== user.id))];
+      if (otherUserIds.length > 0) {
+        const { data: profiles } = await supabase
+          .rpc('get_public_profiles', { profile_user_ids: otherUserIds });
+
+        setMemberNames(Object.fromEntries(
+          (profiles || []).map(profile => [profile.user_id, profile.display_name || profile.username])
+        ));
+      }
     } catch (error) {
       toast({
         title: "Error",
@@ -285,10 +483,14 @@ const Equipment = () => {
           type: formData.type,
           description: formData.description,
           cleaning_frequency_days: parseInt(formData.cleaning_frequency_days.toString()),
+          schedule_mode: formData.schedule_mode,
+          usage_interval: formData.schedule_mode === 'days' ? null : formData.usage_interval,
           notifications_enabled: formData.notifications_enabled,
           show_on_profile: formData.show_on_profile,
           icon: formData.icon,
           user_id: user.id,
+          group_id: formData.group_id || null,
+          template_id: selectedTemplateId || null,
           photo_url: formData.photo_url // Use URL if provided
         }])
         .select()
@@ -324,6 +526,8 @@ const Equipment = () => {
       }
 
       setEquipment([...equipment, newEquipment]);
+      // The checklist (from the template or the type's defaults) is seeded by the database
+      fetchCleaningSteps();
       setIsAddDialogOpen(false);
       resetForm();
       toast({
@@ -363,7 +567,9 @@ const Equipment = () => {
         .update({
           ...formData,
           photo_url: finalPhotoUrl,
-          cleaning_frequency_days: parseInt(formData.cleaning_frequency_days.toString())
+          cleaning_frequency_days: parseInt(formData.cleaning_frequency_days.toString()),
+          usage_interval: formData.schedule_mode === 'days' ? null : formData.usage_interval,
+          group_id: formData.group_id || null
         })
         .eq('id', selectedEquipment.id)
         .select()
@@ -427,6 +633,77 @@ const Equipment = () => {
     }
   };
 
+  // Copies an item's settings and checklist, but not its history
+  const handleDuplicate = async (item: Equipment) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: copy, error } = await supabase
+        .from('equipment')
+        .insert({
+          user_id: user.id,
+          name: `${item.name} (copy)`,
+          type: item.type,
+          icon: item.icon,
+          description: item.description,
+          cleaning_frequency_days: item.cleaning_frequency_days,
+          schedule_mode: item.schedule_mode || 'days',
+          usage_interval: item.usage_interval,
+          notifications_enabled: item.notifications_enabled,
+          show_on_profile: item.show_on_profile,
+          photo_url: item.photo_url,
+          group_id: item.group_id || null
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      // Swap the seeded default checklist for the original's
+      const steps = getStepsForEquipment(item.id);
+      if (steps.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('equipment_cleaning_steps')
+          .delete()
+          .eq('equipment_id', copy.id);
+
+        if (deleteError) throw deleteError;
+
+        const { error: stepsError } = await supabase
+          .from('equipment_cleaning_steps')
+          .insert(steps.map(step => ({
+            equipment_id: copy.id,
+            user_id: user.id,
+            title: step.title,
+            position: step.position
+          })));
+
+        if (stepsError) throw stepsError;
+      }
+
+      fetchEquipment();
+      fetchCleaningSteps();
+      openEditDialog(copy);
+    } catch (error) {
+      console.error('Error duplicating equipment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to duplicate equipment",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(current => current.includes(id) ? current.filter(selectedId => selectedId !== id) : [...current, id]);
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+  };
+
   const handleLogCleaning = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedEquipment) return;
@@ -435,64 +712,155 @@ const Equipment = () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Check if equipment was already cleaned today
-      const today = new Date().toISOString().split('T')[0];
-      const { data: existingLogs, error: checkError } = await supabase
-        .from('cleaning_logs')
-        .select('id')
-        .eq('equipment_id', selectedEquipment.id)
-        .eq('user_id', user.id)
-        .gte('cleaned_at', today + 'T00:00:00.000Z')
-        .lt('cleaned_at', today + 'T23:59:59.999Z');
-
-      if (checkError) throw checkError;
+      const steps = getStepsForEquipment(selectedEquipment.id);
+      const completedCount = steps.filter(step => completedStepIds.includes(step.id)).length;
 
-      if (existingLogs && existingLogs.length > 0) {
+      if (steps.length > 0 && completedCount === 0) {
         toast({
-          title: "Already Cleaned Today",
-          description: "This equipment has already been cleaned today. Only one cleaning per day is allowed.",
+          title: "No Steps Completed",
+          description: "Tick at least one checklist step to log a cleaning.",
           variant: "destructive"
         });
         return;
       }
 
+      const isPartial = completedCount < steps.length;
+
       const cleanedAt = new Date(cleaningFormData.cleaned_at).toISOString();
-      const nextDue = new Date(cleanedAt);
-      nextDue.setDate(nextDue.getDate() + selectedEquipment.cleaning_frequency_days);
 
-      const { error } = await supabase
+      const { data: newLog, error } = await supabase
         .from('cleaning_logs')
         .insert([{
           equipment_id: selectedEquipment.id,
           user_id: user.id,
           cleaned_at: cleanedAt,
           notes: cleaningFormData.notes,
-        }]);
+          is_partial: isPartial,
+        }])
+        .select()
+        .single();
 
       if (error) throw error;
 
+      if (steps.length > 0) {
+        const { error: stepsError } = await supabase
+          .from('cleaning_log_steps')
+          .insert(steps.map(step => ({
+            cleaning_log_id: newLog.id,
+            step_id: step.id,
+            user_id: user.id,
+            title: step.title,
+            position: step.position,
+            completed: completedStepIds.includes(step.id),
+          })));
+
+        if (stepsError) {
+          // A cleaning without its checklist would look fully done, so drop it
+          await supabase.from('cleaning_logs').delete().eq('id', newLog.id);
+          throw stepsError;
+        }
+      }
+
+      const usedSupplies = Object.entries(suppliesUsed).filter(([, quantity]) => quantity > 0);
+      const lowStockSupplies = getLowStockAfterUse(usedSupplies);
+      if (usedSupplies.length > 0) {
+        // Supply quantities are decremented by the database
+        const { error: suppliesError } = await supabase
+          .from('cleaning_log_supplies')
+          .insert(usedSupplies.map(([cleaningEquipmentId, quantity]) => ({
+            cleaning_log_id: newLog.id,
+            cleaning_equipment_id: cleaningEquipmentId,
+            user_id: user.id,
+            quantity_used: quantity,
+          })));
+
+        if (suppliesError) {
+          // Otherwise a retry would log the same cleaning twice
+          await supabase.from('cleaning_logs').delete().eq('id', newLog.id);
+          throw suppliesError;
+        }
+
+        fetchCleaningEquipment();
+      }
+
+      const photosToUpload = [
+        ...cleaningPhotos.before.map((file, index) => ({ file, kind: 'before', position: index })),
+        ...cleaningPhotos.after.map((file, index) => ({ file, kind: 'after', position: index })),
+      ];
+      if (photosToUpload.length > 0) {
+        const uploads = await Promise.allSettled(photosToUpload.map(({ file, kind }) =>
+          uploadEquipmentPhoto(file, `${user.id}/cleanings/${newLog.id}-${kind}`)
+        ));
+        const photoRows = photosToUpload.flatMap(({ kind, position }, index) => {
+          const upload = uploads[index];
+          return upload.status === 'fulfilled'
+            ? [{ cleaning_log_id: newLog.id, user_id: user.id, photo_url: upload.value, kind, position }]
+            : [];
+        });
+
+        const failedUpload = uploads.find((upload): upload is PromiseRejectedResult => upload.status === 'rejected');
+        const photosError = failedUpload
+          ? failedUpload.reason
+          : (await supabase.from('cleaning_log_photos').insert(photoRows)).error;
+
+        if (photosError) {
+          // Undo the whole cleaning, supplies included, so a retry starts clean
+          if (photoRows.length > 0) {
+            await supabase.storage
+              .from('equipment-photos')
+              .remove(photoRows.map(row => getEquipmentPhotoPath(row.photo_url)));
+          }
+          await supabase.from('cleaning_logs').delete().eq('id', newLog.id);
+          throw photosError;
+        }
+
+        // Keep the single log photo pointing at the result for older views
+        const coverPhoto = photoRows.find(row => row.kind === 'after') || photoRows[0];
+        await supabase
+          .from('cleaning_logs')
+          .update({ photo_url: coverPhoto.photo_url })
+          .eq('id', newLog.id);
+      }
+
       // Refresh equipment data to get updated streaks from database
       await fetchEquipment();
 
-      // Schedule new notification if notifications are enabled
-      const equipmentItem = equipment.find(item => item.id === selectedEquipment.id);
-      if (equipmentItem?.notifications_enabled && nextDue) {
+      // Schedule new notification if notifications are enabled. The due
+      // date comes from the database, which recomputes it from the whole
+      // history (a backdated or partial cleaning may not move it).
+      const { data: updatedEquipment } = await supabase
+        .from('equipment')
+        .select('next_cleaning_due')
+        .eq('id', selectedEquipment.id)
+        .single();
+
+      const nextDue = updatedEquipment?.next_cleaning_due;
+      if (!isPartial && selectedEquipment.notifications_enabled && !isUsageBased(selectedEquipment) && nextDue && new Date(nextDue) > new Date()) {
         await notificationService.scheduleCleaningNotification({
-          equipmentId: equipmentItem.id,
-          equipmentName: equipmentItem.name,
-          nextCleaningDue: nextDue.toISOString()
+          equipmentId: selectedEquipment.id,
+          equipmentName: selectedEquipment.name,
+          nextCleaningDue: nextDue
         });
       }
       
       // Refresh cleaning logs
       fetchCleaningLogs();
+      fetchEquipmentUsage();
       
       setIsCleaningDialogOpen(false);
       setSelectedEquipment(null);
-      setCleaningFormData({ notes: "", cleaned_at: new Date().toISOString().slice(0, 16) });
+      setCleaningFormData({ notes: "", cleaned_at: format(new Date(), "yyyy-MM-dd'T'HH:mm") });
+      setCompletedStepIds([]);
+      setSuppliesUsed({});
+      setCleaningPhotos({ before: [], after: [] });
+      const lowStockWarning = lowStockSupplies.length > 0
+        ? ` Running low: ${lowStockSupplies.map(item => `${item.name} (${item.quantity} left)`).join(', ')}.`
+        : "";
       toast({
         title: "Success",
-        description: "Cleaning logged successfully!"
+        description: (isPartial
+          ? `Partial cleaning logged (${completedCount}/${steps.length} steps). Your streak is unchanged.`
+          : "Cleaning logged successfully!") + lowStockWarning
       });
     } catch (error: any) {
       console.error('Error logging cleaning:', error);
@@ -504,21 +872,213 @@ const Equipment = () => {
     }
   };
 
+  const handleDeleteCleaningLog = async (log: CleaningLog) => {
+    try {
+      // Everything needed to put the cleaning back if it is undone
+      const { data: snapshot, error: snapshotError } = await supabase
+        .from('cleaning_logs')
+        .select('*, steps:cleaning_log_steps (*), supplies:cleaning_log_supplies (*), photos:cleaning_log_photos (*)')
+        .eq('id', log.id)
+        .single();
+
+      if (snapshotError) throw snapshotError;
+
+      const { data: eventLinks } = await supabase
+        .from('event_equipment')
+        .select('id, clean_before_log_id, clean_after_log_id')
+        .or(`clean_before_log_id.eq.${log.id},clean_after_log_id.eq.${log.id}`);
+
+      // Deleted straight away so leaving the page can't bring it back. Steps,
+      // supplies and photos cascade; used supplies go back into stock and the
+      // streak is recomputed by the database.
+      const { error } = await supabase
+        .from('cleaning_logs')
+        .delete()
+        .eq('id', log.id);
+
+      if (error) throw error;
+
+      // Photo files outlive the undo window so a restored cleaning keeps them
+      const photoPaths = snapshot.photos.map(photo => getEquipmentPhotoPath(photo.photo_url));
+      if (photoPaths.length > 0) {
+        photoRemovalTimers.current[log.id] = setTimeout(() => {
+          delete photoRemovalTimers.current[log.id];
+          supabase.storage.from('equipment-photos').remove(photoPaths);
+        }, UNDO_WINDOW_MS);
+      }
+
+      const restoreCleaningLog = async () => {
+        clearTimeout(photoRemovalTimers.current[log.id]);
+        delete photoRemovalTimers.current[log.id];
+
+        try {
+          const { steps, supplies, photos, ...logRow } = snapshot;
+          const { error: logError } = await supabase.from('cleaning_logs').insert(logRow);
+          if (logError) throw logError;
+
+          if (steps.length > 0) {
+            const { error: stepsError } = await supabase.from('cleaning_log_steps').insert(steps);
+            if (stepsError) throw stepsError;
+          }
+          if (supplies.length > 0) {
+            const { error: suppliesError } = await supabase.from('cleaning_log_supplies').insert(supplies);
+            if (suppliesError) throw suppliesError;
+          }
+          if (photos.length > 0) {
+            const { error: photosError } = await supabase.from('cleaning_log_photos').insert(photos);
+            if (photosError) throw photosError;
+          }
+
+          for (const link of eventLinks || []) {
+            await supabase
+              .from('event_equipment')
+              .update({ clean_before_log_id: link.clean_before_log_id, clean_after_log_id: link.clean_after_log_id })
+              .eq('id', link.id);
+          }
+        } catch (restoreError) {
+          console.error('Error restoring cleaning log:', restoreError);
+          toast({
+            title: "Error",
+            description: "Failed to restore cleaning",
+            variant: "destructive"
+          });
+        } finally {
+          refreshAfterCleaningLogChange();
+        }
+      };
+
+      toast({
+        title: "Cleaning Deleted",
+        description: `${log.equipment?.name} cleaning from ${format(new Date(log.cleaned_at), 'MMM dd, yyyy')} removed.`,
+        duration: UNDO_WINDOW_MS,
+        action: (
+          <ToastAction altText="Undo delete" onClick={restoreCleaningLog}>
+            Undo
+          </ToastAction>
+        )
+      });
+    } catch (error) {
+      console.error('Error deleting cleaning log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete cleaning",
+        variant: "destructive"
+      });
+    } finally {
+      refreshAfterCleaningLogChange();
+    }
+  };
+
+  const refreshAfterCleaningLogChange = () => {
+    fetchEquipment();
+    fetchCleaningEquipment();
+    fetchEquipmentUsage();
+    fetchCleaningLogs();
+  };
+
   const resetForm = () => {
     setFormData({
       name: "",
       type: "",
       description: "",
       cleaning_frequency_days: 30,
+      schedule_mode: "days",
+      usage_interval: 10,
       notifications_enabled: true,
       show_on_profile: false,
       icon: "other",
-      photo_url: ""
+      photo_url: "",
+      group_id: ""
     });
+    setSelectedTemplateId("");
     setSelectedFile(null);
     setSelectedEquipment(null);
   };
 
+  // Picking a type in the add form fills in its icon and default frequency
+  const handleAddTypeChange = (typeId: string) => {
+    const equipmentType = getEquipmentType(typeId);
+    setFormData({
+      ...formData,
+      type: typeId,
+      icon: typeId,
+      cleaning_frequency_days: equipmentType?.default_frequency_days || formData.cleaning_frequency_days
+    });
+  };
+
+  const applyTemplate = (templateId: string) => {
+    const template = equipmentTemplates.find(item => item.id === templateId);
+    setSelectedTemplateId(template ? template.id : "");
+    if (!template) return;
+
+    setFormData({
+      ...formData,
+      type: template.type,
+      icon: template.icon || template.type,
+      description: template.description || "",
+      cleaning_frequency_days: template.cleaning_frequency_days,
+      schedule_mode: template.schedule_mode,
+      usage_interval: template.usage_interval || 10
+    });
+  };
+
+  const handleSaveAsTemplate = async (item: Equipment) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('equipment_templates')
+        .insert({
+          user_id: user.id,
+          name: item.name,
+          type: item.type,
+          icon: item.icon || null,
+          description: item.description || null,
+          cleaning_frequency_days: item.cleaning_frequency_days,
+          schedule_mode: item.schedule_mode || 'days',
+          usage_interval: item.usage_interval || null,
+          steps: getStepsForEquipment(item.id).map(step => step.title)
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setEquipmentTemplates([...equipmentTemplates, data].sort((a, b) => a.name.localeCompare(b.name)));
+      toast({
+        title: "Template Saved",
+        description: `"${item.name}" can now be picked when adding equipment`
+      });
+    } catch (error) {
+      console.error('Error saving equipment template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save template",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    try {
+      const { error } = await supabase
+        .from('equipment_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (error) throw error;
+      setEquipmentTemplates(equipmentTemplates.filter(template => template.id !== templateId));
+      if (selectedTemplateId === templateId) setSelectedTemplateId("");
+    } catch (error) {
+      console.error('Error deleting equipment template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete template",
+        variant: "destructive"
+      });
+    }
+  };
+
   const openEditDialog = (item: Equipment) => {
     setSelectedEquipment(item);
     setFormData({
@@ -526,20 +1086,55 @@ const Equipment = () => {
       type: item.type,
       description: item.description || "",
       cleaning_frequency_days: item.cleaning_frequency_days,
+      schedule_mode: item.schedule_mode || "days",
+      usage_interval: item.usage_interval || 10,
       notifications_enabled: item.notifications_enabled,
       show_on_profile: item.show_on_profile,
       icon: item.icon || "other",
-      photo_url: item.photo_url || ""
+      photo_url: item.photo_url || "",
+      group_id: item.group_id || ""
     });
     setSelectedFile(null);
     setIsEditDialogOpen(true);
   };
 
+  const getEquipmentGroup = (item: Equipment) => {
+    return item.group_id ? equipmentGroups.find(group => group.group_id === item.group_id) : undefined;
+  };
+
+  // Shared equipment can only be edited or deleted by group owners
+  const canManageEquipment = (item: Equipment) => {
+    return item.user_id === currentUserId || getEquipmentGroup(item)?.role === 'owner';
+  };
+
   const openCleaningDialog = (item: Equipment) => {
     setSelectedEquipment(item);
+    setCleaningFormData({ notes: "", cleaned_at: format(new Date(), "yyyy-MM-dd'T'HH:mm") });
+    setCompletedStepIds([]);
+    setSuppliesUsed({});
+    setCleaningPhotos({ before: [], after: [] });
     setIsCleaningDialogOpen(true);
   };
 
+  const isLowStock = (item: CleaningEquipment) => {
+    return !!item.low_stock_threshold && item.quantity <= item.low_stock_threshold;
+  };
+
+  const getLowStockAfterUse = (usedSupplies: [string, number][]) => {
+    return usedSupplies
+      .map(([id, quantity]) => {
+        const item = cleaningEquipment.find(supply => supply.id === id);
+        return item && { ...item, quantity: Math.max(item.quantity - quantity, 0) };
+      })
+      .filter(item => item && isLowStock(item));
+  };
+
+  const toggleCompletedStep = (stepId: string) => {
+    setCompletedStepIds(prev =>
+      prev.includes(stepId) ? prev.filter(id => id !== stepId) : [...prev, stepId]
+    );
+  };
+
   const openDetailDialog = (item: Equipment) => {
     setDetailEquipment(item);
     setIsDetailDialogOpen(true);
@@ -561,6 +1156,7 @@ const Equipment = () => {
       cost_per_unit: item.cost_per_unit || 0,
       supplier: item.supplier || "",
       notes: item.notes || "",
+      low_stock_threshold: item.low_stock_threshold || 0,
       show_on_profile: item.show_on_profile,
       icon: item.icon || "other",
       photo_url: item.photo_url || ""
@@ -581,6 +1177,7 @@ const Equipment = () => {
           .from('cleaning_equipment')
           .insert([{
             ...cleaningEquipmentFormData,
+            low_stock_threshold: cleaningEquipmentFormData.low_stock_threshold || null,
             user_id: user.id,
           }])
           .select()
@@ -599,7 +1196,10 @@ const Equipment = () => {
 
         const { data, error } = await supabase
           .from('cleaning_equipment')
-          .update(cleaningEquipmentFormData)
+          .update({
+            ...cleaningEquipmentFormData,
+            low_stock_threshold: cleaningEquipmentFormData.low_stock_threshold || null,
+          })
           .eq('id', selectedCleaningEquipment.id)
           .select()
           .single();
@@ -664,6 +1264,7 @@ const Equipment = () => {
       cost_per_unit: 0,
       supplier: "",
       notes: "",
+      low_stock_threshold: 0,
       show_on_profile: false,
       icon: "other",
       photo_url: ""
@@ -717,6 +1318,22 @@ const Equipment = () => {
     return equipment_item?.current_streak || 0;
   };
 
+  const isUsageBased = (item: Equipment) => item.schedule_mode === 'hours' || item.schedule_mode === 'events';
+
+  const getScheduleLabel = (item: Equipment) => {
+    if (item.schedule_mode === 'hours') return `Every ${item.usage_interval} hours played`;
+    if (item.schedule_mode === 'events') return `Every ${item.usage_interval} events`;
+    return `Every ${item.cleaning_frequency_days} days`;
+  };
+
+  const getUsageLabel = (item: Equipment) => {
+    const usage = equipmentUsage[item.id] || { events_played: 0, hours_played: 0 };
+    if (item.schedule_mode === 'hours') {
+      return `${Math.round(usage.hours_played * 10) / 10} / ${item.usage_interval} hours played`;
+    }
+    return `${usage.events_played} / ${item.usage_interval} events played`;
+  };
+
   const getDaysUntilDue = (dueDateString?: string) => {
     if (!dueDateString) return null;
     const now = new Date();
@@ -743,6 +1360,90 @@ const Equipment = () => {
             <Music className="w-6 h-6 sm:w-8 sm:h-8 text-accent" />
             <h1 className="text-xl sm:text-3xl font-bold">Equipment Management</h1>
           </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+          <Dialog open={isGroupDialogOpen} onOpenChange={setIsGroupDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" className="gap-2 w-full sm:w-auto">
+                <Users className="w-4 h-4" />
+                <span className="sm:inline">Groups</span>
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Shared Equipment Groups</DialogTitle>
+              </DialogHeader>
+              <EquipmentGroupManager
+                onChange={() => {
+                  fetchEquipment();
+                  fetchCleaningSteps();
+                  fetchCleaningLogs();
+                }}
+              />
+            </DialogContent>
+          </Dialog>
+          <Dialog open={isPauseDialogOpen} onOpenChange={setIsPauseDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" className="gap-2 w-full sm:w-auto">
+                <Plane className="w-4 h-4" />
+                <span className="sm:inline">Vacation Mode</span>
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Vacation Mode</DialogTitle>
+              </DialogHeader>
+              <CleaningPauses
+                pauses={cleaningPauses}
+                equipment={equipment}
+                onChange={() => {
+                  fetchCleaningPauses();
+                  fetchEquipment();
+                }}
+              />
+            </DialogContent>
+          </Dialog>
+          <Dialog open={isCsvDialogOpen} onOpenChange={setIsCsvDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" className="gap-2 w-full sm:w-auto">
+                <FileSpreadsheet className="w-4 h-4" />
+                <span className="sm:inline">Import / Export</span>
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Import / Export CSV</DialogTitle>
+              </DialogHeader>
+              <EquipmentCsvTransfer
+                supplyTypes={Object.keys(cleaningEquipmentIcons)}
+                onImported={() => {
+                  setIsCsvDialogOpen(false);
+                  fetchEquipment();
+                  fetchCleaningEquipment();
+                  fetchCleaningSteps();
+                }}
+              />
+            </DialogContent>
+          </Dialog>
+          <Dialog open={isBulkAddDialogOpen} onOpenChange={setIsBulkAddDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" className="gap-2 w-full sm:w-auto">
+                <Rows3 className="w-4 h-4" />
+                <span className="sm:inline">Bulk Add</span>
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Add Several Items</DialogTitle>
+              </DialogHeader>
+              <BulkAddEquipment
+                onAdded={() => {
+                  setIsBulkAddDialogOpen(false);
+                  fetchEquipment();
+                  fetchCleaningSteps();
+                }}
+              />
+            </DialogContent>
+          </Dialog>
           <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
             <DialogTrigger asChild>
               <Button className="gap-2 w-full sm:w-auto">
@@ -765,25 +1466,52 @@ const Equipment = () => {
                     required
                   />
                 </div>
+                {equipmentTemplates.length > 0 && (
+                  <div>
+                    <Label htmlFor="template">Template</Label>
+                    <div className="flex gap-2">
+                      <Select value={selectedTemplateId || "none"} onValueChange={(value) => applyTemplate(value === "none" ? "" : value)}>
+                        <SelectTrigger id="template">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent side="bottom" align="start">
+                          <SelectItem value="none">No template</SelectItem>
+                          {equipmentTemplates.map((template) => (
+                            <SelectItem key={template.id} value={template.id}>
+                              <span className="flex items-center gap-2">
+                                <span>{getEquipmentIcon(template.icon || template.type)}</span>
+                                <span>{template.name}</span>
+                              </span>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {selectedTemplateId && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => handleDeleteTemplate(selectedTemplateId)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                    {selectedTemplateId && (
+                      <p className="text-xs text-muted-foreground mt-1">The template's checklist is added too</p>
+                    )}
+                  </div>
+                )}
                 <div>
                   <Label htmlFor="type">Type</Label>
-                  <Select value={formData.type} onValueChange={(value) => setFormData({ ...formData, type: value })}>
+                  <Select value={formData.type} onValueChange={handleAddTypeChange}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select equipment type" />
                     </SelectTrigger>
                     <SelectContent side="bottom" align="start">
-                      <SelectItem value="guitar">Guitar</SelectItem>
-                      <SelectItem value="drums">Drums</SelectItem>
-                      <SelectItem value="microphone">Microphone</SelectItem>
-                      <SelectItem value="speaker">Speaker</SelectItem>
-                      <SelectItem value="keyboard">Keyboard</SelectItem>
-                      <SelectItem value="violin">Violin</SelectItem>
-                      <SelectItem value="trumpet">Trumpet</SelectItem>
-                      <SelectItem value="saxophone">Saxophone</SelectItem>
-                      <SelectItem value="amplifier">Amplifier</SelectItem>
-                      <SelectItem value="mixer">Mixer</SelectItem>
-                      <SelectItem value="headphones">Headphones</SelectItem>
-                      <SelectItem value="other">Other</SelectItem>
+                      {equipmentTypes.map((equipmentType) => (
+                        <SelectItem key={equipmentType.id} value={equipmentType.id}>{equipmentType.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -794,11 +1522,11 @@ const Equipment = () => {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent side="bottom" align="start">
-                      {Object.entries(equipmentIcons).map(([key, icon]) => (
-                        <SelectItem key={key} value={key}>
+                      {equipmentTypes.map((equipmentType) => (
+                        <SelectItem key={equipmentType.id} value={equipmentType.id}>
                           <span className="flex items-center gap-2">
-                            <span>{icon}</span>
-                            <span className="capitalize">{key}</span>
+                            <span>{equipmentType.icon}</span>
+                            <span>{equipmentType.label}</span>
                           </span>
                         </SelectItem>
                       ))}
@@ -842,16 +1570,46 @@ const Equipment = () => {
                   </div>
                 </div>
                 <div>
-                  <Label htmlFor="frequency">Cleaning Frequency (days)</Label>
-                  <Input
-                    id="frequency"
-                    type="number"
-                    min="1"
-                    value={formData.cleaning_frequency_days}
-                    onChange={(e) => setFormData({ ...formData, cleaning_frequency_days: parseInt(e.target.value) })}
-                    required
-                  />
+                  <Label htmlFor="schedule-mode">Cleaning Schedule</Label>
+                  <Select value={formData.schedule_mode} onValueChange={(value) => setFormData({ ...formData, schedule_mode: value })}>
+                    <SelectTrigger id="schedule-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="days">Every few days</SelectItem>
+                      <SelectItem value="hours">After hours played</SelectItem>
+                      <SelectItem value="events">After a number of events</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
+                {formData.schedule_mode === 'days' ? (
+                  <div>
+                    <Label htmlFor="frequency">Cleaning Frequency (days)</Label>
+                    <Input
+                      id="frequency"
+                      type="number"
+                      min="1"
+                      value={formData.cleaning_frequency_days}
+                      onChange={(e) => setFormData({ ...formData, cleaning_frequency_days: parseInt(e.target.value) })}
+                      required
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <Label htmlFor="usage-interval">
+                      Clean After ({formData.schedule_mode === 'hours' ? 'hours played' : 'gigs, rehearsals, jams or recordings'})
+                    </Label>
+                    <Input
+                      id="usage-interval"
+                      type="number"
+                      min="1"
+                      value={formData.usage_interval}
+                      onChange={(e) => setFormData({ ...formData, usage_interval: parseInt(e.target.value) })}
+                      required
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">Counts events this equipment is assigned to in the calendar</p>
+                  </div>
+                )}
                 <div className="flex items-center space-x-2">
                   <Switch
                     id="notifications"
@@ -867,6 +1625,20 @@ const Equipment = () => {
                     onCheckedChange={(checked) => setFormData({ ...formData, show_on_profile: checked })}
                   />
                   <Label htmlFor="profile">Show on profile</Label>
+                </div>
+                <div>
+                  <Label htmlFor="group">Shared With</Label>
+                  <Select value={formData.group_id || "none"} onValueChange={(value) => setFormData({ ...formData, group_id: value === "none" ? "" : value })}>
+                    <SelectTrigger id="group">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Only me</SelectItem>
+                      {equipmentGroups.filter(group => group.role === 'owner').map((group) => (
+                        <SelectItem key={group.group_id} value={group.group_id}>{group.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
                   <div className="flex-shrink-0 pt-4 border-t">
                     <Button type="submit" className="w-full" disabled={uploading}>
@@ -877,10 +1649,26 @@ const Equipment = () => {
               </div>
             </DialogContent>
           </Dialog>
+          </div>
         </div>
 
+        {(() => {
+          const activePause = cleaningPauses.find(pause =>
+            !pause.equipment_id && pause.starts_on <= format(new Date(), 'yyyy-MM-dd')
+          );
+          return activePause && (
+            <div className="flex items-center gap-3 p-3 mb-6 rounded-lg border border-sky-500/40 bg-sky-500/10">
+              <Plane className="w-5 h-5 text-sky-500 flex-shrink-0" />
+              <p className="text-sm">
+                Vacation mode until {format(parseISO(activePause.ends_on), 'MMM dd, yyyy')}
+                {activePause.reason && ` (${activePause.reason})`}. Streaks are frozen and reminders are paused.
+              </p>
+            </div>
+          );
+        })()}
+
         <Tabs defaultValue="musical-equipment" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-4 gap-1 h-auto p-1">
+          <TabsList className="grid w-full grid-cols-3 sm:grid-cols-5 gap-1 h-auto p-1">
             <TabsTrigger 
               value="musical-equipment" 
               className="text-xs sm:text-sm px-2 py-2 whitespace-nowrap"
@@ -905,6 +1693,12 @@ const Equipment = () => {
             >
               History
             </TabsTrigger>
+            <TabsTrigger 
+              value="insights" 
+              className="text-xs sm:text-sm px-2 py-2 whitespace-nowrap"
+            >
+              Insights
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="musical-equipment">
@@ -916,12 +1710,9 @@ const Equipment = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Types</SelectItem>
-                  <SelectItem value="guitar">Guitar</SelectItem>
-                  <SelectItem value="drums">Drums</SelectItem>
-                  <SelectItem value="microphone">Microphone</SelectItem>
-                  <SelectItem value="speaker">Speaker</SelectItem>
-                  <SelectItem value="keyboard">Keyboard</SelectItem>
-                  <SelectItem value="other">Other</SelectItem>
+                  {equipmentTypes.map((equipmentType) => (
+                    <SelectItem key={equipmentType.id} value={equipmentType.id}>{equipmentType.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <Select value={sortBy} onValueChange={setSortBy}>
@@ -934,6 +1725,23 @@ const Equipment = () => {
                   <SelectItem value="last_cleaned">Last Cleaned</SelectItem>
                 </SelectContent>
               </Select>
+              <Button
+                variant={isSelecting ? "secondary" : "outline"}
+                className="gap-2 w-full sm:w-auto"
+                onClick={() => isSelecting ? stopSelecting() : setIsSelecting(true)}
+              >
+                <ListChecks className="w-4 h-4" />
+                {isSelecting ? "Done" : "Select"}
+              </Button>
+              {isSelecting && (
+                <Button
+                  variant="ghost"
+                  className="w-full sm:w-auto"
+                  onClick={() => setSelectedIds(getFilteredAndSortedEquipment().map(item => item.id))}
+                >
+                  Select All
+                </Button>
+              )}
             </div>
 
             {/* Equipment Grid */}
@@ -943,10 +1751,20 @@ const Equipment = () => {
                 const streak = getCleaningStreak(item.id);
                 
                 return (
-                  <Card key={item.id} className="bg-card/50 backdrop-blur-sm border-border/50">
+                  <Card
+                    key={item.id}
+                    className={`bg-card/50 backdrop-blur-sm border-border/50 ${selectedIds.includes(item.id) ? 'ring-2 ring-primary' : ''}`}
+                  >
                     <CardHeader className="pb-3">
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-3">
+                          {isSelecting && (
+                            <Checkbox
+                              checked={selectedIds.includes(item.id)}
+                              onCheckedChange={() => toggleSelected(item.id)}
+                              aria-label={`Select ${item.name}`}
+                            />
+                          )}
                           {item.photo_url ? (
                             <img 
                               src={item.photo_url} 
@@ -954,35 +1772,62 @@ const Equipment = () => {
                               className="w-12 h-12 rounded-lg object-cover border border-border/50"
                             />
                           ) : (
-                            <span className="text-2xl">{equipmentIcons[item.icon as keyof typeof equipmentIcons] || equipmentIcons.other}</span>
+                            <span className="text-2xl">{getEquipmentIcon(item.icon)}</span>
                           )}
                           <div>
-                            <CardTitle className="text-lg">{item.name}</CardTitle>
+                            <CardTitle className="text-lg flex items-center gap-2">
+                              {item.name}
+                              {getActivePause(item.id) && (
+                                <Badge variant="outline" className="text-xs border-sky-500 text-sky-600">
+                                  Paused
+                                </Badge>
+                              )}
+                              {getEquipmentGroup(item) && (
+                                <Badge variant="outline" className="text-xs gap-1">
+                                  <Users className="w-3 h-3" />
+                                  {getEquipmentGroup(item).name}
+                                </Badge>
+                              )}
+                              {item.assigned_to && (
+                                <Badge variant="outline" className="text-xs border-primary text-primary">
+                                  {item.assigned_to === currentUserId ? 'Your turn' : 'Delegated'}
+                                </Badge>
+                              )}
+                            </CardTitle>
                             <p className="text-sm text-muted-foreground capitalize">{item.type}</p>
                             {item.description && (
                               <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{item.description}</p>
                             )}
                           </div>
                         </div>
-                        <div className="flex gap-1">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => openEditDialog(item)}
-                          >
-                            <Edit className="w-4 h-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDelete(item.id)}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                        </div>
+                        {canManageEquipment(item) && (
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openEditDialog(item)}
+                            >
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDuplicate(item)}
+                            >
+                              <Copy className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(item.id)}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     </CardHeader>
-                    <CardContent className="space-y-3" onClick={() => openDetailDialog(item)}>
+                    <CardContent className="space-y-3" onClick={() => isSelecting ? toggleSelected(item.id) : openDetailDialog(item)}>
                       <div className="space-y-2">
                         {item.last_cleaned_at && (
                           <div className="text-sm">
@@ -1005,6 +1850,12 @@ const Equipment = () => {
                             </span>
                           </div>
                         )}
+                        {isUsageBased(item) && (
+                          <div className="text-sm">
+                            <span className="text-muted-foreground">Usage: </span>
+                            <span>{getUsageLabel(item)}</span>
+                          </div>
+                        )}
                         <div className="flex items-center gap-2">
                           <span className="text-sm">🔥</span>
                           <span className="text-sm">Cleaning streak: {streak}</span>
@@ -1044,6 +1895,18 @@ const Equipment = () => {
               })}
             </div>
 
+            <EquipmentBulkActions
+              selected={equipment.filter(item => selectedIds.includes(item.id))}
+              manageableIds={equipment.filter(canManageEquipment).map(item => item.id)}
+              getSteps={getStepsForEquipment}
+              onClear={stopSelecting}
+              onChange={() => {
+                fetchEquipment();
+                fetchCleaningLogs();
+                fetchEquipmentUsage();
+              }}
+            />
+
             {equipment.length === 0 && (
               <Card className="bg-card/50 backdrop-blur-sm border-border/50">
                 <CardContent className="text-center py-12">
@@ -1143,6 +2006,17 @@ const Equipment = () => {
                           required
                         />
                       </div>
+                      <div>
+                        <Label htmlFor="cleaning-low-stock">Low Stock Alert At (quantity)</Label>
+                        <Input
+                          id="cleaning-low-stock"
+                          type="number"
+                          min="0"
+                          value={cleaningEquipmentFormData.low_stock_threshold}
+                          onChange={(e) => setCleaningEquipmentFormData({ ...cleaningEquipmentFormData, low_stock_threshold: parseInt(e.target.value) || 0 })}
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">Set to 0 to turn off low stock warnings</p>
+                      </div>
                       <div>
                         <Label htmlFor="cleaning-description">Description/Notes</Label>
                         <Textarea
@@ -1221,7 +2095,7 @@ const Equipment = () => {
                         <div className="flex-1 min-w-0">
                           <h3 className="font-semibold text-sm sm:text-lg truncate">{item.name}</h3>
                           <p className="text-xs sm:text-sm text-muted-foreground capitalize truncate">{item.type.replace('_', ' ')}</p>
-                          <p className="text-xs sm:text-sm text-muted-foreground">Qty: {item.quantity}</p>
+                          <p className={`text-xs sm:text-sm ${isLowStock(item) ? 'text-yellow-600' : 'text-muted-foreground'}`}>Qty: {item.quantity}</p>
                         </div>
                       </div>
                       <div className="flex gap-1 sm:gap-2 flex-shrink-0">
@@ -1269,6 +2143,11 @@ const Equipment = () => {
                     </div>
                     
                     <div className="flex gap-2">
+                      {isLowStock(item) && (
+                        <Badge variant="outline" className="text-xs border-yellow-500 text-yellow-600">
+                          Low Stock
+                        </Badge>
+                      )}
                       {item.show_on_profile && (
                         <Badge variant="secondary" className="text-xs">
                           On Profile
@@ -1311,7 +2190,7 @@ const Equipment = () => {
                     return (
                       <div key={item.id} className="flex items-center justify-between p-4 rounded-lg border border-border/50 bg-background/30">
                         <div className="flex items-center gap-3">
-                          <span className="text-xl">{equipmentIcons[item.icon as keyof typeof equipmentIcons] || equipmentIcons.other}</span>
+                          <span className="text-xl">{getEquipmentIcon(item.icon)}</span>
                           <div>
                             <h3 className="font-medium">{item.name}</h3>
                             <p className="text-sm text-muted-foreground capitalize">{item.type}</p>
@@ -1354,10 +2233,41 @@ const Equipment = () => {
                   {cleaningLogs.map((log) => (
                     <div key={log.id} className="flex items-center justify-between p-4 rounded-lg border border-border/50 bg-background/30">
                       <div className="flex items-center gap-3">
-                        <CheckCircle className="w-5 h-5 text-green-500" />
+                        {log.is_partial ? (
+                          <AlertCircle className="w-5 h-5 text-yellow-500" />
+                        ) : (
+                          <CheckCircle className="w-5 h-5 text-green-500" />
+                        )}
                         <div>
-                          <h3 className="font-medium">{log.equipment?.name}</h3>
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-medium">{log.equipment?.name}</h3>
+                            {log.is_partial && (
+                              <Badge variant="outline" className="text-xs border-yellow-500 text-yellow-600">
+                                Partial
+                              </Badge>
+                            )}
+                          </div>
                           <p className="text-sm text-muted-foreground capitalize">{log.equipment?.type}</p>
+                          {log.user_id !== currentUserId && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Cleaned by {memberNames[log.user_id] || 'a group member'}
+                            </p>
+                          )}
+                          {log.steps && log.steps.length > 0 && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {log.steps.filter(step => step.completed).length}/{log.steps.length} steps completed
+                              {log.is_partial && ` · skipped: ${[...log.steps]
+                                .sort((a, b) => a.position - b.position)
+                                .filter(step => !step.completed)
+                                .map(step => step.title)
+                                .join(', ')}`}
+                            </p>
+                          )}
+                          {log.supplies && log.supplies.length > 0 && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Used: {log.supplies.map(supply => `${supply.supply?.name} ×${supply.quantity_used}`).join(', ')}
+                            </p>
+                          )}
                           {log.notes && (
                             <p className="text-sm text-muted-foreground mt-1">{log.notes}</p>
                           )}
@@ -1370,6 +2280,16 @@ const Equipment = () => {
                         <div className="text-sm text-muted-foreground">
                           {format(new Date(log.cleaned_at), 'h:mm a')}
                         </div>
+                        {log.user_id === currentUserId && (
+                          <div className="flex justify-end gap-1 mt-1">
+                            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setEditingLog(log)}>
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleDeleteCleaningLog(log)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -1384,8 +2304,26 @@ const Equipment = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="insights">
+            <EquipmentInsights
+              equipment={equipment}
+              cleaningEquipment={cleaningEquipment}
+              cleaningLogs={cleaningLogs}
+            />
+          </TabsContent>
         </Tabs>
 
+        <CleaningLogEditDialog
+          log={editingLog}
+          onOpenChange={(open) => !open && setEditingLog(null)}
+          onSaved={() => {
+            fetchCleaningLogs();
+            fetchEquipment();
+            fetchEquipmentUsage();
+          }}
+        />
+
         {/* Edit Equipment Dialog */}
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
             <DialogContent className="max-w-md max-h-[90vh] overflow-hidden flex flex-col">
@@ -1410,18 +2348,9 @@ const Equipment = () => {
                     <SelectValue placeholder="Select equipment type" />
                   </SelectTrigger>
                   <SelectContent side="bottom" align="start">
-                    <SelectItem value="guitar">Guitar</SelectItem>
-                    <SelectItem value="drums">Drums</SelectItem>
-                    <SelectItem value="microphone">Microphone</SelectItem>
-                    <SelectItem value="speaker">Speaker</SelectItem>
-                    <SelectItem value="keyboard">Keyboard</SelectItem>
-                    <SelectItem value="violin">Violin</SelectItem>
-                    <SelectItem value="trumpet">Trumpet</SelectItem>
-                    <SelectItem value="saxophone">Saxophone</SelectItem>
-                    <SelectItem value="amplifier">Amplifier</SelectItem>
-                    <SelectItem value="mixer">Mixer</SelectItem>
-                    <SelectItem value="headphones">Headphones</SelectItem>
-                    <SelectItem value="other">Other</SelectItem>
+                    {equipmentTypes.map((equipmentType) => (
+                      <SelectItem key={equipmentType.id} value={equipmentType.id}>{equipmentType.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -1432,11 +2361,11 @@ const Equipment = () => {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent side="bottom" align="start">
-                    {Object.entries(equipmentIcons).map(([key, icon]) => (
-                      <SelectItem key={key} value={key}>
+                    {equipmentTypes.map((equipmentType) => (
+                      <SelectItem key={equipmentType.id} value={equipmentType.id}>
                         <span className="flex items-center gap-2">
-                          <span>{icon}</span>
-                          <span className="capitalize">{key}</span>
+                          <span>{equipmentType.icon}</span>
+                          <span>{equipmentType.label}</span>
                         </span>
                       </SelectItem>
                     ))}
@@ -1480,16 +2409,46 @@ const Equipment = () => {
                     </div>
                   </div>
               <div>
-                <Label htmlFor="edit-frequency">Cleaning Frequency (days)</Label>
-                <Input
-                  id="edit-frequency"
-                  type="number"
-                  min="1"
-                  value={formData.cleaning_frequency_days}
-                  onChange={(e) => setFormData({ ...formData, cleaning_frequency_days: parseInt(e.target.value) })}
-                  required
-                />
+                <Label htmlFor="edit-schedule-mode">Cleaning Schedule</Label>
+                <Select value={formData.schedule_mode} onValueChange={(value) => setFormData({ ...formData, schedule_mode: value })}>
+                  <SelectTrigger id="edit-schedule-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="days">Every few days</SelectItem>
+                    <SelectItem value="hours">After hours played</SelectItem>
+                    <SelectItem value="events">After a number of events</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
+              {formData.schedule_mode === 'days' ? (
+                <div>
+                  <Label htmlFor="edit-frequency">Cleaning Frequency (days)</Label>
+                  <Input
+                    id="edit-frequency"
+                    type="number"
+                    min="1"
+                    value={formData.cleaning_frequency_days}
+                    onChange={(e) => setFormData({ ...formData, cleaning_frequency_days: parseInt(e.target.value) })}
+                    required
+                  />
+                </div>
+              ) : (
+                <div>
+                  <Label htmlFor="edit-usage-interval">
+                    Clean After ({formData.schedule_mode === 'hours' ? 'hours played' : 'gigs, rehearsals, jams or recordings'})
+                  </Label>
+                  <Input
+                    id="edit-usage-interval"
+                    type="number"
+                    min="1"
+                    value={formData.usage_interval}
+                    onChange={(e) => setFormData({ ...formData, usage_interval: parseInt(e.target.value) })}
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">Counts events this equipment is assigned to in the calendar</p>
+                </div>
+              )}
               <div className="flex items-center space-x-2">
                 <Switch
                   id="edit-notifications"
@@ -1505,6 +2464,20 @@ const Equipment = () => {
                   onCheckedChange={(checked) => setFormData({ ...formData, show_on_profile: checked })}
                 />
                 <Label htmlFor="edit-profile">Show on profile</Label>
+              </div>
+              <div>
+                <Label htmlFor="edit-group">Shared With</Label>
+                <Select value={formData.group_id || "none"} onValueChange={(value) => setFormData({ ...formData, group_id: value === "none" ? "" : value })}>
+                  <SelectTrigger id="edit-group">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Only me</SelectItem>
+                    {equipmentGroups.filter(group => group.role === 'owner').map((group) => (
+                      <SelectItem key={group.group_id} value={group.group_id}>{group.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
                   <div className="flex-shrink-0 pt-4 border-t">
                     <Button type="submit" className="w-full" disabled={uploading}>
@@ -1531,9 +2504,124 @@ const Equipment = () => {
                   type="datetime-local"
                   value={cleaningFormData.cleaned_at}
                   onChange={(e) => setCleaningFormData({ ...cleaningFormData, cleaned_at: e.target.value })}
+                  max={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
                   required
                 />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Forgot to log one? Pick the past date and your streak is recalculated from your full history.
+                </p>
               </div>
+              {selectedEquipment && getStepsForEquipment(selectedEquipment.id).length > 0 && (() => {
+                const steps = getStepsForEquipment(selectedEquipment.id);
+                const completedCount = steps.filter(step => completedStepIds.includes(step.id)).length;
+
+                return (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Checklist</Label>
+                      <span className="text-sm text-muted-foreground">
+                        {completedCount}/{steps.length} done
+                      </span>
+                    </div>
+                    {steps.map((step) => {
+                      const isCompleted = completedStepIds.includes(step.id);
+
+                      return (
+                        <button
+                          key={step.id}
+                          type="button"
+                          onClick={() => toggleCompletedStep(step.id)}
+                          className={`w-full flex items-center gap-3 p-3 rounded-lg border text-left transition-colors ${
+                            isCompleted ? 'bg-green-500/10 border-green-500/50' : 'bg-muted/50 border-border/50 hover:bg-muted'
+                          }`}
+                        >
+                          {isCompleted ? (
+                            <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0" />
+                          ) : (
+                            <Circle className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+                          )}
+                          <span className={`text-sm ${isCompleted ? 'line-through text-muted-foreground' : ''}`}>
+                            {step.title}
+                          </span>
+                        </button>
+                      );
+                    })}
+                    {completedCount > 0 && completedCount < steps.length && (
+                      <p className="text-xs text-yellow-600">
+                        Skipped steps make this a partial cleaning: it is saved to your history but won't extend your streak or reset the due date.
+                      </p>
+                    )}
+                  </div>
+                );
+              })()}
+              {cleaningEquipment.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Supplies Used</Label>
+                  {cleaningEquipment.map((item) => (
+                    <div key={item.id} className="flex items-center gap-3 p-2 rounded-lg bg-muted/50">
+                      <span className="text-lg">
+                        {cleaningEquipmentIcons[item.type as keyof typeof cleaningEquipmentIcons] || item.icon || "🧰"}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{item.name}</p>
+                        <p className={`text-xs ${isLowStock(item) ? 'text-yellow-600' : 'text-muted-foreground'}`}>
+                          {item.quantity} in stock
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={item.quantity}
+                        className="w-20"
+                        value={suppliesUsed[item.id] || 0}
+                        onChange={(e) => setSuppliesUsed({
+                          ...suppliesUsed,
+                          [item.id]: Math.min(Math.max(parseInt(e.target.value) || 0, 0), item.quantity)
+                        })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+              {(['before', 'after'] as const).map((kind) => (
+                <div key={kind}>
+                  <Label htmlFor={`${kind}-photos`}>{kind === 'before' ? 'Before Photos' : 'After Photos'} (optional)</Label>
+                  <Input
+                    id={`${kind}-photos`}
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    onChange={(e) => {
+                      const files = Array.from(e.target.files || []);
+                      setCleaningPhotos(current => ({ ...current, [kind]: [...current[kind], ...files] }));
+                      e.target.value = "";
+                    }}
+                  />
+                  {cleaningPhotos[kind].length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {cleaningPhotos[kind].map((file, index) => (
+                        <div key={`${file.name}-${index}`} className="relative">
+                          <img
+                            src={cleaningPhotosPreviews[kind][index]}
+                            alt={`${kind} ${index + 1}`}
+                            className="w-16 h-16 rounded object-cover border border-border/50"
+                          />
+                          <button
+                            type="button"
+                            className="absolute -top-1 -right-1 bg-background border rounded-full p-0.5"
+                            onClick={() => setCleaningPhotos(current => ({
+                              ...current,
+                              [kind]: current[kind].filter((_, fileIndex) => fileIndex !== index)
+                            }))}
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
               <div>
                 <Label htmlFor="notes">Notes (optional)</Label>
                 <Textarea
@@ -1569,7 +2657,7 @@ const Equipment = () => {
                   />
                 ) : (
                   <div className="w-12 h-12 bg-muted rounded-lg flex items-center justify-center text-xl">
-                    {detailEquipment && equipmentIcons[detailEquipment.type as keyof typeof equipmentIcons] || detailEquipment?.icon || "🎵"}
+                    {detailEquipment && getEquipmentIcon(detailEquipment.icon || detailEquipment.type)}
                   </div>
                 )}
                 <div>
@@ -1591,7 +2679,7 @@ const Equipment = () => {
                     </div>
                     <div>
                       <Label className="text-sm font-medium text-muted-foreground">Cleaning Frequency</Label>
-                      <p>Every {detailEquipment?.cleaning_frequency_days} days</p>
+                      <p>{detailEquipment && getScheduleLabel(detailEquipment)}</p>
                     </div>
                   </div>
                   
@@ -1615,6 +2703,16 @@ const Equipment = () => {
                       </div>
                     )}
                     
+                    {detailEquipment && isUsageBased(detailEquipment) && (
+                      <div className="p-4 bg-muted/50 rounded-lg">
+                        <Label className="text-sm font-medium text-muted-foreground">Usage Since Last Cleaning</Label>
+                        <p className="text-lg font-medium">{getUsageLabel(detailEquipment)}</p>
+                        {!detailEquipment.next_cleaning_due && (
+                          <p className="text-sm text-muted-foreground">Not due until more events are scheduled</p>
+                        )}
+                      </div>
+                    )}
+
                     {detailEquipment?.next_cleaning_due && (
                       <div className="p-4 bg-muted/50 rounded-lg">
                         <Label className="text-sm font-medium text-muted-foreground">Next Cleaning Due</Label>
@@ -1645,12 +2743,96 @@ const Equipment = () => {
                     </div>
                     <div className="p-4 bg-muted/50 rounded-lg text-center">
                       <div className="text-2xl font-bold text-primary">📅</div>
-                      <p className="text-lg font-medium">{detailEquipment?.cleaning_frequency_days || 0}</p>
-                      <p className="text-sm text-muted-foreground">Day Frequency</p>
+                      {detailEquipment && isUsageBased(detailEquipment) ? (
+                        <>
+                          <p className="text-lg font-medium">{detailEquipment.usage_interval}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {detailEquipment.schedule_mode === 'hours' ? 'Hours' : 'Events'} Between Cleanings
+                          </p>
+                        </>
+                      ) : (
+                        <>
+                          <p className="text-lg font-medium">{detailEquipment?.cleaning_frequency_days || 0}</p>
+                          <p className="text-sm text-muted-foreground">Day Frequency</p>
+                        </>
+                      )}
                     </div>
                   </div>
+                  {detailEquipment && !isUsageBased(detailEquipment) && !getActivePause(detailEquipment.id) && (
+                    <StreakFreezeButton
+                      equipment={detailEquipment}
+                      onUsed={async () => {
+                        fetchCleaningPauses();
+                        const { data } = await supabase
+                          .from('equipment')
+                          .select('*')
+                          .eq('id', detailEquipment.id)
+                          .single();
+                        if (data) {
+                          setDetailEquipment(data);
+                          setEquipment(equipment.map(item => item.id === data.id ? data : item));
+                        }
+                      }}
+                    />
+                  )}
+                  {detailEquipment && !isUsageBased(detailEquipment) && (() => {
+                    const suggestion = getFrequencySuggestion(cleaningLogs, detailEquipment.id, detailEquipment.cleaning_frequency_days);
+                    return suggestion && (
+                      <FrequencySuggestion
+                        equipmentId={detailEquipment.id}
+                        currentFrequency={detailEquipment.cleaning_frequency_days}
+                        suggestion={suggestion}
+                        onAccept={(updated) => {
+                          setDetailEquipment({ ...detailEquipment, ...updated });
+                          setEquipment(equipment.map(item => item.id === updated.id ? { ...item, ...updated } : item));
+                        }}
+                      />
+                    );
+                  })()}
                 </div>
 
+                {/* Care Guide */}
+                {detailEquipment && getEquipmentType(detailEquipment.type) && (() => {
+                  const equipmentType = getEquipmentType(detailEquipment.type);
+                  return (
+                    <div className="space-y-4">
+                      <h3 className="text-lg font-semibold flex items-center gap-2">
+                        <BookOpen className="w-5 h-5" />
+                        Care Guide
+                      </h3>
+                      <p className="text-sm">{equipmentType.care_guide}</p>
+                      {equipmentType.supply_types.length > 0 && (
+                        <div>
+                          <Label className="text-sm font-medium text-muted-foreground">Recommended Supplies</Label>
+                          <div className="flex flex-wrap gap-2 mt-1">
+                            {equipmentType.supply_types.map((supplyType) => (
+                              <Badge key={supplyType} variant="outline" className="gap-1 capitalize">
+                                <span>{cleaningEquipmentIcons[supplyType as keyof typeof cleaningEquipmentIcons] || cleaningEquipmentIcons.other}</span>
+                                {supplyType.replace(/_/g, ' ')}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })()}
+
+                {/* Cleaning Checklist */}
+                {detailEquipment && (
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold">Cleaning Checklist</h3>
+                    <CleaningChecklistEditor
+                      equipmentId={detailEquipment.id}
+                      steps={getStepsForEquipment(detailEquipment.id)}
+                      onStepsChange={(steps) => setCleaningSteps([
+                        ...cleaningSteps.filter(step => step.equipment_id !== detailEquipment.id),
+                        ...steps
+                      ])}
+                    />
+                  </div>
+                )}
+
                 {/* Settings */}
                 <div className="space-y-4">
                   <h3 className="text-lg font-semibold">Settings</h3>
@@ -1676,45 +2858,70 @@ const Equipment = () => {
                   </div>
                 </div>
 
-                {/* Recent Cleaning History */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Recent Cleaning History</h3>
-                  <div className="space-y-2">
-                    {cleaningLogs
-                      .filter(log => log.equipment_id === detailEquipment?.id)
-                      .slice(0, 5)
-                      .map((log) => (
-                        <div key={log.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
-                          <div>
-                            <p className="font-medium">{format(new Date(log.cleaned_at), 'MMM dd, yyyy')}</p>
-                            {log.notes && <p className="text-sm text-muted-foreground">{log.notes}</p>}
-                          </div>
-                          <CheckCircle className="w-5 h-5 text-green-500" />
-                        </div>
-                      ))}
-                    {cleaningLogs.filter(log => log.equipment_id === detailEquipment?.id).length === 0 && (
-                      <p className="text-sm text-muted-foreground text-center py-4">No cleaning history yet</p>
-                    )}
+                {/* Cleaning Delegates */}
+                {detailEquipment && detailEquipment.user_id === currentUserId && (
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold">Cleaning Delegates</h3>
+                    <CleaningDelegates
+                      equipment={detailEquipment}
+                      onChange={async () => {
+                        const { data } = await supabase
+                          .from('equipment')
+                          .select('*')
+                          .eq('id', detailEquipment.id)
+                          .single();
+                        if (data) {
+                          setDetailEquipment(data);
+                          setEquipment(equipment.map(item => item.id === data.id ? data : item));
+                        }
+                      }}
+                    />
                   </div>
-                </div>
+                )}
+
+                {/* Photo Timeline */}
+                {detailEquipment && (
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold">Photo Timeline</h3>
+                    <CleaningPhotoTimeline equipmentId={detailEquipment.id} equipmentName={detailEquipment.name} />
+                  </div>
+                )}
+
+                {/* Maintenance History */}
+                {detailEquipment && (
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold">Maintenance History</h3>
+                    <MaintenanceTimeline equipmentId={detailEquipment.id} />
+                  </div>
+                )}
               </div>
             </div>
 
             <div className="flex-shrink-0 pt-4 border-t">
               <div className="flex gap-3">
-                <Button 
-                  variant="outline" 
-                  className="flex-1"
-                  onClick={() => {
-                    if (detailEquipment) {
+                {detailEquipment && canManageEquipment(detailEquipment) && (
+                  <Button 
+                    variant="outline" 
+                    className="flex-1"
+                    onClick={() => {
                       setIsDetailDialogOpen(false);
                       openEditDialog(detailEquipment);
-                    }
-                  }}
-                >
-                  <Edit className="w-4 h-4 mr-2" />
-                  Edit Equipment
-                </Button>
+                    }}
+                  >
+                    <Edit className="w-4 h-4 mr-2" />
+                    Edit Equipment
+                  </Button>
+                )}
+                {detailEquipment && detailEquipment.user_id === currentUserId && (
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => handleSaveAsTemplate(detailEquipment)}
+                  >
+                    <Bookmark className="w-4 h-4 mr-2" />
+                    Save as Template
+                  </Button>
+                )}
                 <Button 
                   className="flex-1"
                   onClick={() => {
@@ -1807,6 +3014,17 @@ const Equipment = () => {
                     required
                   />
                 </div>
+                <div>
+                  <Label htmlFor="edit-cleaning-low-stock">Low Stock Alert At (quantity)</Label>
+                  <Input
+                    id="edit-cleaning-low-stock"
+                    type="number"
+                    min="0"
+                    value={cleaningEquipmentFormData.low_stock_threshold}
+                    onChange={(e) => setCleaningEquipmentFormData({ ...cleaningEquipmentFormData, low_stock_threshold: parseInt(e.target.value) || 0 })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">Set to 0 to turn off low stock warnings</p>
+                </div>
                 <div>
                   <Label htmlFor="edit-cleaning-description">Description/Notes</Label>
                   <Textarea
@@ -1895,7 +3113,12 @@ const Equipment = () => {
                     </div>
                     <div>
                       <Label className="text-sm font-medium text-muted-foreground">Quantity</Label>
-                      <p>{detailCleaningEquipment?.quantity}</p>
+                      <p className={detailCleaningEquipment && isLowStock(detailCleaningEquipment) ? 'text-yellow-600' : ''}>
+                        {detailCleaningEquipment?.quantity}
+                        {detailCleaningEquipment?.low_stock_threshold ? (
+                          <span className="text-sm text-muted-foreground"> (alert at {detailCleaningEquipment.low_stock_threshold})</span>
+                        ) : null}
+                      </p>
                     </div>
                   </div>
                   
@@ -1958,6 +3181,52 @@ const Equipment = () => {
                   </div>
                 )}
 
+                {/* Purchase History */}
+                {detailCleaningEquipment && (
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold">Purchase History</h3>
+                    <SupplyRestockHistory
+                      supplyId={detailCleaningEquipment.id}
+                      defaultSupplier={detailCleaningEquipment.supplier}
+                      defaultUnitPrice={detailCleaningEquipment.cost_per_unit}
+                      onRestocksChange={() => refreshCleaningEquipmentDetail(detailCleaningEquipment.id)}
+                    />
+                  </div>
+                )}
+
+                {/* Usage History */}
+                {detailCleaningEquipment && (() => {
+                  const usage = cleaningLogs.flatMap(log =>
+                    (log.supplies || [])
+                      .filter(supply => supply.cleaning_equipment_id === detailCleaningEquipment.id)
+                      .map(supply => ({ log, quantityUsed: supply.quantity_used }))
+                  );
+
+                  return (
+                    <div className="space-y-4">
+                      <h3 className="text-lg font-semibold">Usage History</h3>
+                      {usage.length > 0 ? (
+                        <div className="space-y-2">
+                          <p className="text-sm text-muted-foreground">
+                            Used {usage.reduce((total, entry) => total + entry.quantityUsed, 0)} across {usage.length} cleaning{usage.length === 1 ? '' : 's'}
+                          </p>
+                          {usage.slice(0, 5).map(({ log, quantityUsed }) => (
+                            <div key={log.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                              <div>
+                                <p className="font-medium">{log.equipment?.name}</p>
+                                <p className="text-sm text-muted-foreground">{format(new Date(log.cleaned_at), 'MMM dd, yyyy')}</p>
+                              </div>
+                              <span className="text-sm">×{quantityUsed}</span>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-muted-foreground text-center py-4">Not used in any cleanings yet</p>
+                      )}
+                    </div>
+                  );
+                })()}
+
                 {/* Notes */}
                 {detailCleaningEquipment?.notes && (
                   <div className="space-y-4">
@@ -1,13 +1,14 @@
-import { Settings, Music, Bell, Users, Calendar, Headphones, TrendingUp, Trophy, Flame, Crown, User } from "lucide-react";
+import { Settings, Music, Bell, Users, Calendar, Headphones, TrendingUp, Trophy, Flame, Crown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { useEffect, useState } from "react";
 import UserSearch from "@/components/UserSearch";
+import Leaderboard from "@/components/Leaderboard";
+import AssignedCleanings from "@/components/AssignedCleanings";
 import { notificationService } from "@/services/notificationService";
 import { ExpoNotificationTest } from "@/components/ExpoNotificationTest";
 
@@ -18,15 +19,6 @@ interface Equipment {
   best_streak: number;
 }
 
-interface TopStreak {
-  user_id: string;
-  username: string;
-  display_name: string;
-  avatar_url: string;
-  best_streak: number;
-  equipment_name: string;
-}
-
 const Home = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -34,7 +26,6 @@ const Home = () => {
   const [greeting, setGreeting] = useState("");
   const [unreadNotifications, setUnreadNotifications] = useState(0);
   const [bestEquipment, setBestEquipment] = useState<Equipment | null>(null);
-  const [topStreaks, setTopStreaks] = useState<TopStreak[]>([]);
   const [userRank, setUserRank] = useState<number>(0);
   const [totalUsers, setTotalUsers] = useState<number>(0);
 
@@ -314,14 +305,6 @@ const Home = () => {
         setBestEquipment(equipment[0]);
       }
 
-      // Get global top streaks from all users
-      const { data: streaks } = await supabase
-        .rpc('get_global_top_streaks', { 
-          p_limit: 5 
-        });
-
-      setTopStreaks(streaks || []);
-
       // Get user's global rank
       const { data: rankData } = await supabase
         .rpc('get_user_global_rank', { 
@@ -451,6 +434,9 @@ const Home = () => {
           ))}
         </div>
 
+        {/* Cleanings delegated to this user */}
+        {user && <AssignedCleanings userId={user.id} />}
+
         {/* User's Best Equipment */}
         {bestEquipment && (
           <Card className="glass-card mb-6">
@@ -503,50 +489,8 @@ const Home = () => {
           </Card>
         )}
 
-        {/* Top Streaks Leaderboard */}
-        {topStreaks.length > 0 && (
-          <Card className="glass-card">
-            <CardHeader className="pb-3">
-              <CardTitle className="flex items-center gap-2 text-lg">
-                <Users className="w-5 h-5 text-blue-500" />
-                Top Streaks
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              {topStreaks.map((streak, index) => (
-                <div 
-                  key={streak.user_id} 
-                  className="flex items-center gap-3 p-2 rounded-lg bg-accent/5 cursor-pointer hover:bg-accent/10 transition-colors"
-                  onClick={() => navigate(`/profile/${streak.user_id}`)}
-                >
-                  <div className="flex items-center gap-2 min-w-0 flex-1">
-                    <span className="text-sm font-bold text-muted-foreground w-4">
-                      #{index + 1}
-                    </span>
-                    <Avatar className="w-8 h-8">
-                      <AvatarImage src={streak.avatar_url} />
-                      <AvatarFallback>
-                        <User className="w-4 h-4" />
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className="min-w-0 flex-1">
-                      <p className="font-semibold text-sm truncate">
-                        {streak.display_name || streak.username}
-                      </p>
-                      <p className="text-xs text-muted-foreground truncate">
-                        {streak.equipment_name}
-                      </p>
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-1">
-                    <Flame className="w-4 h-4 text-orange-500" />
-                    <span className="font-bold">{streak.best_streak}</span>
-                  </div>
-                </div>
-              ))}
-            </CardContent>
-          </Card>
-        )}
+        {/* Leaderboard */}
+        {user && <Leaderboard userId={user.id} />}
       </div>
     </div>
   );
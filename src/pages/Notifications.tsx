@@ -3,7 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Bell, User, Heart, MessageCircle, UserPlus, Calendar, ArrowLeft, Check, CheckCheck } from "lucide-react";
+import { Bell, User, Heart, MessageCircle, UserPlus, Calendar, ArrowLeft, Check, CheckCheck, Package, Award, ClipboardList, ShieldCheck } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
@@ -180,8 +180,20 @@ const Notifications = () => {
         }
         break;
       case 'cleaning_reminder':
+      case 'low_stock':
+      case 'cleaning_assigned':
         navigate('/equipment');
         break;
+      case 'cleaning_delegation':
+        // Pending requests are answered from Home
+        navigate(notification.data?.status ? '/equipment' : '/home');
+        break;
+      case 'achievement':
+        navigate('/profile');
+        break;
+      case 'account_deletion_cancelled':
+        navigate('/settings');
+        break;
       default:
         // Fallback navigation
         navigate('/home');
@@ -201,6 +213,15 @@ const Notifications = () => {
         return <MessageCircle className="w-5 h-5 text-green-500" />;
       case 'cleaning_reminder':
         return <Calendar className="w-5 h-5 text-orange-500" />;
+      case 'low_stock':
+        return <Package className="w-5 h-5 text-yellow-500" />;
+      case 'achievement':
+        return <Award className="w-5 h-5 text-amber-500" />;
+      case 'cleaning_delegation':
+      case 'cleaning_assigned':
+        return <ClipboardList className="w-5 h-5 text-primary" />;
+      case 'account_deletion_cancelled':
+        return <ShieldCheck className="w-5 h-5 text-green-500" />;
       default:
         return <Bell className="w-5 h-5 text-muted-foreground" />;
     }
@@ -1,4 +1,4 @@
-import { User, Settings, Music, Calendar, Bell, CheckCircle, Edit, Heart, Users, Grid, UserPlus, UserMinus, Camera, ArrowLeft } from "lucide-react";
+import { User, Settings, Music, Calendar, Bell, CheckCircle, Edit, Heart, Users, Grid, UserPlus, UserMinus, Camera, ArrowLeft, Award } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -13,8 +13,11 @@ import CreatePost from "@/components/CreatePost";
 import PostGridItem from "@/components/PostGridItem";
 import PostModal from "@/components/PostModal";
 import FollowButton from "@/components/FollowButton";
+import AchievementBadges from "@/components/AchievementBadges";
+import ProfileBands from "@/components/ProfileBands";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useEquipmentTypes } from "@/hooks/useEquipmentTypes";
 import { format } from "date-fns";
 
 interface Equipment {
@@ -58,21 +61,6 @@ interface FollowStats {
   following: number;
 }
 
-const equipmentIcons = {
-  guitar: "🎸",
-  drums: "🥁", 
-  microphone: "🎤",
-  speaker: "🔊",
-  keyboard: "🎹",
-  violin: "🎻",
-  trumpet: "🎺",
-  saxophone: "🎷",
-  amplifier: "📢",
-  mixer: "🎛️",
-  headphones: "🎧",
-  other: "🎵"
-};
-
 const Profile = () => {
   const { userId } = useParams();
   const navigate = useNavigate();
@@ -92,6 +80,7 @@ const Profile = () => {
   const [commentsCount, setCommentsCount] = useState<Record<string, number>>({});
   const [isOwnProfile, setIsOwnProfile] = useState(false);
   const { toast } = useToast();
+  const { getEquipmentIcon } = useEquipmentTypes();
 
   useEffect(() => {
     fetchCurrentUser();
@@ -492,6 +481,11 @@ const Profile = () => {
                 )}
               </div>
 
+              {/* Bands */}
+              {userProfile?.user_id && (
+                <ProfileBands userId={userProfile.user_id} isOwnProfile={isOwnProfile} />
+              )}
+
               {/* Follow Button */}
               {!isOwnProfile && (
                 <div className="mt-3">
@@ -509,7 +503,7 @@ const Profile = () => {
       {/* Content Tabs */}
       <div className="px-6">
         <Tabs defaultValue="posts" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="posts" className="flex items-center gap-2">
               <Grid className="w-4 h-4" />
               Posts
@@ -518,8 +512,17 @@ const Profile = () => {
               <Music className="w-4 h-4" />
               Equipment
             </TabsTrigger>
+            <TabsTrigger value="badges" className="flex items-center gap-2">
+              <Award className="w-4 h-4" />
+              Badges
+            </TabsTrigger>
           </TabsList>
 
+          {/* Badges Tab */}
+          <TabsContent value="badges" className="mt-6">
+            <AchievementBadges userId={userProfile?.user_id || ''} isOwnProfile={isOwnProfile} />
+          </TabsContent>
+
           {/* Posts Tab */}
           <TabsContent value="posts" className="mt-6">
             {isOwnProfile && <CreatePost onPostCreated={() => fetchPosts(currentUser?.id || '')} />}
@@ -572,7 +575,7 @@ const Profile = () => {
                                   className="w-12 h-12 rounded-lg object-cover border border-border/50"
                                 />
                               ) : (
-                                <span className="text-2xl">{equipmentIcons[item.icon as keyof typeof equipmentIcons] || equipmentIcons.other}</span>
+                                <span className="text-2xl">{getEquipmentIcon(item.icon)}</span>
                               )}
                               <div className="space-y-1">
                                 <h4 className="font-medium text-sm leading-tight">{item.name}</h4>
@@ -676,7 +679,7 @@ const Profile = () => {
                 />
               ) : (
                 <div className="w-12 h-12 bg-muted rounded-lg flex items-center justify-center text-xl">
-                  {detailEquipment && equipmentIcons[detailEquipment.type as keyof typeof equipmentIcons] || detailEquipment?.icon || "🎵"}
+                  {detailEquipment && getEquipmentIcon(detailEquipment.type)}
                 </div>
               )}
               <div>
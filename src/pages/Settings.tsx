@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { ArrowLeft, User, Bell, Shield, Palette, LogOut, Trash2 } from "lucide-react";
+import { ArrowLeft, User, Bell, Shield, Palette, LogOut, Trash2, Download } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
@@ -7,7 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { AlertDialog, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
@@ -54,6 +54,10 @@ const Settings = () => {
   const [notifications, setNotifications] = useState(true);
   const [loading, setLoading] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [deletePassword, setDeletePassword] = useState("");
+  const [deleting, setDeleting] = useState(false);
+  const [deletionScheduledFor, setDeletionScheduledFor] = useState<string | null>(null);
 
   useEffect(() => {
     fetchUserProfile();
@@ -77,6 +81,14 @@ const Settings = () => {
         setBio(profile.bio || "");
         setEmail(profile.email || user.email || "");
       }
+
+      const { data: deletionRequest } = await supabase
+        .from('account_deletion_requests')
+        .select('scheduled_for')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      setDeletionScheduledFor(deletionRequest?.scheduled_for || null);
     } catch (error) {
       console.error('Error fetching user profile:', error);
     }
@@ -116,21 +128,83 @@ const Settings = () => {
     }
   };
 
+  // The archive is put together by an edge function so large accounts don't
+  // need dozens of requests from the browser
+  const handleExportData = async () => {
+    setExporting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('export-user-data');
+      if (error) throw error;
+
+      const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `my-data-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Export Ready",
+        description: "Your data has been downloaded",
+      });
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export your data",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
 
+  // Deletion runs 14 days after the request; signing in again before then
+  // cancels it (handled by a trigger on sign-in)
   const handleDeleteAccount = async () => {
+    if (!deletePassword) return;
+
+    setDeleting(true);
     try {
-      // Note: In a real app, you'd want to handle account deletion more carefully
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user?.email) throw new Error('Not signed in');
+
+      // Re-entering the password refreshes the sign-in the request requires
+      const { error: passwordError } = await supabase.auth.signInWithPassword({
+        email: user.email,
+        password: deletePassword,
+      });
+
+      if (passwordError) {
+        toast({
+          title: "Error",
+          description: "Incorrect password",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { data: scheduledFor, error } = await supabase.rpc('request_account_deletion');
+      if (error) throw error;
+
       toast({
-        title: "Account Deletion",
-        description: "Please contact support to delete your account",
+        title: "Account Deletion Scheduled",
+        description: `Your account will be deleted on ${new Date(scheduledFor).toLocaleDateString()}. Signing in again before then cancels it.`,
       });
+
       setShowDeleteDialog(false);
+      await supabase.auth.signOut();
+      navigate("/auth");
     } catch (error) {
+      console.error('Error requesting account deletion:', error);
       toast({
         title: "Error",
         description: "Failed to delete account",
         variant: "destructive",
       });
+    } finally {
+      setDeleting(false);
+      setDeletePassword("");
     }
   };
 
@@ -294,6 +368,24 @@ const Settings = () => {
                 Only you can access your personal information.
               </AlertDescription>
             </Alert>
+
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label>Your Data</Label>
+                <p className="text-sm text-muted-foreground">
+                  Download everything stored for your account as a single JSON file
+                </p>
+              </div>
+              <Button
+                onClick={handleExportData}
+                disabled={exporting}
+                variant="outline"
+                className="flex items-center gap-2 shrink-0"
+              >
+                <Download className="w-4 h-4" />
+                {exporting ? "Preparing..." : "Download My Data"}
+              </Button>
+            </div>
           </CardContent>
         </Card>
 
@@ -312,7 +404,21 @@ const Settings = () => {
               Logout
             </Button>
             
-            <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+            {deletionScheduledFor && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  Your account is scheduled for deletion on {new Date(deletionScheduledFor).toLocaleDateString()}.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <AlertDialog
+              open={showDeleteDialog}
+              onOpenChange={(open) => {
+                setShowDeleteDialog(open);
+                if (!open) setDeletePassword("");
+              }}
+            >
               <AlertDialogTrigger asChild>
                 <Button
                   variant="destructive"
@@ -326,19 +432,30 @@ const Settings = () => {
                 <AlertDialogHeader>
                   <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                   <AlertDialogDescription>
-                    This action cannot be undone. This will permanently delete your
-                    account and remove all your data from our servers including your posts,
-                    followers, and equipment information.
+                    Your account will be permanently deleted in 14 days, including your
+                    posts, followers, equipment information and uploaded photos. You'll be
+                    signed out now; signing in again before then cancels the deletion.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
+                <div className="space-y-2">
+                  <Label htmlFor="delete-password">Enter your password to confirm</Label>
+                  <Input
+                    id="delete-password"
+                    type="password"
+                    value={deletePassword}
+                    onChange={(e) => setDeletePassword(e.target.value)}
+                    autoComplete="current-password"
+                  />
+                </div>
                 <AlertDialogFooter>
-                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                  <AlertDialogAction
+                  <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+                  <Button
                     onClick={handleDeleteAccount}
-                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    disabled={!deletePassword || deleting}
+                    variant="destructive"
                   >
-                    Yes, delete my account
-                  </AlertDialogAction>
+                    {deleting ? "Confirming..." : "Yes, delete my account"}
+                  </Button>
                 </AlertDialogFooter>
               </AlertDialogContent>
             </AlertDialog>
@@ -0,0 +1,263 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Must match src/lib/ical.ts so downloaded events and feed events share UIDs
+const PRODUCT_ID = "-//Clean Beats//Calendar//EN";
+const UID_DOMAIN = "cleanbeats.app";
+
+// Older events are left out to keep the feed small
+const PAST_EVENT_DAYS = 365;
+
+const eventTypeIcons: Record<string, string> = {
+  gig: "🎸",
+  show: "🎭",
+  jam: "🎵",
+  rehearsal: "🎶",
+  recording: "🎙️",
+  other: "📅"
+};
+
+interface FeedEvent {
+  id: string;
+  title: string;
+  description: string | null;
+  event_type: string;
+  start_date: string;
+  end_date: string | null;
+  location: string | null;
+  updated_at: string;
+}
+
+interface FeedEquipment {
+  id: string;
+  name: string;
+  cleaning_frequency_days: number;
+  next_cleaning_due: string | null;
+  schedule_mode: string | null;
+  updated_at: string;
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > 74) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+const formatDate = (date: Date) => date.toISOString().slice(0, 10).replace(/-/g, "");
+
+// The calendar day a moment falls on for the user, as a UTC midnight so
+// formatDate and day arithmetic work on it
+const localDay = (date: Date, timeZone: string) => {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).formatToParts(date);
+  } catch {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+  const part = (type: string) => Number(parts.find(item => item.type === type)?.value);
+  return new Date(Date.UTC(part("year"), part("month") - 1, part("day")));
+};
+
+const eventLines = (event: FeedEvent, stamp: string) => [
+  "BEGIN:VEVENT",
+  `UID:event-${event.id}@${UID_DOMAIN}`,
+  `DTSTAMP:${stamp}`,
+  `LAST-MODIFIED:${formatDateTime(new Date(event.updated_at))}`,
+  `DTSTART:${formatDateTime(new Date(event.start_date))}`,
+  ...(event.end_date ? [`DTEND:${formatDateTime(new Date(event.end_date))}`] : []),
+  `SUMMARY:${escapeText(`${eventTypeIcons[event.event_type] || eventTypeIcons.other} ${event.title}`)}`,
+  `CATEGORIES:${escapeText(event.event_type)}`,
+  ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+  ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+  "END:VEVENT",
+];
+
+// Time-based schedules repeat every cleaning_frequency_days from the next
+// due date; usage-based ones only know the next due date. All-day events
+// use the due day in the user's time zone.
+const cleaningLines = (item: FeedEquipment, stamp: string, timeZone: string) => {
+  const start = localDay(new Date(item.next_cleaning_due as string), timeZone);
+  const isUsageBased = item.schedule_mode === 'hours' || item.schedule_mode === 'events';
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:cleaning-${item.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${formatDateTime(new Date(item.updated_at))}`,
+    `DTSTART;VALUE=DATE:${formatDate(start)}`,
+    `DTEND;VALUE=DATE:${formatDate(new Date(start.getTime() + 24 * 60 * 60 * 1000))}`,
+    ...(isUsageBased ? [] : [`RRULE:FREQ=DAILY;INTERVAL=${item.cleaning_frequency_days}`]),
+    `SUMMARY:${escapeText(`🧽 Clean ${item.name}`)}`,
+    "CATEGORIES:cleaning",
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ];
+};
+
+// Own equipment plus items shared through groups or accepted delegations
+const fetchEquipment = async (userId: string) => {
+  const { data: memberships, error: membershipsError } = await supabase
+    .from('equipment_group_members')
+    .select('group_id')
+    .eq('user_id', userId);
+
+  if (membershipsError) throw membershipsError;
+
+  const { data: delegations, error: delegationsError } = await supabase
+    .from('equipment_delegates')
+    .select('equipment_id')
+    .eq('delegate_id', userId)
+    .eq('status', 'accepted');
+
+  if (delegationsError) throw delegationsError;
+
+  const groupIds = (memberships || []).map(membership => membership.group_id);
+  const delegatedIds = (delegations || []).map(delegation => delegation.equipment_id);
+  const filters = [`user_id.eq.${userId}`];
+  if (groupIds.length > 0) filters.push(`group_id.in.(${groupIds.join(',')})`);
+  if (delegatedIds.length > 0) filters.push(`id.in.(${delegatedIds.join(',')})`);
+
+  const { data, error } = await supabase
+    .from('equipment')
+    .select('id, name, cleaning_frequency_days, next_cleaning_due, schedule_mode, updated_at')
+    .or(filters.join(','))
+    .not('next_cleaning_due', 'is', null);
+
+  if (error) throw error;
+  return (data || []) as FeedEquipment[];
+};
+
+const fetchTimeZone = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('user_timezones')
+    .select('timezone')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.timezone || 'UTC';
+};
+
+// Own events plus events of the user's bands
+const fetchEvents = async (userId: string) => {
+  const { data: bands, error: bandsError } = await supabase
+    .from('band_members')
+    .select('band_id')
+    .eq('user_id', userId);
+
+  if (bandsError) throw bandsError;
+
+  const bandIds = (bands || []).map(band => band.band_id);
+  const filter = bandIds.length > 0
+    ? `user_id.eq.${userId},band_id.in.(${bandIds.join(',')})`
+    : `user_id.eq.${userId}`;
+
+  const { data, error } = await supabase
+    .from('events')
+    .select('id, title, description, event_type, start_date, end_date, location, updated_at')
+    .or(filter)
+    .gte('start_date', new Date(Date.now() - PAST_EVENT_DAYS * 24 * 60 * 60 * 1000).toISOString())
+    .order('start_date');
+
+  if (error) throw error;
+  return (data || []) as FeedEvent[];
+};
+
+// Public endpoint for calendar apps: the secret token in the query string
+// identifies the user, so verify_jwt is turned off in config.toml
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token') ?? '';
+
+    const { data: feed, error: feedError } = token
+      ? await supabase.from('calendar_feeds').select('user_id').eq('token', token).maybeSingle()
+      : { data: null, error: null };
+
+    if (feedError) throw feedError;
+
+    if (!feed) {
+      return new Response('Calendar feed not found', {
+        status: 404,
+        headers: { "Content-Type": "text/plain", ...corsHeaders },
+      });
+    }
+
+    const [events, equipment, timeZone] = await Promise.all([
+      fetchEvents(feed.user_id),
+      fetchEquipment(feed.user_id),
+      fetchTimeZone(feed.user_id),
+    ]);
+
+    console.log(`Serving calendar feed for ${feed.user_id}: ${events.length} events, ${equipment.length} cleaning schedules`);
+
+    const stamp = formatDateTime(new Date());
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      `PRODID:${PRODUCT_ID}`,
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "X-WR-CALNAME:Clean Beats",
+      "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+      "X-PUBLISHED-TTL:PT6H",
+      ...events.flatMap(event => eventLines(event, stamp)),
+      ...equipment.flatMap(item => cleaningLines(item, stamp, timeZone)),
+      "END:VCALENDAR",
+    ];
+
+    return new Response(lines.map(foldLine).join("\r\n") + "\r\n", {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="clean-beats.ics"',
+        ...corsHeaders,
+      },
+    });
+
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
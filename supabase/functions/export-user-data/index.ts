@@ -0,0 +1,155 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Rows are read in pages so large accounts don't hit the API row limit
+const PAGE_SIZE = 1000;
+
+// Archive section, table and the column that ties a row to the user
+const SECTIONS: [string, string, string][] = [
+  ['equipment', 'equipment', 'user_id'],
+  ['equipment_cleaning_steps', 'equipment_cleaning_steps', 'user_id'],
+  ['equipment_templates', 'equipment_templates', 'user_id'],
+  ['cleaning_pauses', 'cleaning_pauses', 'user_id'],
+  ['maintenance_logs', 'maintenance_logs', 'user_id'],
+  ['cleaning_supplies', 'cleaning_equipment', 'user_id'],
+  ['supply_restocks', 'cleaning_equipment_restocks', 'user_id'],
+  ['cleaning_logs', 'cleaning_logs', 'user_id'],
+  ['cleaning_log_steps', 'cleaning_log_steps', 'user_id'],
+  ['cleaning_log_supplies', 'cleaning_log_supplies', 'user_id'],
+  ['cleaning_log_photos', 'cleaning_log_photos', 'user_id'],
+  ['events', 'events', 'user_id'],
+  ['event_equipment', 'event_equipment', 'user_id'],
+  ['event_packing_items', 'event_packing_items', 'user_id'],
+  ['event_attendances', 'event_attendees', 'user_id'],
+  ['posts', 'posts', 'user_id'],
+  ['post_comments', 'post_comments', 'user_id'],
+  ['event_comments', 'event_comments', 'user_id'],
+  ['post_likes', 'post_likes', 'user_id'],
+  ['event_likes', 'event_likes', 'user_id'],
+  ['following', 'followers', 'follower_id'],
+  ['followers', 'followers', 'following_id'],
+  ['notifications', 'notifications', 'user_id'],
+  ['achievements', 'user_achievements', 'user_id'],
+  ['bands_created', 'bands', 'created_by'],
+  ['band_memberships', 'band_members', 'user_id'],
+  ['equipment_group_memberships', 'equipment_group_members', 'user_id'],
+  ['delegations_given', 'equipment_delegates', 'owner_id'],
+  ['delegations_received', 'equipment_delegates', 'delegate_id'],
+  ['timezone', 'user_timezones', 'user_id'],
+];
+
+// Columns holding links to uploaded files, either one URL or an array
+const PHOTO_COLUMNS: [string, string][] = [
+  ['profile', 'avatar_url'],
+  ['bands_created', 'avatar_url'],
+  ['equipment', 'photo_url'],
+  ['maintenance_logs', 'attachment_urls'],
+  ['cleaning_supplies', 'photo_url'],
+  ['cleaning_logs', 'photo_url'],
+  ['cleaning_log_photos', 'photo_url'],
+  ['posts', 'image_url'],
+];
+
+const fetchAllRows = async (table: string, column: string, userId: string) => {
+  const rows: Record<string, unknown>[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq(column, userId)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only the signed-in user can export, and only their own data
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Not signed in' }),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json", ...corsHeaders },
+        }
+      );
+    }
+
+    console.log(`Exporting data for user ${user.id}`);
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+
+    const archive: Record<string, unknown> = {
+      exported_at: new Date().toISOString(),
+      account: {
+        id: user.id,
+        email: user.email,
+        created_at: user.created_at,
+        last_sign_in_at: user.last_sign_in_at,
+      },
+      profile,
+    };
+
+    for (const [section, table, column] of SECTIONS) {
+      archive[section] = await fetchAllRows(table, column, user.id);
+    }
+
+    const photoUrls = PHOTO_COLUMNS.flatMap(([section, column]) => {
+      const value = archive[section];
+      const rows = Array.isArray(value) ? value : value ? [value] : [];
+      return rows.flatMap(row => (row as Record<string, unknown>)[column]).filter(Boolean);
+    });
+    archive.photo_urls = [...new Set(photoUrls)];
+
+    console.log(`Export for ${user.id} ready: ${SECTIONS.length} sections, ${photoUrls.length} photos`);
+
+    return new Response(JSON.stringify(archive), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="my-data-${archive.exported_at.toString().slice(0, 10)}.json"`,
+        ...corsHeaders,
+      },
+    });
+
+  } catch (error) {
+    console.error("Error exporting user data:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,133 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Uploads are stored under a folder named after the user id
+const STORAGE_BUCKETS = ['avatars', 'equipment-photos'];
+
+const LIST_LIMIT = 1000;
+
+// Folders come back from list() without an id, so walk into them
+const listFiles = async (bucket: string, folder: string): Promise<string[]> => {
+  const paths: string[] = [];
+
+  for (let offset = 0; ; offset += LIST_LIMIT) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(folder, { limit: LIST_LIMIT, offset });
+
+    if (error) throw error;
+
+    for (const item of data || []) {
+      const path = `${folder}/${item.name}`;
+      if (item.id === null) {
+        paths.push(...await listFiles(bucket, path));
+      } else {
+        paths.push(path);
+      }
+    }
+
+    if (!data || data.length < LIST_LIMIT) return paths;
+  }
+};
+
+const deleteUserFiles = async (userId: string) => {
+  let removed = 0;
+
+  for (const bucket of STORAGE_BUCKETS) {
+    const paths = await listFiles(bucket, userId);
+
+    for (let i = 0; i < paths.length; i += LIST_LIMIT) {
+      const { error } = await supabase.storage
+        .from(bucket)
+        .remove(paths.slice(i, i + LIST_LIMIT));
+
+      if (error) throw error;
+    }
+
+    removed += paths.length;
+  }
+
+  return removed;
+};
+
+// Meant to run once a day on a schedule. Deletes accounts whose 14-day
+// grace period has ended: files first, then rows, then the auth user.
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    console.log('Checking for due account deletions...');
+
+    const { data: requests, error: requestsError } = await supabase
+      .from('account_deletion_requests')
+      .select('user_id, scheduled_for')
+      .lte('scheduled_for', new Date().toISOString());
+
+    if (requestsError) throw requestsError;
+
+    console.log(`Found ${requests?.length || 0} accounts to delete`);
+
+    const deleted: string[] = [];
+    const failed: { userId: string; error: string }[] = [];
+
+    for (const request of requests || []) {
+      // One failing account shouldn't block the rest; it is retried next run
+      try {
+        const filesRemoved = await deleteUserFiles(request.user_id);
+
+        const { error: dataError } = await supabase.rpc('delete_user_data', {
+          p_user_id: request.user_id,
+        });
+        if (dataError) throw dataError;
+
+        const { error: authError } = await supabase.auth.admin.deleteUser(request.user_id);
+        if (authError) throw authError;
+
+        console.log(`Deleted account ${request.user_id} (${filesRemoved} files)`);
+        deleted.push(request.user_id);
+      } catch (error) {
+        console.error(`Error deleting account ${request.user_id}:`, error);
+        failed.push({
+          userId: request.user_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        deleted: deleted.length,
+        failed,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error processing account deletions:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
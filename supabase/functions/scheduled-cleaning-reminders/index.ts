@@ -17,6 +17,7 @@ interface CleaningReminder {
   equipmentName: string;
   daysOverdue: number;
   timezone: string;
+  usageSummary?: string;
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -48,9 +49,13 @@ const handler = async (req: Request): Promise<Response> => {
         id,
         name,
         user_id,
+        group_id,
+        assigned_to,
         next_cleaning_due,
         notifications_enabled,
-        last_cleaned_at
+        last_cleaned_at,
+        schedule_mode,
+        usage_interval
       `)
       .eq('notifications_enabled', true)
       .lt('next_cleaning_due', now.toISOString());
@@ -73,8 +78,38 @@ const handler = async (req: Request): Promise<Response> => {
       });
     }
 
-    // Get user profiles and timezones
-    const userIds = [...new Set(overdueEquipment.map(eq => eq.user_id))];
+    // Shared equipment reminds every member of its group, not just whoever
+    // added it
+    const groupIds = [...new Set(overdueEquipment.map(eq => eq.group_id).filter(Boolean))];
+    const groupMembers = new Map<string, string[]>();
+    if (groupIds.length > 0) {
+      const { data: members, error: membersError } = await supabase
+        .from('equipment_group_members')
+        .select('group_id, user_id')
+        .in('group_id', groupIds);
+
+      if (membersError) {
+        console.error('Error fetching equipment group members:', membersError);
+        // Continue with owners only
+      }
+
+      members?.forEach(member => {
+        groupMembers.set(member.group_id, [...(groupMembers.get(member.group_id) || []), member.user_id]);
+      });
+    }
+
+    // A cleaning assigned to a delegate reminds only them
+    const recipients = overdueEquipment.flatMap(equipment =>
+      (equipment.assigned_to
+        ? [equipment.assigned_to]
+        : [...new Set([equipment.user_id, ...(groupMembers.get(equipment.group_id) || [])])]
+      ).map(userId => ({ equipment, userId }))
+    );
+
+    // Get user profiles and timezones. Owners are looked up too since their
+    // pauses and timezone decide whether an item is paused.
+    const userIds = [...new Set(recipients.map(recipient => recipient.userId))];
+    const ownerIds = [...new Set(overdueEquipment.map(eq => eq.user_id))];
     
     const { data: profiles, error: profilesError } = await supabase
       .from('profiles')
@@ -89,7 +124,7 @@ const handler = async (req: Request): Promise<Response> => {
     const { data: timezones, error: timezonesError } = await supabase
       .from('user_timezones')
       .select('user_id, timezone')
-      .in('user_id', userIds);
+      .in('user_id', [...new Set([...userIds, ...ownerIds])]);
 
     if (timezonesError) {
       console.error('Error fetching timezones:', timezonesError);
@@ -102,23 +137,88 @@ const handler = async (req: Request): Promise<Response> => {
       userTimezones.set(tz.user_id, tz.timezone);
     });
 
+    // Vacation mode and streak freezes that might cover today somewhere in
+    // the world; checked per user against their local date below
+    const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const { data: pauses, error: pausesError } = await supabase
+      .from('cleaning_pauses')
+      .select('user_id, equipment_id, starts_on, ends_on')
+      .in('user_id', ownerIds)
+      .lte('starts_on', tomorrow)
+      .gte('ends_on', yesterday);
+
+    if (pausesError) {
+      console.error('Error fetching cleaning pauses:', pausesError);
+      // Continue without pauses
+    }
+
+    const isPaused = (equipment: typeof overdueEquipment[number], timezone: string) => {
+      const localDate = now.toLocaleDateString('en-CA', { timeZone: timezone });
+      return (pauses || []).some(pause =>
+        pause.user_id === equipment.user_id &&
+        (!pause.equipment_id || pause.equipment_id === equipment.id) &&
+        pause.starts_on <= localDate && pause.ends_on >= localDate
+      );
+    };
+
     // Create user profile map
     const userProfiles = new Map();
     profiles?.forEach(profile => {
       userProfiles.set(profile.user_id, profile);
     });
 
+    // Usage since last cleaning for equipment on hours/events schedules.
+    // Their next_cleaning_due is already set by the database once assigned
+    // events use up the interval, so they are picked up by the query above.
+    const usageBasedUserIds = [...new Set(
+      overdueEquipment.filter(eq => eq.schedule_mode !== 'days').map(eq => eq.user_id)
+    )];
+    const equipmentUsage = new Map();
+    for (const userId of usageBasedUserIds) {
+      const { data: usage, error: usageError } = await supabase
+        .rpc('get_equipment_usage', { p_user_id: userId });
+
+      if (usageError) {
+        console.error(`Error fetching equipment usage for ${userId}:`, usageError);
+        continue;
+      }
+
+      usage?.forEach((row: { equipment_id: string; events_played: number; hours_played: number }) => {
+        equipmentUsage.set(row.equipment_id, row);
+      });
+    }
+
+    const getUsageSummary = (equipment: typeof overdueEquipment[number]) => {
+      if (equipment.schedule_mode === 'days') return undefined;
+      const usage = equipmentUsage.get(equipment.id);
+      if (!usage) return undefined;
+      return equipment.schedule_mode === 'hours'
+        ? `${Math.round(Number(usage.hours_played))} hours of playing`
+        : `${usage.events_played} gigs and rehearsals`;
+    };
+
     const remindersToSend: CleaningReminder[] = [];
 
-    // Process each piece of equipment with timezone awareness
-    for (const equipment of overdueEquipment) {
-      const profile = userProfiles.get(equipment.user_id);
+    // Process each piece of equipment for each recipient with timezone awareness
+    for (const { equipment, userId } of recipients) {
+      const profile = userProfiles.get(userId);
       if (!profile || !profile.email) {
-        console.log(`No profile or email found for user ${equipment.user_id}`);
+        console.log(`No profile or email found for user ${userId}`);
         continue;
       }
 
-      const userTimezone = userTimezones.get(equipment.user_id) || 'UTC';
+      const userTimezone = userTimezones.get(userId) || 'UTC';
+
+      try {
+        // Pauses are set by the equipment's owner
+        if (isPaused(equipment, userTimezones.get(equipment.user_id) || 'UTC')) {
+          console.log(`Skipped ${equipment.name} for user ${userId} - cleaning paused`);
+          continue;
+        }
+      } catch (pauseError) {
+        console.error(`Error checking pause for timezone ${userTimezone}:`, pauseError);
+      }
       
       // Calculate what time it is locally for this user
       try {
@@ -128,7 +228,7 @@ const handler = async (req: Request): Promise<Response> => {
         const userHour = userTime.getHours();
         const userMinute = userTime.getMinutes();
         
-        console.log(`User ${equipment.user_id} (${userTimezone}): Local time is ${userHour}:${userMinute.toString().padStart(2, '0')}, target is ${targetHour}:${targetMinute.toString().padStart(2, '0')}`);
+        console.log(`User ${userId} (${userTimezone}): Local time is ${userHour}:${userMinute.toString().padStart(2, '0')}, target is ${targetHour}:${targetMinute.toString().padStart(2, '0')}`);
         
         // Only send reminder if it's within 30 minutes of the target time for this user
         const isCorrectHour = userHour === targetHour;
@@ -140,16 +240,17 @@ const handler = async (req: Request): Promise<Response> => {
           const daysOverdue = Math.floor((now.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24));
 
           remindersToSend.push({
-            userId: equipment.user_id,
+            userId: userId,
             email: profile.email,
             equipmentName: equipment.name,
             daysOverdue,
-            timezone: userTimezone
+            timezone: userTimezone,
+            usageSummary: getUsageSummary(equipment)
           });
           
-          console.log(`Added reminder for user ${equipment.user_id} - ${equipment.name} (${daysOverdue} days overdue)`);
+          console.log(`Added reminder for user ${userId} - ${equipment.name} (${daysOverdue} days overdue)`);
         } else {
-          console.log(`Skipped user ${equipment.user_id} - not the right time (hour: ${isCorrectHour}, minute: ${isCorrectMinute})`);
+          console.log(`Skipped user ${userId} - not the right time (hour: ${isCorrectHour}, minute: ${isCorrectMinute})`);
         }
       } catch (timezoneError) {
         console.error(`Error calculating time for timezone ${userTimezone}:`, timezoneError);
@@ -158,11 +259,12 @@ const handler = async (req: Request): Promise<Response> => {
         const daysOverdue = Math.floor((now.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24));
 
         remindersToSend.push({
-          userId: equipment.user_id,
+          userId: userId,
           email: profile.email,
           equipmentName: equipment.name,
           daysOverdue,
-          timezone: userTimezone
+          timezone: userTimezone,
+          usageSummary: getUsageSummary(equipment)
         });
       }
     }
@@ -182,12 +284,15 @@ const handler = async (req: Request): Promise<Response> => {
             user_id: reminder.userId,
             type: 'cleaning_reminder',
             title: '🧽 Cleaning Reminder',
-            message: reminder.daysOverdue > 0 
+            message: reminder.usageSummary
+              ? `Your ${reminder.equipmentName} has seen ${reminder.usageSummary} since its last clean. Time to clean it ✨`
+              : reminder.daysOverdue > 0 
               ? `Your ${reminder.equipmentName} is ${reminder.daysOverdue} day${reminder.daysOverdue > 1 ? 's' : ''} overdue for cleaning!`
               : `Time to clean your ${reminder.equipmentName} ✨`,
             data: {
               equipment_name: reminder.equipmentName,
               days_overdue: reminder.daysOverdue,
+              usage_summary: reminder.usageSummary,
               reminder_type: reminderType,
               scheduled_time: now.toISOString(),
               user_timezone: reminder.timezone
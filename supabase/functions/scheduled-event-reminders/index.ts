@@ -101,8 +101,24 @@ const handler = async (req: Request): Promise<Response> => {
         continue;
       }
 
-      if (attendees && attendees.length > 0) {
-        const attendeeIds = attendees.map(a => a.user_id).filter(id => id !== event.user_id);
+      // Band events also remind the whole band
+      let bandMemberIds: string[] = [];
+      if (event.band_id) {
+        const { data: bandMembers, error: bandMembersError } = await supabase
+          .from('band_members')
+          .select('user_id')
+          .eq('band_id', event.band_id);
+
+        if (bandMembersError) {
+          console.error('Error fetching band members:', bandMembersError);
+        } else {
+          bandMemberIds = (bandMembers || []).map(m => m.user_id);
+        }
+      }
+
+      if ((attendees && attendees.length > 0) || bandMemberIds.length > 0) {
+        const attendeeIds = [...new Set([...(attendees || []).map(a => a.user_id), ...bandMemberIds])]
+          .filter(id => id !== event.user_id);
         
         if (attendeeIds.length > 0) {
           // Get attendee profiles
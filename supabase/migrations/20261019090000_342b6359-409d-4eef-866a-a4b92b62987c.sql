@@ -0,0 +1,257 @@
+-- Per-equipment cleaning checklists with step-level completion
+
+-- Ordered checklist steps owned by each piece of equipment
+CREATE TABLE public.equipment_cleaning_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  equipment_id UUID NOT NULL REFERENCES public.equipment(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  title TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Which steps were completed for each cleaning log (title is snapshotted so
+-- history survives later edits to the checklist)
+CREATE TABLE public.cleaning_log_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cleaning_log_id UUID NOT NULL REFERENCES public.cleaning_logs(id) ON DELETE CASCADE,
+  step_id UUID REFERENCES public.equipment_cleaning_steps(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL,
+  title TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  completed BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A cleaning is partial when some checklist steps were skipped
+ALTER TABLE public.cleaning_logs
+ADD COLUMN is_partial BOOLEAN NOT NULL DEFAULT false;
+
+-- Enable Row Level Security
+ALTER TABLE public.equipment_cleaning_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cleaning_log_steps ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for equipment cleaning steps
+CREATE POLICY "Users can view their own cleaning steps"
+ON public.equipment_cleaning_steps
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own cleaning steps"
+ON public.equipment_cleaning_steps
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own cleaning steps"
+ON public.equipment_cleaning_steps
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own cleaning steps"
+ON public.equipment_cleaning_steps
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create policies for cleaning log steps
+CREATE POLICY "Users can view their own cleaning log steps"
+ON public.cleaning_log_steps
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own cleaning log steps"
+ON public.cleaning_log_steps
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own cleaning log steps"
+ON public.cleaning_log_steps
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own cleaning log steps"
+ON public.cleaning_log_steps
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_equipment_cleaning_steps_updated_at
+BEFORE UPDATE ON public.equipment_cleaning_steps
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_equipment_cleaning_steps_equipment_id ON public.equipment_cleaning_steps(equipment_id, position);
+CREATE INDEX idx_cleaning_log_steps_cleaning_log_id ON public.cleaning_log_steps(cleaning_log_id);
+
+-- Default checklist for each equipment type
+CREATE OR REPLACE FUNCTION public.default_cleaning_steps(equipment_type text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT CASE equipment_type
+    WHEN 'guitar' THEN ARRAY['Wipe down strings', 'Wipe fretboard', 'Oil fretboard', 'Polish body', 'Clean hardware']
+    WHEN 'drums' THEN ARRAY['Dust shells', 'Wipe drum heads', 'Polish cymbals', 'Clean hardware and stands']
+    WHEN 'microphone' THEN ARRAY['Remove and wash grille', 'Disinfect grille', 'Wipe body', 'Let dry before reassembling']
+    WHEN 'speaker' THEN ARRAY['Dust cabinet', 'Vacuum grille cloth', 'Check cables and connectors']
+    WHEN 'keyboard' THEN ARRAY['Dust keys', 'Wipe keys with damp cloth', 'Clean control panel']
+    WHEN 'violin' THEN ARRAY['Remove rosin dust', 'Wipe strings', 'Polish body', 'Clean fingerboard']
+    WHEN 'trumpet' THEN ARRAY['Flush with warm water', 'Snake the tubing', 'Clean mouthpiece', 'Oil valves', 'Grease slides']
+    WHEN 'saxophone' THEN ARRAY['Swab body', 'Clean neck', 'Clean mouthpiece', 'Wipe keys']
+    WHEN 'amplifier' THEN ARRAY['Dust cabinet', 'Clean knobs and jacks', 'Check tubes and cables']
+    WHEN 'mixer' THEN ARRAY['Dust surface', 'Clean faders', 'Clean knobs', 'Check connectors']
+    WHEN 'headphones' THEN ARRAY['Wipe ear pads', 'Disinfect headband', 'Clean cable']
+    ELSE ARRAY['Dust surface', 'Wipe down', 'Inspect for damage']
+  END;
+$function$;
+
+-- Seed the default checklist when new equipment is added
+CREATE OR REPLACE FUNCTION public.seed_equipment_cleaning_steps()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.equipment_cleaning_steps (equipment_id, user_id, title, position)
+  SELECT NEW.id, NEW.user_id, step.title, step.position - 1
+  FROM unnest(public.default_cleaning_steps(NEW.type)) WITH ORDINALITY AS step(title, position);
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER seed_equipment_cleaning_steps_trigger
+AFTER INSERT ON public.equipment
+FOR EACH ROW
+EXECUTE FUNCTION public.seed_equipment_cleaning_steps();
+
+-- Give existing equipment its default checklist
+INSERT INTO public.equipment_cleaning_steps (equipment_id, user_id, title, position)
+SELECT e.id, e.user_id, step.title, step.position - 1
+FROM public.equipment e
+CROSS JOIN LATERAL unnest(public.default_cleaning_steps(e.type)) WITH ORDINALITY AS step(title, position)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.equipment_cleaning_steps s WHERE s.equipment_id = e.id
+);
+
+-- Partial cleanings keep the streak where it is: they neither extend it
+-- nor push the next due date forward
+CREATE OR REPLACE FUNCTION public.update_equipment_streak()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  equipment_record RECORD;
+  new_streak INTEGER;
+  cleaned_date DATE;
+  expected_next_date DATE;
+  is_on_schedule BOOLEAN := false;
+  previous_cleaning_count INTEGER;
+BEGIN
+  -- Get the equipment record
+  SELECT * INTO equipment_record
+  FROM public.equipment
+  WHERE id = NEW.equipment_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  -- Store current streak before cleaning
+  NEW.streak_before_cleaning := equipment_record.current_streak;
+
+  -- Partial cleaning: record it without touching the streak or schedule
+  IF NEW.is_partial THEN
+    NEW.streak_after_cleaning := equipment_record.current_streak;
+    RETURN NEW;
+  END IF;
+
+  -- Get the date part of the cleaned_at timestamp
+  cleaned_date := DATE(NEW.cleaned_at);
+
+  -- Count previous full cleaning logs for this equipment (excluding current one)
+  SELECT COUNT(*) INTO previous_cleaning_count
+  FROM public.cleaning_logs
+  WHERE equipment_id = NEW.equipment_id
+  AND id != NEW.id
+  AND NOT is_partial;
+
+  -- If this is the very first cleaning, start streak at 1
+  IF previous_cleaning_count = 0 THEN
+    new_streak := 1;
+    is_on_schedule := true;
+  ELSE
+    -- Calculate if this cleaning is on schedule
+    IF equipment_record.last_cleaned_at IS NOT NULL THEN
+      -- Calculate expected next cleaning date based on last cleaning + frequency
+      expected_next_date := DATE(equipment_record.last_cleaned_at) + equipment_record.cleaning_frequency_days;
+      -- Check if cleaning is done on or before the expected date
+      is_on_schedule := cleaned_date <= expected_next_date;
+    ELSE
+      -- If no previous cleaning recorded, this is effectively the first - start at 1
+      is_on_schedule := true;
+    END IF;
+
+    -- Calculate new streak based on schedule adherence
+    IF is_on_schedule THEN
+      -- On schedule: increment streak
+      new_streak := equipment_record.current_streak + 1;
+    ELSE
+      -- Missed schedule: reset streak to 0, then this cleaning makes it 1
+      new_streak := 1;
+    END IF;
+  END IF;
+
+  -- Store new streak after cleaning
+  NEW.streak_after_cleaning := new_streak;
+
+  -- Update equipment table
+  UPDATE public.equipment
+  SET
+    current_streak = new_streak,
+    best_streak = GREATEST(best_streak, new_streak),
+    last_streak_date = cleaned_date,
+    last_cleaned_at = NEW.cleaned_at,
+    next_cleaning_due = (cleaned_date + cleaning_frequency_days)::timestamp + interval '23 hours 59 minutes',
+    updated_at = now()
+  WHERE id = NEW.equipment_id;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.update_next_cleaning_due()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- Update next cleaning due date when equipment is updated or cleaning is logged
+  IF TG_TABLE_NAME = 'equipment' THEN
+    IF NEW.last_cleaned_at IS NOT NULL THEN
+      NEW.next_cleaning_due = NEW.last_cleaned_at + (NEW.cleaning_frequency_days || ' days')::INTERVAL;
+    ELSE
+      NEW.next_cleaning_due = now() + (NEW.cleaning_frequency_days || ' days')::INTERVAL;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_TABLE_NAME = 'cleaning_logs' THEN
+    -- Partial cleanings don't count as the equipment being cleaned
+    IF NEW.is_partial THEN
+      RETURN NEW;
+    END IF;
+
+    -- Update equipment when a new cleaning log is added
+    UPDATE public.equipment
+    SET
+      last_cleaned_at = NEW.cleaned_at,
+      next_cleaning_due = NEW.cleaned_at + (cleaning_frequency_days || ' days')::INTERVAL,
+      updated_at = now()
+    WHERE id = NEW.equipment_id;
+    RETURN NEW;
+  END IF;
+END;
+$$;
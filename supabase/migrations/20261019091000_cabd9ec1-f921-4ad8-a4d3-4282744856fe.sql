@@ -0,0 +1,110 @@
+-- Link cleaning supplies to cleaning sessions and track consumption
+
+-- User-set quantity at which a supply counts as running low
+ALTER TABLE public.cleaning_equipment
+ADD COLUMN low_stock_threshold INTEGER;
+
+-- Supplies used during a cleaning
+CREATE TABLE public.cleaning_log_supplies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cleaning_log_id UUID NOT NULL REFERENCES public.cleaning_logs(id) ON DELETE CASCADE,
+  cleaning_equipment_id UUID NOT NULL REFERENCES public.cleaning_equipment(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  quantity_used INTEGER NOT NULL DEFAULT 1 CHECK (quantity_used > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(cleaning_log_id, cleaning_equipment_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.cleaning_log_supplies ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for cleaning log supplies
+CREATE POLICY "Users can view their own cleaning log supplies"
+ON public.cleaning_log_supplies
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own cleaning log supplies"
+ON public.cleaning_log_supplies
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own cleaning log supplies"
+ON public.cleaning_log_supplies
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_cleaning_log_supplies_cleaning_log_id ON public.cleaning_log_supplies(cleaning_log_id);
+CREATE INDEX idx_cleaning_log_supplies_cleaning_equipment_id ON public.cleaning_log_supplies(cleaning_equipment_id);
+
+-- Keep supply quantity in step with usage: decrement on use, restore when
+-- the usage (or its cleaning log) is removed
+CREATE OR REPLACE FUNCTION public.apply_cleaning_supply_usage()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.cleaning_equipment
+    SET quantity = GREATEST(quantity - NEW.quantity_used, 0)
+    WHERE id = NEW.cleaning_equipment_id
+    AND user_id = NEW.user_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.cleaning_equipment
+    SET quantity = quantity + OLD.quantity_used
+    WHERE id = OLD.cleaning_equipment_id
+    AND user_id = OLD.user_id;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER apply_cleaning_supply_usage_trigger
+AFTER INSERT OR DELETE ON public.cleaning_log_supplies
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_cleaning_supply_usage();
+
+-- Allow low stock notifications
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+CHECK (type IN ('follow', 'like', 'comment', 'comment_reply', 'event_like', 'event_comment', 'cleaning_reminder', 'event_reminder', 'test', 'low_stock'));
+
+-- Notify the owner when a supply drops to or below its low stock threshold
+CREATE OR REPLACE FUNCTION public.create_low_stock_notification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.low_stock_threshold IS NOT NULL
+    AND NEW.quantity <= NEW.low_stock_threshold
+    AND OLD.quantity > NEW.low_stock_threshold THEN
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      NEW.user_id,
+      'low_stock',
+      'Running Low',
+      'Only ' || NEW.quantity || ' left of ' || NEW.name || '. Time to restock!',
+      jsonb_build_object(
+        'cleaning_equipment_id', NEW.id,
+        'cleaning_equipment_name', NEW.name,
+        'quantity', NEW.quantity,
+        'low_stock_threshold', NEW.low_stock_threshold
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER cleaning_equipment_low_stock_trigger
+AFTER UPDATE OF quantity ON public.cleaning_equipment
+FOR EACH ROW
+EXECUTE FUNCTION public.create_low_stock_notification();
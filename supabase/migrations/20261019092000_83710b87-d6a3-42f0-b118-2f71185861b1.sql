@@ -0,0 +1,99 @@
+-- Purchase/restock history for cleaning supplies
+
+-- One row per purchase of a supply
+CREATE TABLE public.cleaning_equipment_restocks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cleaning_equipment_id UUID NOT NULL REFERENCES public.cleaning_equipment(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  restocked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price NUMERIC(10,2),
+  supplier TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.cleaning_equipment_restocks ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for cleaning equipment restocks
+CREATE POLICY "Users can view their own restocks"
+ON public.cleaning_equipment_restocks
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own restocks"
+ON public.cleaning_equipment_restocks
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own restocks"
+ON public.cleaning_equipment_restocks
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own restocks"
+ON public.cleaning_equipment_restocks
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_cleaning_equipment_restocks_updated_at
+BEFORE UPDATE ON public.cleaning_equipment_restocks
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_cleaning_equipment_restocks_cleaning_equipment_id ON public.cleaning_equipment_restocks(cleaning_equipment_id, restocked_at DESC);
+
+-- Keep the supply in step with its purchase history: adjust stock by the
+-- purchased quantity and copy date, price and supplier from the most recent
+-- purchase. next_replacement_due follows from last_restocked_at via
+-- update_next_replacement_due.
+CREATE OR REPLACE FUNCTION public.sync_cleaning_equipment_restocks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  supply_id UUID;
+  quantity_change INTEGER;
+  latest_restock RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    supply_id := NEW.cleaning_equipment_id;
+    quantity_change := NEW.quantity;
+  ELSIF TG_OP = 'UPDATE' THEN
+    supply_id := NEW.cleaning_equipment_id;
+    quantity_change := NEW.quantity - OLD.quantity;
+  ELSE
+    supply_id := OLD.cleaning_equipment_id;
+    quantity_change := -OLD.quantity;
+  END IF;
+
+  SELECT * INTO latest_restock
+  FROM public.cleaning_equipment_restocks
+  WHERE cleaning_equipment_id = supply_id
+  ORDER BY restocked_at DESC, created_at DESC
+  LIMIT 1;
+
+  UPDATE public.cleaning_equipment
+  SET
+    quantity = GREATEST(quantity + quantity_change, 0),
+    last_restocked_at = latest_restock.restocked_at,
+    purchase_date = COALESCE(purchase_date, latest_restock.restocked_at),
+    cost_per_unit = COALESCE(latest_restock.unit_price, cost_per_unit),
+    supplier = COALESCE(latest_restock.supplier, supplier)
+  WHERE id = supply_id;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_cleaning_equipment_restocks_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.cleaning_equipment_restocks
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_cleaning_equipment_restocks();
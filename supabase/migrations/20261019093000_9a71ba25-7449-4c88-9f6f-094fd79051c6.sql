@@ -0,0 +1,299 @@
+-- Usage-based cleaning schedules: due after N hours played or N events
+
+-- 'days' keeps the existing calendar cadence; 'hours' and 'events' count
+-- playing time from events the equipment is assigned to
+ALTER TABLE public.equipment
+ADD COLUMN schedule_mode TEXT NOT NULL DEFAULT 'days' CHECK (schedule_mode IN ('days', 'hours', 'events')),
+ADD COLUMN usage_interval INTEGER CHECK (usage_interval > 0);
+
+-- Equipment used at an event
+CREATE TABLE public.event_equipment (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  equipment_id UUID NOT NULL REFERENCES public.equipment(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(event_id, equipment_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.event_equipment ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for event equipment
+CREATE POLICY "Users can view their own event equipment"
+ON public.event_equipment
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own event equipment"
+ON public.event_equipment
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own event equipment"
+ON public.event_equipment
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_event_equipment_event_id ON public.event_equipment(event_id);
+CREATE INDEX idx_event_equipment_equipment_id ON public.event_equipment(equipment_id);
+
+-- Event types where an instrument actually gets played. Shows count the same
+-- as gigs.
+CREATE OR REPLACE FUNCTION public.is_playing_event_type(event_type text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT event_type IN ('gig', 'show', 'rehearsal', 'jam', 'recording');
+$function$;
+
+-- Hours an event counts for. Events without an end time count as two hours.
+CREATE OR REPLACE FUNCTION public.event_hours_played(start_date timestamp with time zone, end_date timestamp with time zone)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT CASE
+    WHEN end_date IS NULL OR end_date <= start_date THEN 2
+    ELSE ROUND((EXTRACT(EPOCH FROM (end_date - start_date)) / 3600)::numeric, 2)
+  END;
+$function$;
+
+-- When usage-based equipment next needs cleaning: the end of the assigned
+-- event (past or upcoming) that takes usage since the last cleaning to the
+-- interval. NULL when the assigned events don't reach it yet.
+CREATE OR REPLACE FUNCTION public.usage_cleaning_due(
+  p_equipment_id uuid,
+  p_schedule_mode text,
+  p_usage_interval integer,
+  p_since timestamp with time zone
+)
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  event_record RECORD;
+  usage_total NUMERIC := 0;
+BEGIN
+  IF p_usage_interval IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  FOR event_record IN
+    SELECT e.start_date, e.end_date
+    FROM public.event_equipment ee
+    JOIN public.events e ON e.id = ee.event_id
+    WHERE ee.equipment_id = p_equipment_id
+    AND public.is_playing_event_type(e.event_type)
+    AND e.start_date > p_since
+    ORDER BY e.start_date
+  LOOP
+    IF p_schedule_mode = 'hours' THEN
+      usage_total := usage_total + public.event_hours_played(event_record.start_date, event_record.end_date);
+    ELSE
+      usage_total := usage_total + 1;
+    END IF;
+
+    IF usage_total >= p_usage_interval THEN
+      RETURN COALESCE(event_record.end_date, event_record.start_date + interval '2 hours');
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$function$;
+
+-- Usage since the last cleaning for each piece of a user's equipment,
+-- counting only events that have already started
+CREATE OR REPLACE FUNCTION public.get_equipment_usage(p_user_id uuid)
+RETURNS TABLE(equipment_id uuid, events_played integer, hours_played numeric)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT
+    eq.id,
+    COUNT(e.id)::integer,
+    COALESCE(SUM(public.event_hours_played(e.start_date, e.end_date)), 0)
+  FROM public.equipment eq
+  LEFT JOIN public.event_equipment ee ON ee.equipment_id = eq.id
+  LEFT JOIN public.events e ON e.id = ee.event_id
+    AND public.is_playing_event_type(e.event_type)
+    AND e.start_date > COALESCE(eq.last_cleaned_at, eq.created_at)
+    AND e.start_date <= now()
+  WHERE eq.user_id = p_user_id
+  GROUP BY eq.id;
+$function$;
+
+-- Due date recomputation understands usage-based schedules
+CREATE OR REPLACE FUNCTION public.update_next_cleaning_due()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- Update next cleaning due date when equipment is updated or cleaning is logged
+  IF TG_TABLE_NAME = 'equipment' THEN
+    IF NEW.schedule_mode <> 'days' THEN
+      NEW.next_cleaning_due = public.usage_cleaning_due(
+        NEW.id,
+        NEW.schedule_mode,
+        NEW.usage_interval,
+        COALESCE(NEW.last_cleaned_at, NEW.created_at)
+      );
+    ELSIF NEW.last_cleaned_at IS NOT NULL THEN
+      NEW.next_cleaning_due = NEW.last_cleaned_at + (NEW.cleaning_frequency_days || ' days')::INTERVAL;
+    ELSE
+      NEW.next_cleaning_due = now() + (NEW.cleaning_frequency_days || ' days')::INTERVAL;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_TABLE_NAME = 'cleaning_logs' THEN
+    -- Partial cleanings don't count as the equipment being cleaned
+    IF NEW.is_partial THEN
+      RETURN NEW;
+    END IF;
+
+    -- Update equipment when a new cleaning log is added; the equipment
+    -- trigger above works out the new due date
+    UPDATE public.equipment
+    SET
+      last_cleaned_at = NEW.cleaned_at,
+      updated_at = now()
+    WHERE id = NEW.equipment_id;
+    RETURN NEW;
+  END IF;
+END;
+$$;
+
+-- Usage-based equipment is on schedule when cleaned before usage ran out
+CREATE OR REPLACE FUNCTION public.update_equipment_streak()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  equipment_record RECORD;
+  new_streak INTEGER;
+  cleaned_date DATE;
+  expected_next_date DATE;
+  is_on_schedule BOOLEAN := false;
+  previous_cleaning_count INTEGER;
+BEGIN
+  -- Get the equipment record
+  SELECT * INTO equipment_record
+  FROM public.equipment
+  WHERE id = NEW.equipment_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  -- Store current streak before cleaning
+  NEW.streak_before_cleaning := equipment_record.current_streak;
+
+  -- Partial cleaning: record it without touching the streak or schedule
+  IF NEW.is_partial THEN
+    NEW.streak_after_cleaning := equipment_record.current_streak;
+    RETURN NEW;
+  END IF;
+
+  -- Get the date part of the cleaned_at timestamp
+  cleaned_date := DATE(NEW.cleaned_at);
+
+  -- Count previous full cleaning logs for this equipment (excluding current one)
+  SELECT COUNT(*) INTO previous_cleaning_count
+  FROM public.cleaning_logs
+  WHERE equipment_id = NEW.equipment_id
+  AND id != NEW.id
+  AND NOT is_partial;
+
+  -- If this is the very first cleaning, start streak at 1
+  IF previous_cleaning_count = 0 THEN
+    new_streak := 1;
+    is_on_schedule := true;
+  ELSE
+    IF equipment_record.schedule_mode <> 'days' THEN
+      -- Usage-based: on schedule unless usage was already used up
+      is_on_schedule := equipment_record.next_cleaning_due IS NULL
+        OR cleaned_date <= DATE(equipment_record.next_cleaning_due);
+    ELSIF equipment_record.last_cleaned_at IS NOT NULL THEN
+      -- Calculate expected next cleaning date based on last cleaning + frequency
+      expected_next_date := DATE(equipment_record.last_cleaned_at) + equipment_record.cleaning_frequency_days;
+      -- Check if cleaning is done on or before the expected date
+      is_on_schedule := cleaned_date <= expected_next_date;
+    ELSE
+      -- If no previous cleaning recorded, this is effectively the first - start at 1
+      is_on_schedule := true;
+    END IF;
+
+    -- Calculate new streak based on schedule adherence
+    IF is_on_schedule THEN
+      -- On schedule: increment streak
+      new_streak := equipment_record.current_streak + 1;
+    ELSE
+      -- Missed schedule: reset streak to 0, then this cleaning makes it 1
+      new_streak := 1;
+    END IF;
+  END IF;
+
+  -- Store new streak after cleaning
+  NEW.streak_after_cleaning := new_streak;
+
+  -- Update equipment table (next_cleaning_due is worked out by the
+  -- equipment trigger from last_cleaned_at)
+  UPDATE public.equipment
+  SET
+    current_streak = new_streak,
+    best_streak = GREATEST(best_streak, new_streak),
+    last_streak_date = cleaned_date,
+    last_cleaned_at = NEW.cleaned_at,
+    updated_at = now()
+  WHERE id = NEW.equipment_id;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Recompute usage-based due dates when the events feeding them change
+CREATE OR REPLACE FUNCTION public.refresh_usage_cleaning_due()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_TABLE_NAME = 'event_equipment' THEN
+    UPDATE public.equipment
+    SET updated_at = now()
+    WHERE id = COALESCE(NEW.equipment_id, OLD.equipment_id)
+    AND schedule_mode <> 'days';
+  ELSE
+    UPDATE public.equipment
+    SET updated_at = now()
+    WHERE schedule_mode <> 'days'
+    AND id IN (
+      SELECT equipment_id FROM public.event_equipment WHERE event_id = NEW.id
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER refresh_usage_cleaning_due_on_event_equipment
+AFTER INSERT OR DELETE ON public.event_equipment
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_usage_cleaning_due();
+
+CREATE TRIGGER refresh_usage_cleaning_due_on_events
+AFTER UPDATE OF start_date, end_date, event_type ON public.events
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_usage_cleaning_due();
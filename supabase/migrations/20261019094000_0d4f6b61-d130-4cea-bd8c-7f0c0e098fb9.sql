@@ -0,0 +1,12 @@
+-- Clean-before and clean-after tasks for equipment used at events
+
+-- A task is done once it points at the cleaning it produced; deleting that
+-- cleaning reopens the task
+ALTER TABLE public.event_equipment
+ADD COLUMN clean_before_log_id UUID REFERENCES public.cleaning_logs(id) ON DELETE SET NULL,
+ADD COLUMN clean_after_log_id UUID REFERENCES public.cleaning_logs(id) ON DELETE SET NULL;
+
+CREATE POLICY "Users can update their own event equipment"
+ON public.event_equipment
+FOR UPDATE
+USING (auth.uid() = user_id);
@@ -0,0 +1,79 @@
+-- Per-event packing lists that can be shared with attendees
+
+-- Whether attendees can see and work on the event's packing list
+ALTER TABLE public.events
+ADD COLUMN packing_list_shared BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.event_packing_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'other' CHECK (category IN ('instrument', 'supply', 'other')),
+  equipment_id UUID REFERENCES public.equipment(id) ON DELETE SET NULL,
+  cleaning_equipment_id UUID REFERENCES public.cleaning_equipment(id) ON DELETE SET NULL,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  packed BOOLEAN NOT NULL DEFAULT false,
+  assigned_to UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.event_packing_items ENABLE ROW LEVEL SECURITY;
+
+-- Event owners always have access; attendees only once the list is shared
+CREATE OR REPLACE FUNCTION public.can_access_event_packing_list(p_event_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = p_event_id
+    AND (
+      e.user_id = p_user_id
+      OR (
+        e.packing_list_shared
+        AND EXISTS (
+          SELECT 1 FROM public.event_attendees a
+          WHERE a.event_id = e.id AND a.user_id = p_user_id
+        )
+      )
+    )
+  );
+$function$;
+
+-- Create policies for event packing items
+CREATE POLICY "Event owners and attendees can view packing items"
+ON public.event_packing_items
+FOR SELECT
+USING (public.can_access_event_packing_list(event_id, auth.uid()));
+
+CREATE POLICY "Event owners and attendees can create packing items"
+ON public.event_packing_items
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.can_access_event_packing_list(event_id, auth.uid()));
+
+CREATE POLICY "Event owners and attendees can update packing items"
+ON public.event_packing_items
+FOR UPDATE
+USING (public.can_access_event_packing_list(event_id, auth.uid()));
+
+CREATE POLICY "Users can delete their own packing items"
+ON public.event_packing_items
+FOR DELETE
+USING (
+  auth.uid() = user_id
+  OR EXISTS (SELECT 1 FROM public.events e WHERE e.id = event_id AND e.user_id = auth.uid())
+);
+
+CREATE TRIGGER update_event_packing_items_updated_at
+BEFORE UPDATE ON public.event_packing_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_event_packing_items_event_id ON public.event_packing_items(event_id, position);
@@ -0,0 +1,81 @@
+-- General maintenance log per equipment item (string changes, repairs,
+-- setups, inspections), with cleanings exposed as one more kind
+
+CREATE TABLE public.maintenance_logs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  equipment_id UUID NOT NULL REFERENCES public.equipment(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('string_change', 'repair', 'setup', 'inspection')),
+  performed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  cost NUMERIC(10,2),
+  -- NULL when the owner did it themselves, otherwise the shop or person
+  performed_by TEXT,
+  notes TEXT,
+  attachment_urls TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.maintenance_logs ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for maintenance logs
+CREATE POLICY "Users can view their own maintenance logs"
+ON public.maintenance_logs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own maintenance logs"
+ON public.maintenance_logs
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own maintenance logs"
+ON public.maintenance_logs
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own maintenance logs"
+ON public.maintenance_logs
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_maintenance_logs_updated_at
+BEFORE UPDATE ON public.maintenance_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_maintenance_logs_equipment_id ON public.maintenance_logs(equipment_id, performed_at DESC);
+
+-- Unified maintenance timeline. Cleanings stay in cleaning_logs (streaks and
+-- schedules hang off them) and appear here as the 'cleaning' kind.
+CREATE VIEW public.equipment_maintenance_timeline
+WITH (security_invoker = true)
+AS
+SELECT
+  cl.id,
+  cl.equipment_id,
+  cl.user_id,
+  'cleaning'::text AS kind,
+  cl.cleaned_at AS performed_at,
+  NULL::numeric AS cost,
+  NULL::text AS performed_by,
+  cl.notes,
+  CASE WHEN cl.photo_url IS NULL THEN '{}'::text[] ELSE ARRAY[cl.photo_url] END AS attachment_urls,
+  cl.is_partial,
+  'cleaning_logs'::text AS source
+FROM public.cleaning_logs cl
+UNION ALL
+SELECT
+  ml.id,
+  ml.equipment_id,
+  ml.user_id,
+  ml.kind,
+  ml.performed_at,
+  ml.cost,
+  ml.performed_by,
+  ml.notes,
+  ml.attachment_urls,
+  false AS is_partial,
+  'maintenance_logs'::text AS source
+FROM public.maintenance_logs ml;
@@ -0,0 +1,32 @@
+-- Before/after photos for cleanings
+
+CREATE TABLE public.cleaning_log_photos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cleaning_log_id UUID NOT NULL REFERENCES public.cleaning_logs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  photo_url TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('before', 'after')),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.cleaning_log_photos ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for cleaning log photos
+CREATE POLICY "Users can view their own cleaning log photos"
+ON public.cleaning_log_photos
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own cleaning log photos"
+ON public.cleaning_log_photos
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own cleaning log photos"
+ON public.cleaning_log_photos
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_cleaning_log_photos_cleaning_log_id ON public.cleaning_log_photos(cleaning_log_id, kind, position);
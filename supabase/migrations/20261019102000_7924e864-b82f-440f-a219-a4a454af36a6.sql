@@ -0,0 +1,180 @@
+-- Streaks are recomputed from the full cleaning history, so backdated
+-- cleanings, several cleanings on one day, edits and deletes all leave
+-- equipment in the same state as if the logs had been entered in order
+
+-- Walks every cleaning log of one piece of equipment in cleaned_at order,
+-- counting days in the owner's timezone, and rewrites the per-log streak
+-- snapshots plus current_streak, best_streak, last_streak_date and
+-- last_cleaned_at. next_cleaning_due follows from the equipment trigger.
+CREATE OR REPLACE FUNCTION public.recompute_equipment_streak(p_equipment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  equipment_record RECORD;
+  log_record RECORD;
+  user_tz TEXT;
+  running_streak INTEGER := 0;
+  top_streak INTEGER := 0;
+  previous_cleaned_at TIMESTAMP WITH TIME ZONE;
+  previous_date DATE;
+  cleaned_date DATE;
+  usage_due TIMESTAMP WITH TIME ZONE;
+  is_on_schedule BOOLEAN;
+  streak_before INTEGER;
+  new_due TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO equipment_record
+  FROM public.equipment
+  WHERE id = p_equipment_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT timezone INTO user_tz
+  FROM public.user_timezones
+  WHERE user_id = equipment_record.user_id;
+
+  user_tz := COALESCE(user_tz, 'UTC');
+
+  FOR log_record IN
+    SELECT id, cleaned_at, is_partial
+    FROM public.cleaning_logs
+    WHERE equipment_id = p_equipment_id
+    ORDER BY cleaned_at, created_at
+  LOOP
+    streak_before := running_streak;
+
+    -- Partial cleanings are kept in history but never move the streak
+    IF NOT log_record.is_partial THEN
+      cleaned_date := (log_record.cleaned_at AT TIME ZONE user_tz)::date;
+
+      IF previous_cleaned_at IS NULL THEN
+        running_streak := 1;
+      ELSIF cleaned_date = previous_date THEN
+        -- Another cleaning on the same day doesn't count twice
+        NULL;
+      ELSE
+        IF equipment_record.schedule_mode <> 'days' THEN
+          usage_due := public.usage_cleaning_due(
+            p_equipment_id,
+            equipment_record.schedule_mode,
+            equipment_record.usage_interval,
+            previous_cleaned_at
+          );
+          is_on_schedule := usage_due IS NULL
+            OR cleaned_date <= (usage_due AT TIME ZONE user_tz)::date;
+        ELSE
+          is_on_schedule := cleaned_date <= previous_date + equipment_record.cleaning_frequency_days;
+        END IF;
+
+        IF is_on_schedule THEN
+          running_streak := running_streak + 1;
+        ELSE
+          running_streak := 1;
+        END IF;
+      END IF;
+
+      previous_cleaned_at := log_record.cleaned_at;
+      previous_date := cleaned_date;
+      top_streak := GREATEST(top_streak, running_streak);
+    END IF;
+
+    -- Only streak columns are written, so the cleaning_logs trigger below
+    -- doesn't fire again
+    UPDATE public.cleaning_logs
+    SET
+      streak_before_cleaning = streak_before,
+      streak_after_cleaning = running_streak
+    WHERE id = log_record.id;
+  END LOOP;
+
+  UPDATE public.equipment
+  SET
+    current_streak = running_streak,
+    best_streak = top_streak,
+    last_streak_date = previous_date,
+    last_cleaned_at = previous_cleaned_at,
+    updated_at = now()
+  WHERE id = p_equipment_id
+  RETURNING next_cleaning_due INTO new_due;
+
+  -- Same rule as reset_overdue_streaks: an overdue item has no running streak
+  IF new_due IS NOT NULL AND new_due < now() THEN
+    UPDATE public.equipment
+    SET current_streak = 0
+    WHERE id = p_equipment_id;
+  END IF;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.recompute_equipment_streak_on_cleaning_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.recompute_equipment_streak(OLD.equipment_id);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.equipment_id <> OLD.equipment_id) THEN
+    PERFORM public.recompute_equipment_streak(NEW.equipment_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER recompute_equipment_streak_on_cleaning_log
+AFTER INSERT OR DELETE OR UPDATE OF cleaned_at, is_partial, equipment_id ON public.cleaning_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.recompute_equipment_streak_on_cleaning_log();
+
+-- The insert-time streak and last_cleaned_at updates assumed logs arrive in
+-- chronological order; the recomputation above replaces both
+CREATE OR REPLACE FUNCTION public.update_equipment_streak()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.update_next_cleaning_due()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- Update next cleaning due date when equipment is updated
+  IF TG_TABLE_NAME = 'equipment' THEN
+    IF NEW.schedule_mode <> 'days' THEN
+      NEW.next_cleaning_due = public.usage_cleaning_due(
+        NEW.id,
+        NEW.schedule_mode,
+        NEW.usage_interval,
+        COALESCE(NEW.last_cleaned_at, NEW.created_at)
+      );
+    ELSIF NEW.last_cleaned_at IS NOT NULL THEN
+      NEW.next_cleaning_due = NEW.last_cleaned_at + (NEW.cleaning_frequency_days || ' days')::INTERVAL;
+    ELSE
+      NEW.next_cleaning_due = now() + (NEW.cleaning_frequency_days || ' days')::INTERVAL;
+    END IF;
+  END IF;
+
+  -- Cleaning logs are handled by recompute_equipment_streak
+  RETURN NEW;
+END;
+$$;
+
+-- Bring existing equipment in line with its history
+SELECT public.recompute_equipment_streak(id) FROM public.equipment;
@@ -0,0 +1,14 @@
+-- Cleaning logs can be corrected or removed by their owner. Streaks and due
+-- dates follow through recompute_equipment_streak_on_cleaning_log.
+DROP POLICY IF EXISTS "Users can update their own cleaning logs" ON public.cleaning_logs;
+DROP POLICY IF EXISTS "Users can delete their own cleaning logs" ON public.cleaning_logs;
+
+CREATE POLICY "Users can update their own cleaning logs"
+ON public.cleaning_logs
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own cleaning logs"
+ON public.cleaning_logs
+FOR DELETE
+USING (auth.uid() = user_id);
@@ -0,0 +1,364 @@
+-- Vacation mode and streak freezes. A pause covers a date range for all of
+-- a user's equipment (equipment_id NULL) or a single item; due dates are
+-- pushed back by the paused days and streaks don't break over them. A
+-- streak freeze is a single-item pause the user spends from an earned
+-- balance.
+
+CREATE TABLE public.cleaning_pauses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  equipment_id UUID REFERENCES public.equipment(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'vacation' CHECK (kind IN ('vacation', 'freeze')),
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_on >= starts_on),
+  CHECK (kind = 'vacation' OR equipment_id IS NOT NULL)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.cleaning_pauses ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for cleaning pauses. Spent freezes can't be edited or
+-- removed, otherwise they would go back into the balance.
+CREATE POLICY "Users can view their own cleaning pauses"
+ON public.cleaning_pauses
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own cleaning pauses"
+ON public.cleaning_pauses
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own cleaning pauses"
+ON public.cleaning_pauses
+FOR UPDATE
+USING (auth.uid() = user_id AND kind = 'vacation')
+WITH CHECK (auth.uid() = user_id AND kind = 'vacation');
+
+CREATE POLICY "Users can delete their own cleaning pauses"
+ON public.cleaning_pauses
+FOR DELETE
+USING (auth.uid() = user_id AND kind = 'vacation');
+
+CREATE TRIGGER update_cleaning_pauses_updated_at
+BEFORE UPDATE ON public.cleaning_pauses
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_cleaning_pauses_user_id ON public.cleaning_pauses(user_id, ends_on);
+
+-- Whether an item (or all of the user's equipment) is paused on a given day
+CREATE OR REPLACE FUNCTION public.is_cleaning_paused(p_equipment_id uuid, p_user_id uuid, p_on date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.cleaning_pauses
+    WHERE user_id = p_user_id
+    AND (equipment_id IS NULL OR equipment_id = p_equipment_id)
+    AND p_on BETWEEN starts_on AND ends_on
+  );
+$function$;
+
+-- Pushes a due date back by every paused day between the cleaning and the
+-- (already shifted) due date. Overlapping pauses only count once.
+CREATE OR REPLACE FUNCTION public.pause_adjusted_due(
+  p_equipment_id uuid,
+  p_user_id uuid,
+  p_from timestamp with time zone,
+  p_due timestamp with time zone
+)
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  pause_record RECORD;
+  user_tz TEXT;
+  cursor_date DATE;
+  due_date DATE;
+  shifted_days INTEGER := 0;
+BEGIN
+  SELECT timezone INTO user_tz
+  FROM public.user_timezones
+  WHERE user_id = p_user_id;
+
+  user_tz := COALESCE(user_tz, 'UTC');
+  cursor_date := (p_from AT TIME ZONE user_tz)::date + 1;
+  due_date := (p_due AT TIME ZONE user_tz)::date;
+
+  FOR pause_record IN
+    SELECT starts_on, ends_on
+    FROM public.cleaning_pauses
+    WHERE user_id = p_user_id
+    AND (equipment_id IS NULL OR equipment_id = p_equipment_id)
+    AND ends_on >= cursor_date
+    ORDER BY starts_on
+  LOOP
+    EXIT WHEN pause_record.starts_on > due_date + shifted_days;
+
+    IF pause_record.ends_on >= cursor_date THEN
+      shifted_days := shifted_days + (pause_record.ends_on - GREATEST(pause_record.starts_on, cursor_date) + 1);
+      cursor_date := pause_record.ends_on + 1;
+    END IF;
+  END LOOP;
+
+  RETURN p_due + make_interval(days => shifted_days);
+END;
+$function$;
+
+-- One freeze is earned each time a streak reaches a multiple of 7
+CREATE OR REPLACE FUNCTION public.get_streak_freezes(p_user_id uuid)
+RETURNS TABLE(earned integer, used integer, available integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  WITH totals AS (
+    SELECT
+      (SELECT COUNT(*)::integer
+        FROM public.cleaning_logs
+        WHERE user_id = p_user_id
+        AND NOT is_partial
+        AND streak_after_cleaning > COALESCE(streak_before_cleaning, 0)
+        AND streak_after_cleaning % 7 = 0) AS earned,
+      (SELECT COUNT(*)::integer
+        FROM public.cleaning_pauses
+        WHERE user_id = p_user_id
+        AND kind = 'freeze') AS used
+  )
+  SELECT earned, used, GREATEST(earned - used, 0) FROM totals;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.check_streak_freeze_available()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.kind = 'freeze' AND (SELECT available FROM public.get_streak_freezes(NEW.user_id)) < 1 THEN
+    RAISE EXCEPTION 'No streak freezes available';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_streak_freeze_available
+BEFORE INSERT ON public.cleaning_pauses
+FOR EACH ROW
+EXECUTE FUNCTION public.check_streak_freeze_available();
+
+-- Calendar due dates skip paused days
+CREATE OR REPLACE FUNCTION public.update_next_cleaning_due()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- Update next cleaning due date when equipment is updated
+  IF TG_TABLE_NAME = 'equipment' THEN
+    IF NEW.schedule_mode <> 'days' THEN
+      NEW.next_cleaning_due = public.usage_cleaning_due(
+        NEW.id,
+        NEW.schedule_mode,
+        NEW.usage_interval,
+        COALESCE(NEW.last_cleaned_at, NEW.created_at)
+      );
+    ELSIF NEW.last_cleaned_at IS NOT NULL THEN
+      NEW.next_cleaning_due = public.pause_adjusted_due(
+        NEW.id,
+        NEW.user_id,
+        NEW.last_cleaned_at,
+        NEW.last_cleaned_at + (NEW.cleaning_frequency_days || ' days')::INTERVAL
+      );
+    ELSE
+      NEW.next_cleaning_due = now() + (NEW.cleaning_frequency_days || ' days')::INTERVAL;
+    END IF;
+  END IF;
+
+  -- Cleaning logs are handled by recompute_equipment_streak
+  RETURN NEW;
+END;
+$$;
+
+-- Same walk as before, with the on-schedule check using pause-adjusted due
+-- dates and no reset while the item is paused
+CREATE OR REPLACE FUNCTION public.recompute_equipment_streak(p_equipment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  equipment_record RECORD;
+  log_record RECORD;
+  user_tz TEXT;
+  running_streak INTEGER := 0;
+  top_streak INTEGER := 0;
+  previous_cleaned_at TIMESTAMP WITH TIME ZONE;
+  previous_date DATE;
+  cleaned_date DATE;
+  due_at TIMESTAMP WITH TIME ZONE;
+  is_on_schedule BOOLEAN;
+  streak_before INTEGER;
+  new_due TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO equipment_record
+  FROM public.equipment
+  WHERE id = p_equipment_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT timezone INTO user_tz
+  FROM public.user_timezones
+  WHERE user_id = equipment_record.user_id;
+
+  user_tz := COALESCE(user_tz, 'UTC');
+
+  FOR log_record IN
+    SELECT id, cleaned_at, is_partial
+    FROM public.cleaning_logs
+    WHERE equipment_id = p_equipment_id
+    ORDER BY cleaned_at, created_at
+  LOOP
+    streak_before := running_streak;
+
+    -- Partial cleanings are kept in history but never move the streak
+    IF NOT log_record.is_partial THEN
+      cleaned_date := (log_record.cleaned_at AT TIME ZONE user_tz)::date;
+
+      IF previous_cleaned_at IS NULL THEN
+        running_streak := 1;
+      ELSIF cleaned_date = previous_date THEN
+        -- Another cleaning on the same day doesn't count twice
+        NULL;
+      ELSE
+        IF equipment_record.schedule_mode <> 'days' THEN
+          due_at := public.usage_cleaning_due(
+            p_equipment_id,
+            equipment_record.schedule_mode,
+            equipment_record.usage_interval,
+            previous_cleaned_at
+          );
+        ELSE
+          due_at := public.pause_adjusted_due(
+            p_equipment_id,
+            equipment_record.user_id,
+            previous_cleaned_at,
+            previous_cleaned_at + (equipment_record.cleaning_frequency_days || ' days')::INTERVAL
+          );
+        END IF;
+
+        is_on_schedule := due_at IS NULL
+          OR cleaned_date <= (due_at AT TIME ZONE user_tz)::date;
+
+        IF is_on_schedule THEN
+          running_streak := running_streak + 1;
+        ELSE
+          running_streak := 1;
+        END IF;
+      END IF;
+
+      previous_cleaned_at := log_record.cleaned_at;
+      previous_date := cleaned_date;
+      top_streak := GREATEST(top_streak, running_streak);
+    END IF;
+
+    -- Only streak columns are written, so the cleaning_logs trigger doesn't
+    -- fire again
+    UPDATE public.cleaning_logs
+    SET
+      streak_before_cleaning = streak_before,
+      streak_after_cleaning = running_streak
+    WHERE id = log_record.id;
+  END LOOP;
+
+  UPDATE public.equipment
+  SET
+    current_streak = running_streak,
+    best_streak = top_streak,
+    last_streak_date = previous_date,
+    last_cleaned_at = previous_cleaned_at,
+    updated_at = now()
+  WHERE id = p_equipment_id
+  RETURNING next_cleaning_due INTO new_due;
+
+  -- Same rule as reset_overdue_streaks: an overdue item has no running streak
+  IF new_due IS NOT NULL AND new_due < now()
+    AND NOT public.is_cleaning_paused(p_equipment_id, equipment_record.user_id, (now() AT TIME ZONE user_tz)::date) THEN
+    UPDATE public.equipment
+    SET current_streak = 0
+    WHERE id = p_equipment_id;
+  END IF;
+END;
+$function$;
+
+-- Streaks are frozen while paused
+CREATE OR REPLACE FUNCTION public.reset_overdue_streaks()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.equipment eq
+  SET current_streak = 0
+  WHERE eq.current_streak > 0
+  AND eq.next_cleaning_due < now()
+  AND NOT public.is_cleaning_paused(
+    eq.id,
+    eq.user_id,
+    (now() AT TIME ZONE COALESCE(
+      (SELECT timezone FROM public.user_timezones WHERE user_id = eq.user_id),
+      'UTC'
+    ))::date
+  );
+END;
+$function$;
+
+-- Adding, changing or removing a pause shifts due dates and can restore a
+-- streak that broke inside the paused range
+CREATE OR REPLACE FUNCTION public.recompute_streaks_on_cleaning_pause()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  pause_record RECORD;
+BEGIN
+  FOR pause_record IN
+    SELECT NEW.user_id, NEW.equipment_id WHERE TG_OP <> 'DELETE'
+    UNION
+    SELECT OLD.user_id, OLD.equipment_id WHERE TG_OP <> 'INSERT'
+  LOOP
+    PERFORM public.recompute_equipment_streak(eq.id)
+    FROM public.equipment eq
+    WHERE eq.user_id = pause_record.user_id
+    AND (pause_record.equipment_id IS NULL OR eq.id = pause_record.equipment_id);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER recompute_streaks_on_cleaning_pause
+AFTER INSERT OR UPDATE OR DELETE ON public.cleaning_pauses
+FOR EACH ROW
+EXECUTE FUNCTION public.recompute_streaks_on_cleaning_pause();
@@ -0,0 +1,171 @@
+-- Achievements: a catalog of badges, each awarded once a user's count for
+-- its metric reaches the threshold. Awards are evaluated by the database
+-- whenever the underlying activity changes.
+
+CREATE TABLE public.achievements (
+  id TEXT NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  metric TEXT NOT NULL CHECK (metric IN ('cleanings', 'best_streak', 'equipment', 'gigs', 'posts', 'likes_received', 'followers')),
+  threshold INTEGER NOT NULL CHECK (threshold > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.user_achievements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  achievement_id TEXT NOT NULL REFERENCES public.achievements(id) ON DELETE CASCADE,
+  awarded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, achievement_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.achievements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_achievements ENABLE ROW LEVEL SECURITY;
+
+-- Badges show on public profiles; awards are only written by
+-- evaluate_achievements
+CREATE POLICY "Anyone can view achievements"
+ON public.achievements
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can view user achievements"
+ON public.user_achievements
+FOR SELECT
+USING (true);
+
+CREATE INDEX idx_user_achievements_user_id ON public.user_achievements(user_id, awarded_at DESC);
+
+INSERT INTO public.achievements (id, name, description, icon, metric, threshold, position) VALUES
+  ('first_cleaning', 'First Clean', 'Log your first cleaning', '🧽', 'cleanings', 1, 0),
+  ('cleanings_50', 'Clean Machine', 'Log 50 cleanings', '🧼', 'cleanings', 50, 1),
+  ('streak_7', 'On a Roll', 'Reach a streak of 7', '🔥', 'best_streak', 7, 2),
+  ('streak_30', 'Unbreakable', 'Reach a streak of 30', '💎', 'best_streak', 30, 3),
+  ('equipment_10', 'Collector', 'Track 10 pieces of equipment', '🎸', 'equipment', 10, 4),
+  ('first_gig', 'Showtime', 'Log your first gig or show', '🎤', 'gigs', 1, 5),
+  ('gigs_25', 'Road Warrior', 'Log 25 gigs or shows', '🚐', 'gigs', 25, 6),
+  ('first_post', 'Hello World', 'Share your first post', '📣', 'posts', 1, 7),
+  ('likes_100', 'Crowd Favorite', 'Receive 100 likes on your posts', '❤️', 'likes_received', 100, 8),
+  ('followers_10', 'Rising Star', 'Get 10 followers', '⭐', 'followers', 10, 9);
+
+-- Allow achievement notifications
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+CHECK (type IN ('follow', 'like', 'comment', 'comment_reply', 'event_like', 'event_comment', 'cleaning_reminder', 'event_reminder', 'test', 'low_stock', 'achievement'));
+
+-- Awards every badge the user now qualifies for and hasn't got yet, with a
+-- notification for each unless p_notify is false (used for the backfill)
+CREATE OR REPLACE FUNCTION public.evaluate_achievements(p_user_id uuid, p_notify boolean DEFAULT true)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  metrics JSONB;
+  awarded RECORD;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  metrics := jsonb_build_object(
+    'cleanings', (SELECT COUNT(*) FROM public.cleaning_logs WHERE user_id = p_user_id AND NOT is_partial),
+    'best_streak', (SELECT COALESCE(MAX(best_streak), 0) FROM public.equipment WHERE user_id = p_user_id),
+    'equipment', (SELECT COUNT(*) FROM public.equipment WHERE user_id = p_user_id),
+    'gigs', (SELECT COUNT(*) FROM public.events WHERE user_id = p_user_id AND event_type IN ('gig', 'show')),
+    'posts', (SELECT COUNT(*) FROM public.posts WHERE user_id = p_user_id),
+    'likes_received', (
+      SELECT COUNT(*)
+      FROM public.post_likes pl
+      JOIN public.posts p ON p.id = pl.post_id
+      WHERE p.user_id = p_user_id
+      AND pl.user_id <> p_user_id
+    ),
+    'followers', (SELECT COUNT(*) FROM public.followers WHERE following_id = p_user_id)
+  );
+
+  FOR awarded IN
+    INSERT INTO public.user_achievements (user_id, achievement_id)
+    SELECT p_user_id, a.id
+    FROM public.achievements a
+    WHERE (metrics ->> a.metric)::integer >= a.threshold
+    ON CONFLICT (user_id, achievement_id) DO NOTHING
+    RETURNING achievement_id
+  LOOP
+    IF p_notify THEN
+      INSERT INTO public.notifications (user_id, type, title, message, data)
+      SELECT
+        p_user_id,
+        'achievement',
+        a.icon || ' Badge Unlocked',
+        'You earned "' || a.name || '": ' || a.description || '!',
+        jsonb_build_object(
+          'achievement_id', a.id,
+          'achievement_name', a.name,
+          'achievement_icon', a.icon
+        )
+      FROM public.achievements a
+      WHERE a.id = awarded.achievement_id;
+    END IF;
+  END LOOP;
+END;
+$function$;
+
+-- Works out whose badges an activity change can affect
+CREATE OR REPLACE FUNCTION public.evaluate_achievements_on_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_TABLE_NAME = 'post_likes' THEN
+    PERFORM public.evaluate_achievements((SELECT user_id FROM public.posts WHERE id = NEW.post_id));
+  ELSIF TG_TABLE_NAME = 'followers' THEN
+    PERFORM public.evaluate_achievements(NEW.following_id);
+  ELSE
+    PERFORM public.evaluate_achievements(NEW.user_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER evaluate_achievements_on_cleaning_logs
+AFTER INSERT OR UPDATE OF is_partial ON public.cleaning_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.evaluate_achievements_on_activity();
+
+-- Streaks land on equipment once the cleaning history is recomputed
+CREATE TRIGGER evaluate_achievements_on_equipment
+AFTER INSERT OR UPDATE OF best_streak ON public.equipment
+FOR EACH ROW
+EXECUTE FUNCTION public.evaluate_achievements_on_activity();
+
+CREATE TRIGGER evaluate_achievements_on_events
+AFTER INSERT OR UPDATE OF event_type ON public.events
+FOR EACH ROW
+EXECUTE FUNCTION public.evaluate_achievements_on_activity();
+
+CREATE TRIGGER evaluate_achievements_on_posts
+AFTER INSERT ON public.posts
+FOR EACH ROW
+EXECUTE FUNCTION public.evaluate_achievements_on_activity();
+
+CREATE TRIGGER evaluate_achievements_on_post_likes
+AFTER INSERT ON public.post_likes
+FOR EACH ROW
+EXECUTE FUNCTION public.evaluate_achievements_on_activity();
+
+CREATE TRIGGER evaluate_achievements_on_followers
+AFTER INSERT ON public.followers
+FOR EACH ROW
+EXECUTE FUNCTION public.evaluate_achievements_on_activity();
+
+-- Award what existing users have already earned, quietly
+SELECT public.evaluate_achievements(user_id, false) FROM public.profiles;
@@ -0,0 +1,125 @@
+-- Filterable leaderboards. Metrics:
+--   best_streak / current_streak  highest streak on one item cleaned in the window
+--   cleanings                     full cleanings logged in the window
+--   on_time_rate                  % of full cleanings in the window that didn't
+--                                 break a streak (needs at least 3 cleanings)
+-- Windows are 'week', 'month' or 'all'; scope is 'global' or 'following'
+-- (people p_user_id follows plus themselves). The top p_limit rows are
+-- returned, followed by p_user_id's own row when it falls outside them.
+CREATE OR REPLACE FUNCTION public.get_leaderboard(
+  p_user_id uuid,
+  p_metric text DEFAULT 'best_streak',
+  p_window text DEFAULT 'all',
+  p_scope text DEFAULT 'global',
+  p_equipment_type text DEFAULT NULL,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE(
+  rank_position integer,
+  user_id uuid,
+  username text,
+  display_name text,
+  avatar_url text,
+  score numeric,
+  equipment_name text,
+  total_entries integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  window_start TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_metric NOT IN ('best_streak', 'current_streak', 'cleanings', 'on_time_rate') THEN
+    RAISE EXCEPTION 'Unknown leaderboard metric: %', p_metric;
+  END IF;
+
+  IF p_scope NOT IN ('global', 'following') THEN
+    RAISE EXCEPTION 'Unknown leaderboard scope: %', p_scope;
+  END IF;
+
+  window_start := CASE p_window
+    WHEN 'week' THEN date_trunc('week', now())
+    WHEN 'month' THEN date_trunc('month', now())
+    ELSE '-infinity'::timestamp with time zone
+  END;
+
+  RETURN QUERY
+  WITH scoped_users AS (
+    SELECT p.user_id, p.username, p.display_name, p.avatar_url
+    FROM public.profiles p
+    WHERE p_scope = 'global'
+    OR p.user_id = p_user_id
+    OR p.user_id IN (SELECT f.following_id FROM public.followers f WHERE f.follower_id = p_user_id)
+  ),
+  typed_equipment AS (
+    SELECT e.*
+    FROM public.equipment e
+    WHERE p_equipment_type IS NULL OR e.type = p_equipment_type
+  ),
+  window_logs AS (
+    SELECT cl.user_id, cl.streak_before_cleaning, cl.streak_after_cleaning
+    FROM public.cleaning_logs cl
+    JOIN typed_equipment e ON e.id = cl.equipment_id
+    WHERE NOT cl.is_partial
+    AND cl.cleaned_at >= window_start
+  ),
+  scores AS (
+    (
+      SELECT DISTINCT ON (e.user_id)
+        e.user_id,
+        (CASE WHEN p_metric = 'best_streak' THEN e.best_streak ELSE e.current_streak END)::numeric AS score,
+        e.name AS equipment_name
+      FROM typed_equipment e
+      WHERE p_metric IN ('best_streak', 'current_streak')
+      AND e.last_cleaned_at >= window_start
+      ORDER BY e.user_id, CASE WHEN p_metric = 'best_streak' THEN e.best_streak ELSE e.current_streak END DESC
+    )
+    UNION ALL
+    SELECT wl.user_id, COUNT(*)::numeric, NULL::text
+    FROM window_logs wl
+    WHERE p_metric = 'cleanings'
+    GROUP BY wl.user_id
+    UNION ALL
+    SELECT
+      wl.user_id,
+      ROUND(100.0 * COUNT(*) FILTER (
+        WHERE NOT (wl.streak_after_cleaning = 1 AND COALESCE(wl.streak_before_cleaning, 0) > 0)
+      ) / COUNT(*), 1),
+      NULL::text
+    FROM window_logs wl
+    WHERE p_metric = 'on_time_rate'
+    GROUP BY wl.user_id
+    HAVING COUNT(*) >= 3
+  ),
+  ranked AS (
+    SELECT
+      RANK() OVER (ORDER BY s.score DESC)::integer AS rank_position,
+      ROW_NUMBER() OVER (ORDER BY s.score DESC, su.username) AS row_position,
+      su.user_id,
+      su.username,
+      su.display_name,
+      su.avatar_url,
+      s.score,
+      s.equipment_name,
+      (COUNT(*) OVER ())::integer AS total_entries
+    FROM scores s
+    JOIN scoped_users su ON su.user_id = s.user_id
+    WHERE s.score > 0
+  )
+  SELECT
+    r.rank_position,
+    r.user_id,
+    r.username,
+    r.display_name,
+    r.avatar_url,
+    r.score,
+    r.equipment_name,
+    r.total_entries
+  FROM ranked r
+  WHERE r.row_position <= p_limit OR r.user_id = p_user_id
+  ORDER BY r.row_position;
+END;
+$function$;
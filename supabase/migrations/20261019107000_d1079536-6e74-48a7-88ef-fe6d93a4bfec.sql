@@ -0,0 +1,226 @@
+-- Shared equipment groups (a household or band). Equipment assigned to a
+-- group is visible to and can be cleaned by every member; only owners can
+-- edit or delete it. Cleaning logs keep the member who cleaned in user_id,
+-- and the streak stays on the equipment so everyone's cleanings count.
+
+CREATE TABLE public.equipment_groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.equipment_group_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES public.equipment_groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(group_id, user_id)
+);
+
+ALTER TABLE public.equipment
+ADD COLUMN group_id UUID REFERENCES public.equipment_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_equipment_group_members_user_id ON public.equipment_group_members(user_id);
+CREATE INDEX idx_equipment_group_id ON public.equipment(group_id);
+
+-- Membership checks used by the policies below. SECURITY DEFINER so they
+-- don't recurse into the members table's own policies.
+CREATE OR REPLACE FUNCTION public.is_equipment_group_member(p_group_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.equipment_group_members
+    WHERE group_id = p_group_id AND user_id = p_user_id
+  );
+$function$;
+
+CREATE OR REPLACE FUNCTION public.is_equipment_group_owner(p_group_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.equipment_group_members
+    WHERE group_id = p_group_id AND user_id = p_user_id AND role = 'owner'
+  );
+$function$;
+
+-- True for the equipment's owner and for members of its group
+CREATE OR REPLACE FUNCTION public.can_access_equipment(p_equipment_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.equipment e
+    WHERE e.id = p_equipment_id
+    AND (
+      e.user_id = p_user_id
+      OR (e.group_id IS NOT NULL AND public.is_equipment_group_member(e.group_id, p_user_id))
+    )
+  );
+$function$;
+
+-- Enable Row Level Security
+ALTER TABLE public.equipment_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.equipment_group_members ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for equipment groups
+CREATE POLICY "Members can view their equipment groups"
+ON public.equipment_groups
+FOR SELECT
+USING (public.is_equipment_group_member(id, auth.uid()));
+
+CREATE POLICY "Users can create equipment groups"
+ON public.equipment_groups
+FOR INSERT
+WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Owners can update their equipment groups"
+ON public.equipment_groups
+FOR UPDATE
+USING (public.is_equipment_group_owner(id, auth.uid()));
+
+CREATE POLICY "Owners can delete their equipment groups"
+ON public.equipment_groups
+FOR DELETE
+USING (public.is_equipment_group_owner(id, auth.uid()));
+
+-- Create policies for equipment group members
+CREATE POLICY "Members can view their group members"
+ON public.equipment_group_members
+FOR SELECT
+USING (public.is_equipment_group_member(group_id, auth.uid()));
+
+CREATE POLICY "Owners can add group members"
+ON public.equipment_group_members
+FOR INSERT
+WITH CHECK (public.is_equipment_group_owner(group_id, auth.uid()));
+
+CREATE POLICY "Owners can change member roles"
+ON public.equipment_group_members
+FOR UPDATE
+USING (public.is_equipment_group_owner(group_id, auth.uid()));
+
+CREATE POLICY "Owners can remove members and members can leave"
+ON public.equipment_group_members
+FOR DELETE
+USING (auth.uid() = user_id OR public.is_equipment_group_owner(group_id, auth.uid()));
+
+CREATE TRIGGER update_equipment_groups_updated_at
+BEFORE UPDATE ON public.equipment_groups
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whoever creates a group is its first owner
+CREATE OR REPLACE FUNCTION public.add_equipment_group_creator()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.equipment_group_members (group_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'owner');
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER add_equipment_group_creator
+AFTER INSERT ON public.equipment_groups
+FOR EACH ROW
+EXECUTE FUNCTION public.add_equipment_group_creator();
+
+-- A group always keeps at least one owner
+CREATE OR REPLACE FUNCTION public.keep_equipment_group_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF OLD.role = 'owner'
+    AND EXISTS (SELECT 1 FROM public.equipment_groups WHERE id = OLD.group_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.equipment_group_members
+      WHERE group_id = OLD.group_id AND role = 'owner' AND id <> OLD.id
+    ) THEN
+    RAISE EXCEPTION 'A group needs at least one owner';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER keep_equipment_group_owner
+BEFORE DELETE OR UPDATE OF role ON public.equipment_group_members
+FOR EACH ROW
+WHEN (OLD.role = 'owner')
+EXECUTE FUNCTION public.keep_equipment_group_owner();
+
+-- Shared equipment and everything hanging off it
+CREATE POLICY "Group members can view shared equipment"
+ON public.equipment
+FOR SELECT
+USING (group_id IS NOT NULL AND public.is_equipment_group_member(group_id, auth.uid()));
+
+CREATE POLICY "Group owners can update shared equipment"
+ON public.equipment
+FOR UPDATE
+USING (group_id IS NOT NULL AND public.is_equipment_group_owner(group_id, auth.uid()));
+
+CREATE POLICY "Group owners can delete shared equipment"
+ON public.equipment
+FOR DELETE
+USING (group_id IS NOT NULL AND public.is_equipment_group_owner(group_id, auth.uid()));
+
+CREATE POLICY "Group members can view cleaning logs of shared equipment"
+ON public.cleaning_logs
+FOR SELECT
+USING (public.can_access_equipment(equipment_id, auth.uid()));
+
+CREATE POLICY "Group members can view cleaning steps of shared equipment"
+ON public.equipment_cleaning_steps
+FOR SELECT
+USING (public.can_access_equipment(equipment_id, auth.uid()));
+
+CREATE POLICY "Group members can view maintenance logs of shared equipment"
+ON public.maintenance_logs
+FOR SELECT
+USING (public.can_access_equipment(equipment_id, auth.uid()));
+
+-- Members log cleanings under their own user_id, but only for equipment
+-- they can reach
+CREATE OR REPLACE FUNCTION public.check_cleaning_log_equipment_access()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.can_access_equipment(NEW.equipment_id, NEW.user_id) THEN
+    RAISE EXCEPTION 'Cannot log a cleaning for equipment you do not own or share';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_cleaning_log_equipment_access
+BEFORE INSERT ON public.cleaning_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.check_cleaning_log_equipment_access();
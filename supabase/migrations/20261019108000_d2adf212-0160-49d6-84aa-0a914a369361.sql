@@ -0,0 +1,268 @@
+-- Bands: a named group of musicians with admins and members. Band events
+-- show up on every member's calendar, and each band gets an equipment
+-- group (see equipment_groups) whose membership follows the band's, so
+-- band-owned gear is shared the same way as household gear. Band admins
+-- are owners of that group.
+
+CREATE TABLE public.bands (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  avatar_url TEXT,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.band_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  band_id UUID NOT NULL REFERENCES public.bands(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(band_id, user_id)
+);
+
+ALTER TABLE public.equipment_groups
+ADD COLUMN band_id UUID UNIQUE REFERENCES public.bands(id) ON DELETE CASCADE;
+
+-- Deleting a band leaves its events on the creator's calendar
+ALTER TABLE public.events
+ADD COLUMN band_id UUID REFERENCES public.bands(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_band_members_user_id ON public.band_members(user_id);
+CREATE INDEX idx_events_band_id ON public.events(band_id);
+
+CREATE OR REPLACE FUNCTION public.is_band_member(p_band_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.band_members
+    WHERE band_id = p_band_id AND user_id = p_user_id
+  );
+$function$;
+
+CREATE OR REPLACE FUNCTION public.is_band_admin(p_band_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.band_members
+    WHERE band_id = p_band_id AND user_id = p_user_id AND role = 'admin'
+  );
+$function$;
+
+-- Enable Row Level Security
+ALTER TABLE public.bands ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.band_members ENABLE ROW LEVEL SECURITY;
+
+-- Bands and their line-ups are public, like profiles
+CREATE POLICY "Anyone can view bands"
+ON public.bands
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can create bands"
+ON public.bands
+FOR INSERT
+WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Admins can update their bands"
+ON public.bands
+FOR UPDATE
+USING (public.is_band_admin(id, auth.uid()));
+
+CREATE POLICY "Admins can delete their bands"
+ON public.bands
+FOR DELETE
+USING (public.is_band_admin(id, auth.uid()));
+
+CREATE POLICY "Anyone can view band members"
+ON public.band_members
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can add band members"
+ON public.band_members
+FOR INSERT
+WITH CHECK (public.is_band_admin(band_id, auth.uid()));
+
+CREATE POLICY "Admins can change band member roles"
+ON public.band_members
+FOR UPDATE
+USING (public.is_band_admin(band_id, auth.uid()));
+
+CREATE POLICY "Admins can remove band members and members can leave"
+ON public.band_members
+FOR DELETE
+USING (auth.uid() = user_id OR public.is_band_admin(band_id, auth.uid()));
+
+CREATE TRIGGER update_bands_updated_at
+BEFORE UPDATE ON public.bands
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whoever creates a band is its first admin, and the band gets its
+-- equipment group
+CREATE OR REPLACE FUNCTION public.setup_new_band()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.equipment_groups (name, created_by, band_id)
+  VALUES (NEW.name, NEW.created_by, NEW.id);
+
+  INSERT INTO public.band_members (band_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'admin');
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER setup_new_band
+AFTER INSERT ON public.bands
+FOR EACH ROW
+EXECUTE FUNCTION public.setup_new_band();
+
+CREATE OR REPLACE FUNCTION public.rename_band_equipment_group()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.equipment_groups
+  SET name = NEW.name
+  WHERE band_id = NEW.id;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER rename_band_equipment_group
+AFTER UPDATE OF name ON public.bands
+FOR EACH ROW
+EXECUTE FUNCTION public.rename_band_equipment_group();
+
+-- A band always keeps at least one admin
+CREATE OR REPLACE FUNCTION public.keep_band_admin()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF OLD.role = 'admin'
+    AND EXISTS (SELECT 1 FROM public.bands WHERE id = OLD.band_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.band_members
+      WHERE band_id = OLD.band_id AND role = 'admin' AND id <> OLD.id
+    ) THEN
+    RAISE EXCEPTION 'A band needs at least one admin';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER keep_band_admin
+BEFORE DELETE OR UPDATE OF role ON public.band_members
+FOR EACH ROW
+WHEN (OLD.role = 'admin')
+EXECUTE FUNCTION public.keep_band_admin();
+
+-- Mirror the line-up into the band's equipment group: admins own the
+-- band's gear, members can see and clean it
+CREATE OR REPLACE FUNCTION public.sync_band_equipment_group_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  band_group_id UUID;
+BEGIN
+  -- When the band itself is deleted its group goes with it
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.bands WHERE id = OLD.band_id) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO band_group_id
+  FROM public.equipment_groups
+  WHERE band_id = COALESCE(NEW.band_id, OLD.band_id);
+
+  IF band_group_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.equipment_group_members (group_id, user_id, role)
+    VALUES (band_group_id, NEW.user_id, CASE WHEN NEW.role = 'admin' THEN 'owner' ELSE 'member' END)
+    ON CONFLICT (group_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+  ELSIF TG_OP = 'UPDATE' THEN
+    UPDATE public.equipment_group_members
+    SET role = CASE WHEN NEW.role = 'admin' THEN 'owner' ELSE 'member' END
+    WHERE group_id = band_group_id AND user_id = NEW.user_id;
+  ELSE
+    DELETE FROM public.equipment_group_members
+    WHERE group_id = band_group_id AND user_id = OLD.user_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER sync_band_equipment_group_member
+AFTER INSERT OR DELETE OR UPDATE OF role ON public.band_members
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_band_equipment_group_member();
+
+-- Band events are on every member's calendar. Any member can add one;
+-- the creator (existing policies) and band admins can change or remove it.
+CREATE POLICY "Band members can view band events"
+ON public.events
+FOR SELECT
+USING (band_id IS NOT NULL AND public.is_band_member(band_id, auth.uid()));
+
+CREATE POLICY "Band admins can update band events"
+ON public.events
+FOR UPDATE
+USING (band_id IS NOT NULL AND public.is_band_admin(band_id, auth.uid()));
+
+CREATE POLICY "Band admins can delete band events"
+ON public.events
+FOR DELETE
+USING (band_id IS NOT NULL AND public.is_band_admin(band_id, auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.check_event_band_membership()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.band_id IS NOT NULL
+    AND NOT public.is_band_member(NEW.band_id, COALESCE(auth.uid(), NEW.user_id)) THEN
+    RAISE EXCEPTION 'Only band members can add events to a band';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_event_band_membership
+BEFORE INSERT OR UPDATE OF band_id ON public.events
+FOR EACH ROW
+EXECUTE FUNCTION public.check_event_band_membership();
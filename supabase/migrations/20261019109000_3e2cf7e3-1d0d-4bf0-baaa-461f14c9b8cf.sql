@@ -0,0 +1,290 @@
+-- Cleaning delegation: an equipment owner can ask people they follow to
+-- help clean an item. Once a delegate accepts they can see the item and log
+-- cleanings for it. The owner assigns the next cleaning to a delegate
+-- (equipment.assigned_to, NULL meaning the owner), optionally rotating to
+-- the next delegate after every full cleaning. Reminders go to the
+-- assignee only.
+
+CREATE TABLE public.equipment_delegates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  equipment_id UUID NOT NULL REFERENCES public.equipment(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL,
+  delegate_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(equipment_id, delegate_id),
+  CHECK (owner_id <> delegate_id)
+);
+
+ALTER TABLE public.equipment
+ADD COLUMN assigned_to UUID,
+ADD COLUMN auto_rotate_assignment BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_equipment_delegates_delegate_id ON public.equipment_delegates(delegate_id);
+CREATE INDEX idx_equipment_delegates_equipment_id ON public.equipment_delegates(equipment_id, created_at);
+CREATE INDEX idx_equipment_assigned_to ON public.equipment(assigned_to);
+
+CREATE OR REPLACE FUNCTION public.is_equipment_delegate(p_equipment_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.equipment_delegates
+    WHERE equipment_id = p_equipment_id AND delegate_id = p_user_id AND status = 'accepted'
+  );
+$function$;
+
+-- Accepted delegates can reach the item like group members can
+CREATE OR REPLACE FUNCTION public.can_access_equipment(p_equipment_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.equipment e
+    WHERE e.id = p_equipment_id
+    AND (
+      e.user_id = p_user_id
+      OR (e.group_id IS NOT NULL AND public.is_equipment_group_member(e.group_id, p_user_id))
+      OR public.is_equipment_delegate(e.id, p_user_id)
+    )
+  );
+$function$;
+
+-- Enable Row Level Security
+ALTER TABLE public.equipment_delegates ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for equipment delegates
+CREATE POLICY "Owners and delegates can view delegations"
+ON public.equipment_delegates
+FOR SELECT
+USING (auth.uid() = owner_id OR auth.uid() = delegate_id);
+
+CREATE POLICY "Owners can invite delegates"
+ON public.equipment_delegates
+FOR INSERT
+WITH CHECK (
+  auth.uid() = owner_id
+  AND EXISTS (SELECT 1 FROM public.equipment e WHERE e.id = equipment_id AND e.user_id = auth.uid())
+);
+
+CREATE POLICY "Delegates can answer delegations"
+ON public.equipment_delegates
+FOR UPDATE
+USING (auth.uid() = delegate_id);
+
+CREATE POLICY "Owners can remove delegates and delegates can leave"
+ON public.equipment_delegates
+FOR DELETE
+USING (auth.uid() = owner_id OR auth.uid() = delegate_id);
+
+CREATE POLICY "Delegates can view delegated equipment"
+ON public.equipment
+FOR SELECT
+USING (public.is_equipment_delegate(id, auth.uid()));
+
+CREATE TRIGGER update_equipment_delegates_updated_at
+BEFORE UPDATE ON public.equipment_delegates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Allow delegation notifications
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+CHECK (type IN ('follow', 'like', 'comment', 'comment_reply', 'event_like', 'event_comment', 'cleaning_reminder', 'event_reminder', 'test', 'low_stock', 'achievement', 'cleaning_delegation', 'cleaning_assigned'));
+
+-- Delegates must be people the owner follows; the invite is sent as a
+-- notification and the answer goes back to the owner
+CREATE OR REPLACE FUNCTION public.handle_equipment_delegation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  equipment_name TEXT;
+  owner_name TEXT;
+  delegate_name TEXT;
+BEGIN
+  SELECT name INTO equipment_name FROM public.equipment WHERE id = NEW.equipment_id;
+  SELECT COALESCE(display_name, username) INTO owner_name FROM public.profiles WHERE user_id = NEW.owner_id;
+  SELECT COALESCE(display_name, username) INTO delegate_name FROM public.profiles WHERE user_id = NEW.delegate_id;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.followers
+      WHERE follower_id = NEW.owner_id AND following_id = NEW.delegate_id
+    ) THEN
+      RAISE EXCEPTION 'You can only delegate cleaning to people you follow';
+    END IF;
+
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      NEW.delegate_id,
+      'cleaning_delegation',
+      '🧽 Cleaning Request',
+      COALESCE(owner_name, 'Someone') || ' asked you to help clean their ' || equipment_name,
+      jsonb_build_object('delegation_id', NEW.id, 'equipment_id', NEW.equipment_id, 'equipment_name', equipment_name)
+    );
+  ELSIF NEW.status <> OLD.status AND NEW.status IN ('accepted', 'declined') THEN
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      NEW.owner_id,
+      'cleaning_delegation',
+      CASE WHEN NEW.status = 'accepted' THEN '🤝 Request Accepted' ELSE 'Request Declined' END,
+      COALESCE(delegate_name, 'Someone') || ' ' || NEW.status || ' your request to help clean your ' || equipment_name,
+      jsonb_build_object('delegation_id', NEW.id, 'equipment_id', NEW.equipment_id, 'equipment_name', equipment_name, 'status', NEW.status)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER handle_equipment_delegation
+AFTER INSERT OR UPDATE OF status ON public.equipment_delegates
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_equipment_delegation();
+
+-- A delegate who declines, leaves or is removed can't stay assigned
+CREATE OR REPLACE FUNCTION public.release_equipment_assignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = 'accepted' THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.equipment
+  SET assigned_to = NULL
+  WHERE id = OLD.equipment_id AND assigned_to = OLD.delegate_id;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER release_equipment_assignment
+AFTER DELETE OR UPDATE OF status ON public.equipment_delegates
+FOR EACH ROW
+EXECUTE FUNCTION public.release_equipment_assignment();
+
+-- Only accepted delegates can be assigned, and they hear about it
+CREATE OR REPLACE FUNCTION public.check_equipment_assignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.assigned_to IS NOT NULL AND NOT public.is_equipment_delegate(NEW.id, NEW.assigned_to) THEN
+    RAISE EXCEPTION 'Cleanings can only be assigned to accepted delegates';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_equipment_assignment
+BEFORE INSERT OR UPDATE OF assigned_to ON public.equipment
+FOR EACH ROW
+EXECUTE FUNCTION public.check_equipment_assignment();
+
+CREATE OR REPLACE FUNCTION public.notify_equipment_assignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.assigned_to IS NOT NULL
+    AND NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+    AND NEW.assigned_to IS DISTINCT FROM auth.uid() THEN
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      NEW.assigned_to,
+      'cleaning_assigned',
+      '📋 Cleaning Assigned',
+      'You''re up for the next cleaning of ' || NEW.name,
+      jsonb_build_object('equipment_id', NEW.id, 'equipment_name', NEW.name, 'next_cleaning_due', NEW.next_cleaning_due)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER notify_equipment_assignment
+AFTER UPDATE OF assigned_to ON public.equipment
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_equipment_assignment();
+
+-- With rotation on, every full cleaning hands the next one to the
+-- following accepted delegate, in the order they were invited
+CREATE OR REPLACE FUNCTION public.rotate_equipment_assignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  eq RECORD;
+  current_invited_at TIMESTAMP WITH TIME ZONE;
+  next_delegate UUID;
+BEGIN
+  IF NEW.is_partial THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id, assigned_to, auto_rotate_assignment INTO eq
+  FROM public.equipment
+  WHERE id = NEW.equipment_id;
+
+  IF NOT FOUND OR NOT eq.auto_rotate_assignment THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT created_at INTO current_invited_at
+  FROM public.equipment_delegates
+  WHERE equipment_id = eq.id AND delegate_id = eq.assigned_to;
+
+  SELECT delegate_id INTO next_delegate
+  FROM public.equipment_delegates
+  WHERE equipment_id = eq.id
+  AND status = 'accepted'
+  AND created_at > COALESCE(current_invited_at, '-infinity'::timestamp with time zone)
+  ORDER BY created_at
+  LIMIT 1;
+
+  -- Wrap around to the first delegate
+  IF next_delegate IS NULL THEN
+    SELECT delegate_id INTO next_delegate
+    FROM public.equipment_delegates
+    WHERE equipment_id = eq.id AND status = 'accepted'
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  IF next_delegate IS DISTINCT FROM eq.assigned_to THEN
+    UPDATE public.equipment
+    SET assigned_to = next_delegate
+    WHERE id = eq.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER rotate_equipment_assignment
+AFTER INSERT ON public.cleaning_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.rotate_equipment_assignment();
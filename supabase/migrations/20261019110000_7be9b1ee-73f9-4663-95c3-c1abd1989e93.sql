@@ -0,0 +1,181 @@
+-- Equipment type catalog: one row per instrument type with its icon, a
+-- default cleaning frequency, the default checklist, the supply types it
+-- usually needs (matching cleaning_equipment.type) and a short care guide.
+-- Replaces the type lists hardcoded in the app and in
+-- default_cleaning_steps. Users can also save their own templates, which
+-- prefill new equipment and its checklist.
+
+CREATE TABLE public.equipment_types (
+  id TEXT NOT NULL PRIMARY KEY,
+  label TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  default_frequency_days INTEGER NOT NULL CHECK (default_frequency_days > 0),
+  default_steps TEXT[] NOT NULL DEFAULT '{}',
+  supply_types TEXT[] NOT NULL DEFAULT '{}',
+  care_guide TEXT NOT NULL DEFAULT '',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.equipment_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL REFERENCES public.equipment_types(id),
+  icon TEXT,
+  description TEXT,
+  cleaning_frequency_days INTEGER NOT NULL DEFAULT 30 CHECK (cleaning_frequency_days > 0),
+  schedule_mode TEXT NOT NULL DEFAULT 'days',
+  usage_interval INTEGER,
+  steps TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Equipment remembers the template it was created from
+ALTER TABLE public.equipment
+ADD COLUMN template_id UUID REFERENCES public.equipment_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_equipment_templates_user_id ON public.equipment_templates(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.equipment_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.equipment_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view equipment types"
+ON public.equipment_types
+FOR SELECT
+USING (true);
+
+-- Create policies for equipment templates
+CREATE POLICY "Users can view their own equipment templates"
+ON public.equipment_templates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own equipment templates"
+ON public.equipment_templates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own equipment templates"
+ON public.equipment_templates
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own equipment templates"
+ON public.equipment_templates
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_equipment_templates_updated_at
+BEFORE UPDATE ON public.equipment_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.equipment_types (id, label, icon, default_frequency_days, default_steps, supply_types, care_guide, position) VALUES
+  ('guitar', 'Guitar', '🎸', 14,
+    ARRAY['Wipe down strings', 'Wipe fretboard', 'Oil fretboard', 'Polish body', 'Clean hardware'],
+    ARRAY['cloth', 'microfiber', 'string_cleaner', 'polish'],
+    'Wipe the strings after every session to stop corrosion. Oil a rosewood or ebony fretboard a few times a year, never maple. Use guitar polish only on gloss finishes and keep the guitar away from heaters and damp cases.',
+    0),
+  ('drums', 'Drums', '🥁', 30,
+    ARRAY['Dust shells', 'Wipe drum heads', 'Polish cymbals', 'Clean hardware and stands'],
+    ARRAY['drum_cleaner', 'cloth', 'polish'],
+    'Dust shells and hardware regularly and wipe heads with a barely damp cloth. Clean cymbals with a cleaner made for their finish and always wipe off fingerprints after playing. Check lugs and stands for loose screws while you clean.',
+    1),
+  ('microphone', 'Microphone', '🎤', 7,
+    ARRAY['Remove and wash grille', 'Disinfect grille', 'Wipe body', 'Let dry before reassembling'],
+    ARRAY['disinfectant', 'cloth'],
+    'Shared mics collect saliva and germs fast. Unscrew the grille, wash it in warm soapy water, disinfect and let it dry completely. Never get water on the capsule; wipe the body with a dry or lightly damp cloth.',
+    2),
+  ('speaker', 'Speaker', '🔊', 60,
+    ARRAY['Dust cabinet', 'Vacuum grille cloth', 'Check cables and connectors'],
+    ARRAY['cloth'],
+    'Dust the cabinet and vacuum grille cloth on a low setting. Keep liquids away from the drivers and check cables and connectors for wear.',
+    3),
+  ('keyboard', 'Keyboard', '🎹', 30,
+    ARRAY['Dust keys', 'Wipe keys with damp cloth', 'Clean control panel'],
+    ARRAY['microfiber', 'spray'],
+    'Power off before cleaning. Dust the keys, then wipe them with a microfiber cloth lightly sprayed with cleaner, never spraying the keyboard directly. Use a dust cover between sessions.',
+    4),
+  ('violin', 'Violin', '🎻', 14,
+    ARRAY['Remove rosin dust', 'Wipe strings', 'Polish body', 'Clean fingerboard'],
+    ARRAY['cloth', 'microfiber', 'string_cleaner'],
+    'Wipe rosin dust off the strings, top and bow stick after every session; built-up rosin damages varnish. Use polish sparingly and only one made for violins. Loosen the bow hair before putting it away.',
+    5),
+  ('trumpet', 'Trumpet', '🎺', 7,
+    ARRAY['Flush with warm water', 'Snake the tubing', 'Clean mouthpiece', 'Oil valves', 'Grease slides'],
+    ARRAY['oil', 'cloth', 'brush'],
+    'Clean the mouthpiece weekly with a brush and warm soapy water. Give the whole horn a bath every month or so, then oil the valves and grease the slides. Empty water keys after every session.',
+    6),
+  ('saxophone', 'Saxophone', '🎷', 7,
+    ARRAY['Swab body', 'Clean neck', 'Clean mouthpiece', 'Wipe keys'],
+    ARRAY['cloth', 'brush', 'oil'],
+    'Swab the body and neck after every session so moisture does not sit on the pads. Clean the mouthpiece weekly and wipe fingerprints off the keys. Rotate reeds and let them dry flat.',
+    7),
+  ('amplifier', 'Amplifier', '📢', 60,
+    ARRAY['Dust cabinet', 'Clean knobs and jacks', 'Check tubes and cables'],
+    ARRAY['cloth'],
+    'Unplug and let tube amps cool before cleaning. Dust the cabinet and controls, use contact cleaner on scratchy jacks and pots, and check tubes and cables for damage.',
+    8),
+  ('mixer', 'Mixer', '🎛️', 30,
+    ARRAY['Dust surface', 'Clean faders', 'Clean knobs', 'Check connectors'],
+    ARRAY['microfiber', 'spray'],
+    'Keep it covered when not in use. Dust with a soft brush or compressed air, wipe the surface with a lightly dampened microfiber cloth and use fader lubricant, not general cleaner, on scratchy faders.',
+    9),
+  ('headphones', 'Headphones', '🎧', 14,
+    ARRAY['Wipe ear pads', 'Disinfect headband', 'Clean cable'],
+    ARRAY['disinfectant', 'cloth'],
+    'Wipe ear pads and the headband with a disinfectant wipe, especially when sharing. Replace worn pads and coil the cable loosely to avoid breaks.',
+    10),
+  ('other', 'Other', '🎵', 30,
+    ARRAY['Dust surface', 'Wipe down', 'Inspect for damage'],
+    ARRAY['cloth'],
+    'Dust and wipe down regularly and check for loose parts or damage while you clean.',
+    11);
+
+-- Existing equipment always had one of these types
+ALTER TABLE public.equipment
+ADD CONSTRAINT equipment_type_fkey FOREIGN KEY (type) REFERENCES public.equipment_types(id) NOT VALID;
+
+-- The default checklist now comes from the catalog
+CREATE OR REPLACE FUNCTION public.default_cleaning_steps(equipment_type text)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT COALESCE(
+    (SELECT default_steps FROM public.equipment_types WHERE id = equipment_type),
+    (SELECT default_steps FROM public.equipment_types WHERE id = 'other')
+  );
+$function$;
+
+-- Equipment created from a template gets the template's checklist
+CREATE OR REPLACE FUNCTION public.seed_equipment_cleaning_steps()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  steps TEXT[];
+BEGIN
+  IF NEW.template_id IS NOT NULL THEN
+    SELECT t.steps INTO steps
+    FROM public.equipment_templates t
+    WHERE t.id = NEW.template_id AND t.user_id = NEW.user_id;
+  END IF;
+
+  IF steps IS NULL OR cardinality(steps) = 0 THEN
+    steps := public.default_cleaning_steps(NEW.type);
+  END IF;
+
+  INSERT INTO public.equipment_cleaning_steps (equipment_id, user_id, title, position)
+  SELECT NEW.id, NEW.user_id, step.title, step.position - 1
+  FROM unnest(steps) WITH ORDINALITY AS step(title, position);
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,217 @@
+-- Self-service account deletion. A request schedules the deletion 14 days
+-- out; signing in again during that window cancels it. Once due, the
+-- process-account-deletions function removes the user's files, calls
+-- delete_user_data for their rows and finally deletes the auth user.
+
+CREATE TABLE public.account_deletion_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE,
+  requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + INTERVAL '14 days',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_account_deletion_requests_scheduled_for ON public.account_deletion_requests(scheduled_for);
+
+-- Enable Row Level Security
+ALTER TABLE public.account_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+-- Requests are created through request_account_deletion only
+CREATE POLICY "Users can view their own deletion request"
+ON public.account_deletion_requests
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Allow the cancellation notice
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+CHECK (type IN ('follow', 'like', 'comment', 'comment_reply', 'event_like', 'event_comment', 'cleaning_reminder', 'event_reminder', 'test', 'low_stock', 'achievement', 'cleaning_delegation', 'cleaning_assigned', 'account_deletion_cancelled'));
+
+-- The app re-checks the password by signing in again right before calling
+-- this, so a request needs a sign-in from the last few minutes
+CREATE OR REPLACE FUNCTION public.request_account_deletion()
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  signed_in_at TIMESTAMP WITH TIME ZONE;
+  deletion_date TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT last_sign_in_at INTO signed_in_at FROM auth.users WHERE id = auth.uid();
+
+  IF signed_in_at IS NULL OR signed_in_at < now() - INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Please confirm your password again';
+  END IF;
+
+  INSERT INTO public.account_deletion_requests (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT scheduled_for INTO deletion_date
+  FROM public.account_deletion_requests
+  WHERE user_id = auth.uid();
+
+  RETURN deletion_date;
+END;
+$function$;
+
+-- Any sign-in after the request cancels it
+CREATE OR REPLACE FUNCTION public.cancel_account_deletion_on_sign_in()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  DELETE FROM public.account_deletion_requests
+  WHERE user_id = NEW.id AND requested_at < NEW.last_sign_in_at;
+
+  IF FOUND THEN
+    INSERT INTO public.notifications (user_id, type, title, message, data)
+    VALUES (
+      NEW.id,
+      'account_deletion_cancelled',
+      '👋 Welcome Back',
+      'You signed in again, so your account will not be deleted',
+      '{}'::jsonb
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER cancel_account_deletion_on_sign_in
+AFTER UPDATE OF last_sign_in_at ON auth.users
+FOR EACH ROW
+WHEN (NEW.last_sign_in_at IS DISTINCT FROM OLD.last_sign_in_at)
+EXECUTE FUNCTION public.cancel_account_deletion_on_sign_in();
+
+-- Removes every row belonging to a user. Bands and groups they run are
+-- handed to the longest-standing member, or removed when nobody is left;
+-- band events they created stay with the band.
+CREATE OR REPLACE FUNCTION public.delete_user_data(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  membership RECORD;
+  successor_id UUID;
+BEGIN
+  FOR membership IN
+    SELECT bm.band_id FROM public.band_members bm
+    WHERE bm.user_id = p_user_id AND bm.role = 'admin'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.band_members other
+      WHERE other.band_id = bm.band_id AND other.role = 'admin' AND other.user_id <> p_user_id
+    )
+  LOOP
+    SELECT id INTO successor_id
+    FROM public.band_members
+    WHERE band_id = membership.band_id AND user_id <> p_user_id
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF successor_id IS NULL THEN
+      DELETE FROM public.bands WHERE id = membership.band_id;
+    ELSE
+      UPDATE public.band_members SET role = 'admin' WHERE id = successor_id;
+    END IF;
+  END LOOP;
+
+  UPDATE public.events e
+  SET user_id = (
+    SELECT bm.user_id FROM public.band_members bm
+    WHERE bm.band_id = e.band_id AND bm.role = 'admin' AND bm.user_id <> p_user_id
+    ORDER BY bm.created_at
+    LIMIT 1
+  )
+  WHERE e.user_id = p_user_id
+  AND e.band_id IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM public.band_members bm
+    WHERE bm.band_id = e.band_id AND bm.role = 'admin' AND bm.user_id <> p_user_id
+  );
+
+  DELETE FROM public.band_members WHERE user_id = p_user_id;
+
+  -- Band groups follow the band line-up above
+  FOR membership IN
+    SELECT gm.group_id FROM public.equipment_group_members gm
+    JOIN public.equipment_groups g ON g.id = gm.group_id
+    WHERE gm.user_id = p_user_id AND gm.role = 'owner' AND g.band_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.equipment_group_members other
+      WHERE other.group_id = gm.group_id AND other.role = 'owner' AND other.user_id <> p_user_id
+    )
+  LOOP
+    SELECT id INTO successor_id
+    FROM public.equipment_group_members
+    WHERE group_id = membership.group_id AND user_id <> p_user_id
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF successor_id IS NULL THEN
+      DELETE FROM public.equipment_groups WHERE id = membership.group_id;
+    ELSE
+      UPDATE public.equipment_group_members SET role = 'owner' WHERE id = successor_id;
+    END IF;
+  END LOOP;
+
+  DELETE FROM public.equipment_group_members WHERE user_id = p_user_id;
+  DELETE FROM public.equipment_delegates WHERE owner_id = p_user_id OR delegate_id = p_user_id;
+  UPDATE public.event_packing_items SET assigned_to = NULL WHERE assigned_to = p_user_id;
+
+  -- Social
+  DELETE FROM public.post_likes
+  WHERE user_id = p_user_id OR post_id IN (SELECT id FROM public.posts WHERE user_id = p_user_id);
+  DELETE FROM public.post_comments
+  WHERE user_id = p_user_id OR post_id IN (SELECT id FROM public.posts WHERE user_id = p_user_id);
+  DELETE FROM public.posts WHERE user_id = p_user_id;
+  DELETE FROM public.event_likes
+  WHERE user_id = p_user_id OR event_id IN (SELECT id FROM public.events WHERE user_id = p_user_id);
+  DELETE FROM public.event_comments
+  WHERE user_id = p_user_id OR event_id IN (SELECT id FROM public.events WHERE user_id = p_user_id);
+  DELETE FROM public.event_attendees
+  WHERE user_id = p_user_id OR event_id IN (SELECT id FROM public.events WHERE user_id = p_user_id);
+  DELETE FROM public.event_equipment WHERE user_id = p_user_id;
+  DELETE FROM public.event_packing_items WHERE user_id = p_user_id;
+  DELETE FROM public.events WHERE user_id = p_user_id;
+  DELETE FROM public.followers WHERE follower_id = p_user_id OR following_id = p_user_id;
+
+  -- Equipment and cleaning history
+  DELETE FROM public.cleaning_logs
+  WHERE user_id = p_user_id OR equipment_id IN (SELECT id FROM public.equipment WHERE user_id = p_user_id);
+  DELETE FROM public.maintenance_logs
+  WHERE user_id = p_user_id OR equipment_id IN (SELECT id FROM public.equipment WHERE user_id = p_user_id);
+  DELETE FROM public.equipment_cleaning_steps
+  WHERE user_id = p_user_id OR equipment_id IN (SELECT id FROM public.equipment WHERE user_id = p_user_id);
+  DELETE FROM public.cleaning_pauses WHERE user_id = p_user_id;
+  DELETE FROM public.equipment WHERE user_id = p_user_id;
+  DELETE FROM public.equipment_templates WHERE user_id = p_user_id;
+  DELETE FROM public.cleaning_equipment_restocks WHERE user_id = p_user_id;
+  DELETE FROM public.cleaning_equipment WHERE user_id = p_user_id;
+
+  -- Account
+  DELETE FROM public.notification_deliveries WHERE user_id = p_user_id;
+  DELETE FROM public.notifications WHERE user_id = p_user_id;
+  DELETE FROM public.user_achievements WHERE user_id = p_user_id;
+  DELETE FROM public.fcm_tokens WHERE user_id = p_user_id;
+  DELETE FROM public.user_timezones WHERE user_id = p_user_id;
+  DELETE FROM public.profiles WHERE user_id = p_user_id;
+  DELETE FROM public.account_deletion_requests WHERE user_id = p_user_id;
+END;
+$function$;
+
+-- Only the deletion job may run it
+REVOKE EXECUTE ON FUNCTION public.delete_user_data(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_user_data(uuid) TO service_role;
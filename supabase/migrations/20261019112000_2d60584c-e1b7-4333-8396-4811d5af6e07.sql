@@ -0,0 +1,169 @@
+-- Secret per-user calendar feed. The token in the feed URL is the only
+-- credential calendar apps send, so it is kept out of the public profile
+-- and can be replaced to revoke old subscriptions.
+
+CREATE TABLE public.calendar_feeds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are issued through reset_calendar_feed_token only
+CREATE POLICY "Users can view their own calendar feed"
+ON public.calendar_feeds
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own calendar feed"
+ON public.calendar_feeds
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_calendar_feeds_updated_at
+BEFORE UPDATE ON public.calendar_feeds
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Creates the user's feed token, or replaces it so old URLs stop working
+CREATE OR REPLACE FUNCTION public.reset_calendar_feed_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  new_token TEXT := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  INSERT INTO public.calendar_feeds (user_id, token)
+  VALUES (auth.uid(), new_token)
+  ON CONFLICT (user_id) DO UPDATE SET token = EXCLUDED.token;
+
+  RETURN new_token;
+END;
+$function$;
+
+-- Deleted accounts lose their feed too
+CREATE OR REPLACE FUNCTION public.delete_user_data(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  membership RECORD;
+  successor_id UUID;
+BEGIN
+  FOR membership IN
+    SELECT bm.band_id FROM public.band_members bm
+    WHERE bm.user_id = p_user_id AND bm.role = 'admin'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.band_members other
+      WHERE other.band_id = bm.band_id AND other.role = 'admin' AND other.user_id <> p_user_id
+    )
+  LOOP
+    SELECT id INTO successor_id
+    FROM public.band_members
+    WHERE band_id = membership.band_id AND user_id <> p_user_id
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF successor_id IS NULL THEN
+      DELETE FROM public.bands WHERE id = membership.band_id;
+    ELSE
+      UPDATE public.band_members SET role = 'admin' WHERE id = successor_id;
+    END IF;
+  END LOOP;
+
+  UPDATE public.events e
+  SET user_id = (
+    SELECT bm.user_id FROM public.band_members bm
+    WHERE bm.band_id = e.band_id AND bm.role = 'admin' AND bm.user_id <> p_user_id
+    ORDER BY bm.created_at
+    LIMIT 1
+  )
+  WHERE e.user_id = p_user_id
+  AND e.band_id IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM public.band_members bm
+    WHERE bm.band_id = e.band_id AND bm.role = 'admin' AND bm.user_id <> p_user_id
+  );
+
+  DELETE FROM public.band_members WHERE user_id = p_user_id;
+
+  -- Band groups follow the band line-up above
+  FOR membership IN
+    SELECT gm.group_id FROM public.equipment_group_members gm
+    JOIN public.equipment_groups g ON g.id = gm.group_id
+    WHERE gm.user_id = p_user_id AND gm.role = 'owner' AND g.band_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.equipment_group_members other
+      WHERE other.group_id = gm.group_id AND other.role = 'owner' AND other.user_id <> p_user_id
+    )
+  LOOP
+    SELECT id INTO successor_id
+    FROM public.equipment_group_members
+    WHERE group_id = membership.group_id AND user_id <> p_user_id
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF successor_id IS NULL THEN
+      DELETE FROM public.equipment_groups WHERE id = membership.group_id;
+    ELSE
+      UPDATE public.equipment_group_members SET role = 'owner' WHERE id = successor_id;
+    END IF;
+  END LOOP;
+
+  DELETE FROM public.equipment_group_members WHERE user_id = p_user_id;
+  DELETE FROM public.equipment_delegates WHERE owner_id = p_user_id OR delegate_id = p_user_id;
+  UPDATE public.event_packing_items SET assigned_to = NULL WHERE assigned_to = p_user_id;
+
+  -- Social
+  DELETE FROM public.post_likes
+  WHERE user_id = p_user_id OR post_id IN (SELECT id FROM public.posts WHERE user_id = p_user_id);
+  DELETE FROM public.post_comments
+  WHERE user_id = p_user_id OR post_id IN (SELECT id FROM public.posts WHERE user_id = p_user_id);
+  DELETE FROM public.posts WHERE user_id = p_user_id;
+  DELETE FROM public.event_likes
+  WHERE user_id = p_user_id OR event_id IN (SELECT id FROM public.events WHERE user_id = p_user_id);
+  DELETE FROM public.event_comments
+  WHERE user_id = p_user_id OR event_id IN (SELECT id FROM public.events WHERE user_id = p_user_id);
+  DELETE FROM public.event_attendees
+  WHERE user_id = p_user_id OR event_id IN (SELECT id FROM public.events WHERE user_id = p_user_id);
+  DELETE FROM public.event_equipment WHERE user_id = p_user_id;
+  DELETE FROM public.event_packing_items WHERE user_id = p_user_id;
+  DELETE FROM public.events WHERE user_id = p_user_id;
+  DELETE FROM public.followers WHERE follower_id = p_user_id OR following_id = p_user_id;
+
+  -- Equipment and cleaning history
+  DELETE FROM public.cleaning_logs
+  WHERE user_id = p_user_id OR equipment_id IN (SELECT id FROM public.equipment WHERE user_id = p_user_id);
+  DELETE FROM public.maintenance_logs
+  WHERE user_id = p_user_id OR equipment_id IN (SELECT id FROM public.equipment WHERE user_id = p_user_id);
+  DELETE FROM public.equipment_cleaning_steps
+  WHERE user_id = p_user_id OR equipment_id IN (SELECT id FROM public.equipment WHERE user_id = p_user_id);
+  DELETE FROM public.cleaning_pauses WHERE user_id = p_user_id;
+  DELETE FROM public.equipment WHERE user_id = p_user_id;
+  DELETE FROM public.equipment_templates WHERE user_id = p_user_id;
+  DELETE FROM public.cleaning_equipment_restocks WHERE user_id = p_user_id;
+  DELETE FROM public.cleaning_equipment WHERE user_id = p_user_id;
+
+  -- Account
+  DELETE FROM public.notification_deliveries WHERE user_id = p_user_id;
+  DELETE FROM public.notifications WHERE user_id = p_user_id;
+  DELETE FROM public.user_achievements WHERE user_id = p_user_id;
+  DELETE FROM public.fcm_tokens WHERE user_id = p_user_id;
+  DELETE FROM public.user_timezones WHERE user_id = p_user_id;
+  DELETE FROM public.calendar_feeds WHERE user_id = p_user_id;
+  DELETE FROM public.profiles WHERE user_id = p_user_id;
+  DELETE FROM public.account_deletion_requests WHERE user_id = p_user_id;
+END;
+$function$;
@@ -0,0 +1,7 @@
+-- Events imported from .ics files remember the VEVENT they came from
+-- (UID, plus the original start for occurrences of a recurring event) so
+-- importing the same calendar again updates them instead of adding copies.
+
+ALTER TABLE public.events ADD COLUMN ical_uid TEXT;
+
+CREATE UNIQUE INDEX idx_events_user_ical_uid ON public.events(user_id, ical_uid) WHERE ical_uid IS NOT NULL;
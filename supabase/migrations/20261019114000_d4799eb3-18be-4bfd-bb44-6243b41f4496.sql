@@ -0,0 +1,30 @@
+-- Delegates may only answer a delegation; everything else on the row is
+-- fixed once the owner has created it
+DROP POLICY IF EXISTS "Delegates can answer delegations" ON public.equipment_delegates;
+
+CREATE POLICY "Delegates can answer delegations"
+ON public.equipment_delegates
+FOR UPDATE
+USING (auth.uid() = delegate_id)
+WITH CHECK (auth.uid() = delegate_id AND status IN ('accepted', 'declined'));
+
+CREATE OR REPLACE FUNCTION public.prevent_equipment_delegate_reassignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.equipment_id IS DISTINCT FROM OLD.equipment_id
+    OR NEW.owner_id IS DISTINCT FROM OLD.owner_id
+    OR NEW.delegate_id IS DISTINCT FROM OLD.delegate_id THEN
+    RAISE EXCEPTION 'Only the status of a delegation can be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER prevent_equipment_delegate_reassignment
+BEFORE UPDATE ON public.equipment_delegates
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_equipment_delegate_reassignment();
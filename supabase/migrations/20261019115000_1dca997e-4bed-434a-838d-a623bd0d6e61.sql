@@ -0,0 +1,22 @@
+-- Moving a log to other equipment needs the same access as logging it,
+-- otherwise the streak recompute would rewrite someone else's equipment
+DROP TRIGGER IF EXISTS check_cleaning_log_equipment_access ON public.cleaning_logs;
+
+CREATE TRIGGER check_cleaning_log_equipment_access
+BEFORE INSERT OR UPDATE OF equipment_id ON public.cleaning_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.check_cleaning_log_equipment_access();
+
+-- Owners can only add people who follow them, not arbitrary users
+DROP POLICY IF EXISTS "Owners can add group members" ON public.equipment_group_members;
+
+CREATE POLICY "Owners can add group members"
+ON public.equipment_group_members
+FOR INSERT
+WITH CHECK (
+  public.is_equipment_group_owner(group_id, auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.followers f
+    WHERE f.follower_id = user_id AND f.following_id = auth.uid()
+  )
+);
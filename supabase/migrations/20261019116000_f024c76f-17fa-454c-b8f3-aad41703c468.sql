@@ -0,0 +1,54 @@
+-- Stock never goes below zero, so a usage can take less than it records.
+-- Remember what was actually taken and give back only that on delete.
+ALTER TABLE public.cleaning_log_supplies
+ADD COLUMN quantity_deducted INTEGER NOT NULL DEFAULT 0;
+
+-- Best guess for existing usage
+UPDATE public.cleaning_log_supplies SET quantity_deducted = quantity_used;
+
+CREATE OR REPLACE FUNCTION public.apply_cleaning_supply_usage()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  in_stock INTEGER;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT quantity INTO in_stock
+    FROM public.cleaning_equipment
+    WHERE id = NEW.cleaning_equipment_id
+    AND user_id = NEW.user_id
+    FOR UPDATE;
+
+    NEW.quantity_deducted := GREATEST(LEAST(NEW.quantity_used, COALESCE(in_stock, 0)), 0);
+
+    UPDATE public.cleaning_equipment
+    SET quantity = quantity - NEW.quantity_deducted
+    WHERE id = NEW.cleaning_equipment_id
+    AND user_id = NEW.user_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.cleaning_equipment
+    SET quantity = quantity + OLD.quantity_deducted
+    WHERE id = OLD.cleaning_equipment_id
+    AND user_id = OLD.user_id;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$function$;
+
+-- Deduction is worked out before the row is stored so it can be saved on it
+DROP TRIGGER IF EXISTS apply_cleaning_supply_usage_trigger ON public.cleaning_log_supplies;
+
+CREATE TRIGGER apply_cleaning_supply_usage_insert_trigger
+BEFORE INSERT ON public.cleaning_log_supplies
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_cleaning_supply_usage();
+
+CREATE TRIGGER apply_cleaning_supply_usage_delete_trigger
+AFTER DELETE ON public.cleaning_log_supplies
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_cleaning_supply_usage();
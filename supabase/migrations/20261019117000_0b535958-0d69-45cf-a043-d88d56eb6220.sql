@@ -0,0 +1,95 @@
+-- Restocks may only point at the user's own supplies
+DROP POLICY IF EXISTS "Users can create their own restocks" ON public.cleaning_equipment_restocks;
+DROP POLICY IF EXISTS "Users can update their own restocks" ON public.cleaning_equipment_restocks;
+
+CREATE POLICY "Users can create their own restocks"
+ON public.cleaning_equipment_restocks
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.cleaning_equipment ce
+    WHERE ce.id = cleaning_equipment_id
+    AND ce.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their own restocks"
+ON public.cleaning_equipment_restocks
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.cleaning_equipment ce
+    WHERE ce.id = cleaning_equipment_id
+    AND ce.user_id = auth.uid()
+  )
+);
+
+-- Adjust one supply's stock and copy date, price and supplier from its most
+-- recent purchase. The replacement is due one replacement cycle after that
+-- purchase.
+CREATE OR REPLACE FUNCTION public.apply_cleaning_equipment_restock(
+  p_supply_id UUID,
+  p_user_id UUID,
+  p_quantity_change INTEGER
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  latest_restock RECORD;
+BEGIN
+  SELECT * INTO latest_restock
+  FROM public.cleaning_equipment_restocks
+  WHERE cleaning_equipment_id = p_supply_id
+  AND user_id = p_user_id
+  ORDER BY restocked_at DESC, created_at DESC
+  LIMIT 1;
+
+  UPDATE public.cleaning_equipment
+  SET
+    quantity = GREATEST(quantity + p_quantity_change, 0),
+    last_restocked_at = latest_restock.restocked_at,
+    next_replacement_due = latest_restock.restocked_at + replacement_frequency_days * INTERVAL '1 day',
+    purchase_date = COALESCE(purchase_date, latest_restock.restocked_at),
+    cost_per_unit = COALESCE(latest_restock.unit_price, cost_per_unit),
+    supplier = COALESCE(latest_restock.supplier, supplier)
+  WHERE id = p_supply_id
+  AND user_id = p_user_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_cleaning_equipment_restock(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- A restock moved to another supply is taken back off the old one
+CREATE OR REPLACE FUNCTION public.sync_cleaning_equipment_restocks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.apply_cleaning_equipment_restock(NEW.cleaning_equipment_id, NEW.user_id, NEW.quantity);
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.cleaning_equipment_id IS DISTINCT FROM OLD.cleaning_equipment_id
+      OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+      PERFORM public.apply_cleaning_equipment_restock(OLD.cleaning_equipment_id, OLD.user_id, -OLD.quantity);
+      PERFORM public.apply_cleaning_equipment_restock(NEW.cleaning_equipment_id, NEW.user_id, NEW.quantity);
+    ELSE
+      PERFORM public.apply_cleaning_equipment_restock(NEW.cleaning_equipment_id, NEW.user_id, NEW.quantity - OLD.quantity);
+    END IF;
+  ELSE
+    PERFORM public.apply_cleaning_equipment_restock(OLD.cleaning_equipment_id, OLD.user_id, -OLD.quantity);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,20 @@
+-- Only equipment the user can reach may be attached, and only to events that
+-- are theirs or their band's. Usage from events counts towards the owner's
+-- cleaning schedule.
+DROP POLICY IF EXISTS "Users can create their own event equipment" ON public.event_equipment;
+
+CREATE POLICY "Users can create their own event equipment"
+ON public.event_equipment
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.can_access_equipment(equipment_id, auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = event_id
+    AND (
+      e.user_id = auth.uid()
+      OR (e.band_id IS NOT NULL AND public.is_band_member(e.band_id, auth.uid()))
+    )
+  )
+);
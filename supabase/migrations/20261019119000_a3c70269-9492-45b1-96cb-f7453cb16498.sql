@@ -0,0 +1,36 @@
+-- Joining a band shares its gear and calendar, so admins can only add people
+-- who follow them, as with equipment groups
+DROP POLICY IF EXISTS "Admins can add band members" ON public.band_members;
+
+CREATE POLICY "Admins can add band members"
+ON public.band_members
+FOR INSERT
+WITH CHECK (
+  public.is_band_admin(band_id, auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.followers f
+    WHERE f.follower_id = user_id AND f.following_id = auth.uid()
+  )
+);
+
+-- Only the role of a membership can change, otherwise an admin could swap
+-- someone in without the check above
+CREATE OR REPLACE FUNCTION public.prevent_band_member_reassignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.band_id IS DISTINCT FROM OLD.band_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Only the role of a band member can be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER prevent_band_member_reassignment
+BEFORE UPDATE ON public.band_members
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_band_member_reassignment();
@@ -0,0 +1,24 @@
+-- Equipment can only be shared into a group the user belongs to, otherwise
+-- it would show up (with reminders) for strangers. Checked when group_id is
+-- set or changed so edits to items already in a group are unaffected.
+CREATE OR REPLACE FUNCTION public.check_equipment_group_membership()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.group_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.group_id IS DISTINCT FROM OLD.group_id)
+    AND NOT public.is_equipment_group_member(NEW.group_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Cannot share equipment with a group you are not in';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_equipment_group_membership
+BEFORE INSERT OR UPDATE OF group_id ON public.equipment
+FOR EACH ROW
+EXECUTE FUNCTION public.check_equipment_group_membership();
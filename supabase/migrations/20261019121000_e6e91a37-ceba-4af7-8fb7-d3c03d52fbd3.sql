@@ -0,0 +1,41 @@
+-- A freeze covers at most one cleaning cycle, capped at a week, and can't
+-- overlap another freeze on the same item. Longer breaks are vacations.
+CREATE OR REPLACE FUNCTION public.check_streak_freeze_available()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  max_days INTEGER;
+BEGIN
+  IF NEW.kind <> 'freeze' THEN
+    RETURN NEW;
+  END IF;
+
+  IF (SELECT available FROM public.get_streak_freezes(NEW.user_id)) < 1 THEN
+    RAISE EXCEPTION 'No streak freezes available';
+  END IF;
+
+  SELECT LEAST(GREATEST(cleaning_frequency_days, 1), 7) INTO max_days
+  FROM public.equipment
+  WHERE id = NEW.equipment_id;
+
+  IF NEW.ends_on - NEW.starts_on + 1 > COALESCE(max_days, 1) THEN
+    RAISE EXCEPTION 'A streak freeze can cover at most % days', COALESCE(max_days, 1);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.cleaning_pauses
+    WHERE user_id = NEW.user_id
+    AND equipment_id = NEW.equipment_id
+    AND kind = 'freeze'
+    AND starts_on <= NEW.ends_on
+    AND ends_on >= NEW.starts_on
+  ) THEN
+    RAISE EXCEPTION 'This item already has a streak freeze for those days';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;